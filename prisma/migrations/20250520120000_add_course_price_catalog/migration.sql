@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Student" ADD COLUMN     "listPrice" DOUBLE PRECISION,
+ADD COLUMN     "priceOverridden" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "CoursePrice" (
+    "id" SERIAL NOT NULL,
+    "courseId" INTEGER NOT NULL,
+    "courseModalityId" INTEGER NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CoursePrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CoursePrice_courseId_courseModalityId_effectiveFrom_idx" ON "CoursePrice"("courseId", "courseModalityId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "CoursePrice" ADD CONSTRAINT "CoursePrice_courseId_courseModalityId_fkey" FOREIGN KEY ("courseId", "courseModalityId") REFERENCES "CourseToModality"("courseId", "courseModalityId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CoursePrice" ADD CONSTRAINT "CoursePrice_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
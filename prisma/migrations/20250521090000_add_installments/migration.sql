@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "InstallmentStatus" AS ENUM ('PENDING', 'PAID', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "Installment" (
+    "id" SERIAL NOT NULL,
+    "studentId" INTEGER NOT NULL,
+    "number" INTEGER NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "paidAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "paidDate" TIMESTAMP(3),
+    "status" "InstallmentStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Installment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Installment_studentId_number_key" ON "Installment"("studentId", "number");
+
+-- CreateIndex
+CREATE INDEX "Installment_dueDate_status_idx" ON "Installment"("dueDate", "status");
+
+-- AddForeignKey
+ALTER TABLE "Installment" ADD CONSTRAINT "Installment_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Gera as parcelas dos alunos já cadastrados (vencimentos mensais, resíduo de centavos na última parcela).
+-- Vendas pagas têm todas as parcelas quitadas; vendas com pagamento parcial têm a primeira (entrada) quitada.
+INSERT INTO "Installment" ("studentId", "number", "dueDate", "amount", "paidAmount", "paidDate", "status", "updatedAt")
+SELECT
+    parcels."studentId",
+    parcels."number",
+    parcels."dueDate",
+    parcels."amount",
+    CASE WHEN parcels."paid" THEN parcels."amount" ELSE 0 END,
+    CASE WHEN parcels."paid" THEN COALESCE(parcels."paymentDate", parcels."dueDate") END,
+    CASE
+        WHEN parcels."paid" THEN 'PAID'::"InstallmentStatus"
+        WHEN parcels."paymentStatus" = 'Cancelado' THEN 'CANCELLED'::"InstallmentStatus"
+        ELSE 'PENDING'::"InstallmentStatus"
+    END,
+    CURRENT_TIMESTAMP
+FROM (
+    SELECT
+        s."id" AS "studentId",
+        n AS "number",
+        s."paymentStatus",
+        s."paymentDate",
+        s."paymentStatus" = 'Pago' OR (s."paymentStatus" = 'Parcial' AND n = 1) AS "paid",
+        COALESCE(s."paymentForecastDate", s."paymentDate", s."registrationDate") + ((n - 1) * INTERVAL '1 month') AS "dueDate",
+        CASE
+            WHEN n = s."parcelCount" THEN
+                ROUND(s."netValue"::numeric, 2)
+                - ROUND((s."netValue" / s."parcelCount")::numeric, 2) * (s."parcelCount" - 1)
+            ELSE ROUND((s."netValue" / s."parcelCount")::numeric, 2)
+        END::DOUBLE PRECISION AS "amount"
+    FROM (
+        SELECT
+            *,
+            GREATEST("installments", 1) AS "parcelCount",
+            "value" - COALESCE("discountAmount", 0) AS "netValue"
+        FROM "Student"
+    ) AS s
+    CROSS JOIN LATERAL generate_series(1, s."parcelCount") AS n
+) AS parcels;
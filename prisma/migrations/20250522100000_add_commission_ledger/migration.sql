@@ -0,0 +1,78 @@
+-- CreateEnum
+CREATE TYPE "CommissionStatus" AS ENUM ('PENDING', 'APPROVED', 'PAID', 'REVERSED');
+
+-- CreateTable
+CREATE TABLE "CommissionEntry" (
+    "id" SERIAL NOT NULL,
+    "studentId" INTEGER,
+    "couponId" INTEGER,
+    "affiliateId" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" "CommissionStatus" NOT NULL DEFAULT 'PENDING',
+    "saleDate" TIMESTAMP(3) NOT NULL,
+    "approvedAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+    "payoutId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CommissionEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CommissionPayout" (
+    "id" SERIAL NOT NULL,
+    "affiliateId" INTEGER NOT NULL,
+    "periodStart" TIMESTAMP(3),
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "reference" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CommissionPayout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CommissionEntry_affiliateId_status_idx" ON "CommissionEntry"("affiliateId", "status");
+
+-- CreateIndex
+CREATE INDEX "CommissionEntry_studentId_idx" ON "CommissionEntry"("studentId");
+
+-- CreateIndex
+CREATE INDEX "CommissionPayout_affiliateId_periodEnd_idx" ON "CommissionPayout"("affiliateId", "periodEnd");
+
+-- AddForeignKey
+ALTER TABLE "CommissionEntry" ADD CONSTRAINT "CommissionEntry_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommissionEntry" ADD CONSTRAINT "CommissionEntry_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "Coupon"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommissionEntry" ADD CONSTRAINT "CommissionEntry_affiliateId_fkey" FOREIGN KEY ("affiliateId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommissionEntry" ADD CONSTRAINT "CommissionEntry_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "CommissionPayout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommissionPayout" ADD CONSTRAINT "CommissionPayout_affiliateId_fkey" FOREIGN KEY ("affiliateId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommissionPayout" ADD CONSTRAINT "CommissionPayout_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Gera os lançamentos das vendas já cadastradas com cupom (nenhuma comissão foi repassada ainda)
+INSERT INTO "CommissionEntry" ("studentId", "couponId", "affiliateId", "amount", "status", "saleDate", "approvedAt", "updatedAt")
+SELECT
+    s."id",
+    s."couponId",
+    c."userId",
+    s."affiliateCommission",
+    CASE WHEN s."paymentStatus" = 'Pago' THEN 'APPROVED'::"CommissionStatus" ELSE 'PENDING'::"CommissionStatus" END,
+    s."registrationDate",
+    CASE WHEN s."paymentStatus" = 'Pago' THEN COALESCE(s."paymentDate", s."registrationDate") END,
+    CURRENT_TIMESTAMP
+FROM "Student" s
+JOIN "Coupon" c ON c."id" = s."couponId"
+WHERE c."userId" IS NOT NULL
+  AND s."affiliateCommission" > 0;
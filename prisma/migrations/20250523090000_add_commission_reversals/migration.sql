@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "CommissionEntryType" AS ENUM ('SALE', 'ADJUSTMENT', 'REVERSAL');
+
+-- AlterTable
+ALTER TABLE "CommissionEntry" ADD COLUMN     "type" "CommissionEntryType" NOT NULL DEFAULT 'SALE',
+ADD COLUMN     "reason" TEXT,
+ADD COLUMN     "reversedAt" TIMESTAMP(3);
+
+-- Anula as comissões ainda não repassadas de vendas canceladas
+UPDATE "CommissionEntry" e
+SET "status" = 'REVERSED',
+    "reason" = 'Venda cancelada',
+    "reversedAt" = CURRENT_TIMESTAMP,
+    "updatedAt" = CURRENT_TIMESTAMP
+FROM "Student" s
+WHERE s."id" = e."studentId"
+  AND s."paymentStatus" = 'Cancelado'
+  AND e."status" IN ('PENDING', 'APPROVED');
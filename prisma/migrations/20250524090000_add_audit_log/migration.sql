@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "AuditEntity" AS ENUM ('STUDENT', 'COUPON', 'COUPON_CONFIGURATION', 'COURSE', 'COURSE_MODALITY', 'USER');
+
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('CREATE', 'UPDATE', 'DELETE');
+
+-- CreateTable
+CREATE TABLE "AuditLog" (
+    "id" SERIAL NOT NULL,
+    "actorId" INTEGER,
+    "actorEmail" TEXT,
+    "entity" "AuditEntity" NOT NULL,
+    "entityId" INTEGER NOT NULL,
+    "action" "AuditAction" NOT NULL,
+    "before" JSONB,
+    "after" JSONB,
+    "changes" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditLog_entity_entityId_idx" ON "AuditLog"("entity", "entityId");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_actorId_idx" ON "AuditLog"("actorId");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_createdAt_idx" ON "AuditLog"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AuditLog" ADD CONSTRAINT "AuditLog_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'RESTORE';
+
+-- AlterTable
+ALTER TABLE "Course" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "CourseModality" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Student" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Student_deletedAt_idx" ON "Student"("deletedAt");
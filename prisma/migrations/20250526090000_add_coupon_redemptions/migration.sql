@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "CouponRedemption" (
+    "id" SERIAL NOT NULL,
+    "couponId" INTEGER NOT NULL,
+    "studentId" INTEGER,
+    "sellerId" INTEGER,
+    "discountAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "commissionAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "redeemedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "releasedAt" TIMESTAMP(3),
+
+    CONSTRAINT "CouponRedemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CouponRedemption_couponId_redeemedAt_idx" ON "CouponRedemption"("couponId", "redeemedAt");
+
+-- CreateIndex
+CREATE INDEX "CouponRedemption_studentId_idx" ON "CouponRedemption"("studentId");
+
+-- AddForeignKey
+ALTER TABLE "CouponRedemption" ADD CONSTRAINT "CouponRedemption_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "Coupon"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CouponRedemption" ADD CONSTRAINT "CouponRedemption_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CouponRedemption" ADD CONSTRAINT "CouponRedemption_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Registra os usos das vendas já cadastradas com cupom
+INSERT INTO "CouponRedemption" ("couponId", "studentId", "sellerId", "discountAmount", "commissionAmount", "redeemedAt")
+SELECT
+    s."couponId",
+    s."id",
+    s."userId",
+    COALESCE(s."discountAmount", 0),
+    COALESCE(s."affiliateCommission", 0),
+    s."registrationDate"
+FROM "Student" s
+WHERE s."couponId" IS NOT NULL
+  AND s."deletedAt" IS NULL;
+
+-- Recalcula os contadores de uso a partir dos registros (corrige contagens infladas)
+UPDATE "Coupon" c
+SET "usageCount" = (
+    SELECT COUNT(*)
+    FROM "CouponRedemption" r
+    WHERE r."couponId" = c."id"
+      AND r."releasedAt" IS NULL
+);
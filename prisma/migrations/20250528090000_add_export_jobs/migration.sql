@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "ExportJobStatus" AS ENUM ('QUEUED', 'PROCESSING', 'COMPLETED', 'FAILED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "ExportJob" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "format" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "status" "ExportJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "rowCount" INTEGER,
+    "fileName" TEXT,
+    "filePath" TEXT,
+    "fileSize" INTEGER,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+
+    CONSTRAINT "ExportJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExportJob_userId_createdAt_idx" ON "ExportJob"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ExportJob_status_idx" ON "ExportJob"("status");
+
+-- AddForeignKey
+ALTER TABLE "ExportJob" ADD CONSTRAINT "ExportJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ReportView" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "filters" JSONB NOT NULL,
+    "shared" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReportView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportView_userId_name_key" ON "ReportView"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "ReportView_shared_idx" ON "ReportView"("shared");
+
+-- AddForeignKey
+ALTER TABLE "ReportView" ADD CONSTRAINT "ReportView_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
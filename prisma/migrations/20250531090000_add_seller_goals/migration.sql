@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "SellerGoal" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "year" INTEGER NOT NULL,
+    "month" INTEGER NOT NULL,
+    "revenueGoal" DOUBLE PRECISION NOT NULL,
+    "studentsGoal" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SellerGoal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SellerGoal_userId_year_month_key" ON "SellerGoal"("userId", "year", "month");
+
+-- CreateIndex
+CREATE INDEX "SellerGoal_year_month_idx" ON "SellerGoal"("year", "month");
+
+-- AddForeignKey
+ALTER TABLE "SellerGoal" ADD CONSTRAINT "SellerGoal_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterEnum
+ALTER TYPE "SessionRevocationReason" ADD VALUE 'REVOKED';
+ALTER TYPE "SessionRevocationReason" ADD VALUE 'FORCED_LOGOUT';
+ALTER TYPE "SessionRevocationReason" ADD VALUE 'USER_DELETED';
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "failedLoginAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lastFailedLoginAt" TIMESTAMP(3),
+ADD COLUMN "lockedUntil" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "User_lockedUntil_idx" ON "User"("lockedUntil");
@@ -0,0 +1,8 @@
+-- DropForeignKey
+ALTER TABLE "CoursePrice" DROP CONSTRAINT "CoursePrice_courseId_courseModalityId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "CoursePrice" ADD CONSTRAINT "CoursePrice_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CoursePrice" ADD CONSTRAINT "CoursePrice_courseModalityId_fkey" FOREIGN KEY ("courseModalityId") REFERENCES "CourseModality"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
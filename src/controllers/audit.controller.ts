@@ -0,0 +1,56 @@
+import type { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import type { AuditFiltersData } from '../models/schemas/audit.schema';
+import { handleError } from '../utils/errorHandler';
+import { endOfDayExclusive } from '../utils/date';
+
+const prisma = new PrismaClient();
+
+/**
+ * Consulta a trilha de auditoria com filtros por entidade, usuário e período
+ */
+export const listAuditLogs = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const filters = req.query as unknown as AuditFiltersData;
+    const { page, limit } = filters;
+
+    const where: Prisma.AuditLogWhereInput = {
+      ...(filters.entity && { entity: filters.entity }),
+      ...(filters.entityId && { entityId: filters.entityId }),
+      ...(filters.action && { action: filters.action }),
+      ...(filters.actorId && { actorId: filters.actorId }),
+      ...((filters.startDate || filters.endDate) && {
+        createdAt: {
+          ...(filters.startDate && { gte: filters.startDate }),
+          ...(filters.endDate && { lt: endOfDayExclusive(filters.endDate) })
+        }
+      })
+    };
+
+    const [total, logs] = await Promise.all([
+      prisma.auditLog.count({ where }),
+      prisma.auditLog.findMany({
+        where,
+        include: {
+          actor: { select: { id: true, name: true, email: true } }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      })
+    ]);
+
+    return res.status(200).json({
+      logs,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
@@ -1,12 +1,23 @@
 import type { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import type { Prisma } from '@prisma/client';
+import { PrismaClient, AuditAction, AuditEntity, SessionRevocationReason } from '@prisma/client';
+import type { Prisma, User } from '@prisma/client';
 import jwt from 'jsonwebtoken';
 import { hashPassword, comparePassword } from '../utils/password';
-import { generateAuthTokens, verifyRefreshToken } from '../utils/jwt';
 import type { CreateUserInput, LoginInput } from '../models/user.model';
 import { Role } from '../models/user.model';
 import { handleError, AppError } from '../utils/errorHandler';
+import { recordAudit, getAuditActor } from '../services/audit.service';
+import { changeUserPassword, requestPasswordReset, resetUserPassword } from '../services/password.service';
+import { isTwoFactorRequired, verifySecondFactor } from '../services/twoFactor.service';
+import { ensureLoginAllowed, recordFailedLogin, clearFailedLogins } from '../services/loginAttempt.service';
+import { generateTwoFactorChallengeToken, verifyTwoFactorChallengeToken } from '../utils/jwt';
+import type {
+  ChangePasswordInput,
+  ForgotPasswordInput,
+  ResetPasswordInput,
+  TwoFactorLoginInput
+} from '../models/schemas/auth.schema';
+import { createSession, rotateSession, revokeSession, revokeUserSessions, getSessionContext } from '../services/session.service';
 
 const prisma = new PrismaClient();
 
@@ -29,6 +40,10 @@ export const register = async (req: Request, res: Response): Promise<Response> =
       where: { email }
     });
     
+    if (existingUser?.deletedAt) {
+      throw new AppError('Este email pertence a um usuário removido. Solicite a um administrador que o restaure.', 409, 'email', 'USER_DELETED');
+    }
+    
     if (existingUser) {
       throw new AppError('Este email já está em uso por outro usuário', 409, 'email', 'DUPLICATE_EMAIL');
     }
@@ -37,26 +52,33 @@ export const register = async (req: Request, res: Response): Promise<Response> =
     const hashedPassword = await hashPassword(password);
     
     // Criar o usuário
-    const newUser = await prisma.user.create({
-      data: {
-        email,
-        password: hashedPassword,
-        name,
-        ddd,
-        phone,
-        role
-      }
+    const newUser = await prisma.$transaction(async (tx) => {
+      const createdUser = await tx.user.create({
+        data: {
+          email,
+          password: hashedPassword,
+          name,
+          ddd,
+          phone,
+          role,
+          // Senha definida por um administrador deve ser trocada no primeiro acesso
+          mustChangePassword: !!req.user
+        }
+      });
+      
+      // No auto-cadastro o próprio usuário é o responsável pela criação
+      await recordAudit(tx, getAuditActor(req) ?? { userId: createdUser.id, email: createdUser.email }, {
+        entity: AuditEntity.USER,
+        entityId: createdUser.id,
+        action: AuditAction.CREATE,
+        after: createdUser
+      });
+      
+      return createdUser;
     });
     
-    // Gerar tokens de autenticação
-    const authResponse = generateAuthTokens({
-      id: newUser.id,
-      email: newUser.email,
-      name: newUser.name,
-      ddd: newUser.ddd ?? undefined,
-      phone: newUser.phone ?? undefined,
-      role: newUser.role as Role
-    });
+    // Abrir a sessão e gerar tokens de autenticação
+    const authResponse = await createSession(newUser, getSessionContext(req));
     
     return res.status(201).json({
       message: 'Usuário registrado com sucesso',
@@ -69,7 +91,33 @@ export const register = async (req: Request, res: Response): Promise<Response> =
 };
 
 /**
- * Autentica um usuário
+ * Abre a sessão do usuário que concluiu o login e monta a resposta
+ */
+const completeLogin = async (req: Request, res: Response, user: User): Promise<Response> => {
+  await clearFailedLogins(user);
+  
+  // Abrir a sessão e gerar tokens de autenticação
+  const authResponse = await createSession(user, getSessionContext(req));
+  
+  return res.status(200).json({
+    message: 'Login realizado com sucesso',
+    userData: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      ddd: user.ddd,
+      phone: user.phone,
+      role: user.role,
+      mustChangePassword: user.mustChangePassword,
+      twoFactorSetupRequired: !user.twoFactorEnabledAt && await isTwoFactorRequired(user.role)
+    },
+    ...authResponse
+  });
+};
+
+/**
+ * Autentica um usuário. Com a verificação em duas etapas ativa, retorna um desafio
+ * que deve ser concluído em /login/2fa com o código do aplicativo autenticador.
  */
 export const login = async (req: Request, res: Response): Promise<Response> => {
   try {
@@ -82,39 +130,32 @@ export const login = async (req: Request, res: Response): Promise<Response> => {
       where: { email }
     });
     
-    if (!user) {
+    // Usuários removidos não podem entrar
+    if (!user || user.deletedAt) {
       throw new AppError('Email ou senha incorretos', 401, 'email', 'INVALID_CREDENTIALS');
     }
     
+    // Contas bloqueadas ou com falhas recentes precisam aguardar antes de uma nova tentativa
+    ensureLoginAllowed(user);
+    
     // Verificar a senha
     const isPasswordValid = await comparePassword(password, user.password);
     
     if (!isPasswordValid) {
+      await recordFailedLogin(user);
       throw new AppError('Email ou senha incorretos', 401, 'password', 'INVALID_CREDENTIALS');
     }
     
-    // Gerar tokens de autenticação
-    const authResponse = generateAuthTokens({
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      ddd: user.ddd ?? undefined,
-      phone: user.phone ?? undefined,
-      role: user.role as Role
-    });
+    if (user.twoFactorEnabledAt) {
+      // As tentativas só são zeradas quando o segundo passo for concluído
+      return res.status(200).json({
+        message: 'Informe o código de verificação do aplicativo autenticador',
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user.id)
+      });
+    }
     
-    return res.status(200).json({
-      message: 'Login realizado com sucesso',
-      userData: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        ddd: user.ddd,
-        phone: user.phone,
-        role: user.role
-      },
-      ...authResponse
-    });
+    return await completeLogin(req, res, user);
     
   } catch (error) {
     return handleError(error, res);
@@ -122,38 +163,54 @@ export const login = async (req: Request, res: Response): Promise<Response> => {
 };
 
 /**
- * Atualiza o token de acesso usando o refresh token
+ * Conclui o login com verificação em duas etapas (código do aplicativo ou de recuperação)
  */
-export const refreshToken = async (req: Request, res: Response): Promise<Response> => {
+export const loginTwoFactor = async (req: Request, res: Response): Promise<Response> => {
   try {
     // A validação já foi feita pelo middleware
-    const { refreshToken } = req.body as { refreshToken: string };
+    const { challengeToken, code } = req.body as TwoFactorLoginInput;
     
-    // Verificar o refresh token
-    const decoded = verifyRefreshToken(refreshToken);
+    const userId = verifyTwoFactorChallengeToken(challengeToken);
     
-    if (!decoded) {
-      throw new AppError('O token de atualização é inválido ou expirou. Por favor, faça login novamente.', 401, 'refreshToken', 'INVALID_REFRESH_TOKEN');
+    if (!userId) {
+      throw new AppError('O desafio de login é inválido ou expirou. Por favor, faça login novamente.', 401, 'challengeToken', 'INVALID_CHALLENGE_TOKEN');
     }
     
-    // Buscar o usuário
     const user = await prisma.user.findUnique({
-      where: { id: decoded.userId }
+      where: { id: userId }
     });
     
-    if (!user) {
-      throw new AppError('Não foi possível encontrar o usuário associado a este token.', 401, 'refreshToken', 'USER_NOT_FOUND');
+    if (!user || user.deletedAt) {
+      throw new AppError('O desafio de login é inválido ou expirou. Por favor, faça login novamente.', 401, 'challengeToken', 'INVALID_CHALLENGE_TOKEN');
     }
     
-    // Gerar novos tokens de autenticação
-    const authResponse = generateAuthTokens({
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      ddd: user.ddd ?? undefined,
-      phone: user.phone ?? undefined,
-      role: user.role as Role
-    });
+    ensureLoginAllowed(user);
+    
+    // Códigos incorretos contam como tentativas de login malsucedidas
+    try {
+      await verifySecondFactor(user, code);
+    } catch (error) {
+      await recordFailedLogin(user);
+      throw error;
+    }
+    
+    return await completeLogin(req, res, user);
+    
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Atualiza o token de acesso usando o refresh token.
+ * O refresh token é de uso único: a resposta traz um novo, e o anterior deixa de valer.
+ */
+export const refreshToken = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // A validação já foi feita pelo middleware
+    const { refreshToken } = req.body as { refreshToken: string };
+    
+    const authResponse = await rotateSession(refreshToken, getSessionContext(req));
     
     return res.status(200).json({
       message: 'Token atualizado com sucesso',
@@ -166,20 +223,91 @@ export const refreshToken = async (req: Request, res: Response): Promise<Respons
 };
 
 /**
- * Faz logout do usuário (invalida o token no cliente)
+ * Faz logout do usuário encerrando a sessão atual (o refresh token deixa de ser aceito)
  */
-export const logout = async (_req: Request, res: Response): Promise<Response> => {
+export const logout = async (req: Request, res: Response): Promise<Response> => {
   try {
-    // Implementação básica - a invalidação real dos tokens deve ser feita no cliente
+    if (!req.user) {
+      throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+    }
+    
+    if (req.user.sessionId) {
+      await revokeSession(req.user.sessionId, SessionRevocationReason.LOGOUT, req.user.userId);
+    }
+    
     return res.status(200).json({ 
-      message: 'Logout realizado com sucesso',
-      details: 'Para completar o logout, remova os tokens armazenados no cliente.'
+      message: 'Logout realizado com sucesso'
     });
   } catch (error) {
     return handleError(error, res);
   }
 };
 
+/**
+ * Troca a senha do usuário autenticado (exige a senha atual)
+ */
+export const changePassword = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // A validação já foi feita pelo middleware
+    const { currentPassword, newPassword } = req.body as ChangePasswordInput;
+    
+    const actor = getAuditActor(req);
+    
+    if (!actor) {
+      throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+    }
+    
+    await changeUserPassword(actor, req.user?.sessionId, currentPassword, newPassword);
+    
+    return res.status(200).json({
+      message: 'Senha alterada com sucesso',
+      details: 'As demais sessões abertas foram encerradas.'
+    });
+    
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Solicita a redefinição de senha: o link é enviado por email.
+ * A resposta é a mesma para emails cadastrados ou não.
+ */
+export const forgotPassword = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // A validação já foi feita pelo middleware
+    const { email } = req.body as ForgotPasswordInput;
+    
+    await requestPasswordReset(email);
+    
+    return res.status(200).json({
+      message: 'Se o email estiver cadastrado, você receberá as instruções para redefinir a senha.'
+    });
+    
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Redefine a senha com o token recebido por email e encerra todas as sessões do usuário
+ */
+export const resetPassword = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // A validação já foi feita pelo middleware
+    const { token, newPassword } = req.body as ResetPasswordInput;
+    
+    await resetUserPassword(token, newPassword);
+    
+    return res.status(200).json({
+      message: 'Senha redefinida com sucesso. Faça login com a nova senha.'
+    });
+    
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
 /**
  * Lista usuários por perfil (role)
  */
@@ -197,9 +325,13 @@ export const listUsersByRole = async (req: Request, res: Response): Promise<Resp
       throw new AppError('Tipo de perfil inválido.', 400, 'role', 'INVALID_ROLE');
     }
     
-    // Definir as condições de busca
+    // Definir as condições de busca (usuários removidos só aparecem com ?includeDeleted=true)
     const where: Prisma.UserWhereInput = {};
     
+    if (req.query.includeDeleted !== 'true') {
+      where.deletedAt = null;
+    }
+    
     if (role) {
       where.role = role as Role;
     }
@@ -215,7 +347,8 @@ export const listUsersByRole = async (req: Request, res: Response): Promise<Resp
         phone: true,
         role: true,
         createdAt: true,
-        updatedAt: true
+        updatedAt: true,
+        deletedAt: true
       },
       orderBy: {
         name: 'asc'
@@ -253,13 +386,26 @@ export const deleteUser = async (req: Request, res: Response): Promise<Response>
       where: { id: userId }
     });
     
-    if (!user) {
+    if (!user || user.deletedAt) {
       throw new AppError('Usuário não encontrado.', 404, 'id', 'USER_NOT_FOUND');
     }
     
-    // Remover o usuário
-    await prisma.user.delete({
-      where: { id: userId }
+    // Remover o usuário (exclusão lógica: vendas, cupons e comissões continuam vinculados)
+    await prisma.$transaction(async (tx) => {
+      const deletedUser = await tx.user.update({
+        where: { id: userId },
+        data: { deletedAt: new Date() }
+      });
+      
+      await revokeUserSessions(tx, userId, SessionRevocationReason.USER_DELETED);
+      
+      await recordAudit(tx, getAuditActor(req), {
+        entity: AuditEntity.USER,
+        entityId: userId,
+        action: AuditAction.DELETE,
+        before: user,
+        after: deletedUser
+      });
     });
     
     return res.status(200).json({ 
@@ -274,6 +420,61 @@ export const deleteUser = async (req: Request, res: Response): Promise<Response>
 /**
  * Obtém detalhes de um usuário específico
  */
+/**
+ * Restaura um usuário removido
+ */
+export const restoreUser = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const userId = Number.parseInt(req.params.id, 10);
+    
+    if (Number.isNaN(userId)) {
+      throw new AppError('ID de usuário inválido.', 400, 'id', 'INVALID_ID');
+    }
+    
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+    
+    if (!user) {
+      throw new AppError('Usuário não encontrado.', 404, 'id', 'USER_NOT_FOUND');
+    }
+    
+    if (!user.deletedAt) {
+      throw new AppError('Este usuário não está removido.', 400, 'id', 'USER_NOT_DELETED');
+    }
+    
+    const restoredUser = await prisma.$transaction(async (tx) => {
+      const result = await tx.user.update({
+        where: { id: userId },
+        data: { deletedAt: null }
+      });
+      
+      await recordAudit(tx, getAuditActor(req), {
+        entity: AuditEntity.USER,
+        entityId: userId,
+        action: AuditAction.RESTORE,
+        before: user,
+        after: result
+      });
+      
+      return result;
+    });
+    
+    return res.status(200).json({
+      message: 'Usuário restaurado com sucesso.',
+      user: {
+        id: restoredUser.id,
+        name: restoredUser.name,
+        email: restoredUser.email,
+        role: restoredUser.role
+      }
+    });
+    
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
 export const getUserById = async (req: Request, res: Response): Promise<Response> => {
   try {
     const { id } = req.params;
@@ -301,7 +502,8 @@ export const getUserById = async (req: Request, res: Response): Promise<Response
         phone: true,
         role: true,
         createdAt: true,
-        updatedAt: true
+        updatedAt: true,
+        deletedAt: true
       }
     });
     
@@ -341,7 +543,7 @@ export const updateUser = async (req: Request, res: Response): Promise<Response>
       where: { id: userId }
     });
     
-    if (!existingUser) {
+    if (!existingUser || existingUser.deletedAt) {
       throw new AppError('Usuário não encontrado.', 404, 'id', 'USER_NOT_FOUND');
     }
     
@@ -364,27 +566,33 @@ export const updateUser = async (req: Request, res: Response): Promise<Response>
     if (ddd !== undefined) updateData.ddd = ddd;
     if (phone !== undefined) updateData.phone = phone;
     
-    // Se foi fornecida uma nova senha, fazer o hash
+    // Se foi fornecida uma nova senha, fazer o hash (o usuário deverá trocá-la no próximo acesso)
     if (password) {
       updateData.password = await hashPassword(password);
+      updateData.mustChangePassword = true;
     }
     
     // Atualizar o usuário
-    const updatedUser = await prisma.user.update({
-      where: { id: userId },
-      data: updateData,
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        ddd: true,
-        phone: true,
-        role: true,
-        createdAt: true,
-        updatedAt: true
-      }
+    const savedUser = await prisma.$transaction(async (tx) => {
+      const result = await tx.user.update({
+        where: { id: userId },
+        data: updateData
+      });
+      
+      await recordAudit(tx, getAuditActor(req), {
+        entity: AuditEntity.USER,
+        entityId: userId,
+        action: AuditAction.UPDATE,
+        before: existingUser,
+        after: result
+      });
+      
+      return result;
     });
     
+    // Remove a senha da resposta
+    const { password: _password, ...updatedUser } = savedUser;
+    
     return res.status(200).json({
       message: 'Usuário atualizado com sucesso.',
       user: updatedUser
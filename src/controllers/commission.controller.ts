@@ -0,0 +1,128 @@
+import type { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import type { CommissionFiltersData, CommissionPayoutData } from '../models/schemas/commission.schema';
+import { Role } from '../models/user.model';
+import { handleError, AppError } from '../utils/errorHandler';
+import { closeCommissionPayout } from '../services/commission.service';
+import { endOfDayExclusive } from '../utils/date';
+
+const prisma = new PrismaClient();
+
+/**
+ * Define de qual afiliado o usuário pode consultar comissões.
+ * Administradores consultam qualquer afiliado; os demais apenas as próprias comissões.
+ */
+const resolveAffiliateScope = (req: Request, affiliateId?: number): number | undefined => {
+  if (!req.user) {
+    throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+  }
+
+  if (req.user.role === Role.ADMIN) {
+    return affiliateId;
+  }
+
+  if (affiliateId !== undefined && affiliateId !== req.user.userId) {
+    throw new AppError('Você só pode consultar as suas próprias comissões', 403, 'affiliateId', 'PERMISSION_DENIED');
+  }
+
+  return req.user.userId;
+};
+
+/**
+ * Lista os lançamentos de comissão com filtros por afiliado, situação e período da venda
+ */
+export const listCommissionEntries = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const filters = req.query as unknown as CommissionFiltersData;
+    const affiliateId = resolveAffiliateScope(req, filters.affiliateId);
+
+    const where: Prisma.CommissionEntryWhereInput = {
+      ...(affiliateId !== undefined && { affiliateId }),
+      ...(filters.status && { status: filters.status }),
+      ...((filters.startDate || filters.endDate) && {
+        saleDate: {
+          ...(filters.startDate && { gte: filters.startDate }),
+          ...(filters.endDate && { lt: endOfDayExclusive(filters.endDate) })
+        }
+      })
+    };
+
+    const entries = await prisma.commissionEntry.findMany({
+      where,
+      include: {
+        student: { select: { id: true, fullName: true, paymentStatus: true } },
+        coupon: { select: { id: true, code: true, customName: true } },
+        affiliate: { select: { id: true, name: true, email: true } }
+      },
+      orderBy: { saleDate: 'desc' }
+    });
+
+    const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+
+    return res.status(200).json({
+      entries,
+      total: Math.round(total * 100) / 100
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Lista os repasses realizados
+ */
+export const listCommissionPayouts = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const filters = req.query as unknown as CommissionFiltersData;
+    const affiliateId = resolveAffiliateScope(req, filters.affiliateId);
+
+    const payouts = await prisma.commissionPayout.findMany({
+      where: affiliateId !== undefined ? { affiliateId } : undefined,
+      include: {
+        affiliate: { select: { id: true, name: true, email: true } },
+        createdBy: { select: { id: true, name: true } },
+        _count: { select: { entries: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return res.status(200).json({ payouts });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Fecha um período de comissões de um afiliado e registra o repasse
+ */
+export const createCommissionPayout = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const payoutData = req.body as CommissionPayoutData;
+
+    const payout = await prisma.$transaction(async (tx) => {
+      const created = await closeCommissionPayout(tx, payoutData, req.user?.userId);
+
+      return tx.commissionPayout.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          entries: {
+            select: { id: true, studentId: true, amount: true, saleDate: true }
+          }
+        }
+      });
+    });
+
+    return res.status(201).json({
+      message: 'Repasse de comissões registrado com sucesso',
+      payout
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
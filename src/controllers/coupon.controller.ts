@@ -1,6 +1,15 @@
 import { Request, Response } from 'express';
-import { PrismaClient, Prisma, CouponApplicationMode } from '@prisma/client';
+import { PrismaClient, Prisma, CouponApplicationMode, AuditAction, AuditEntity } from '@prisma/client';
 import { generateCouponCode } from '../utils/codeGenerator';
+import { findCouponByCodeOrName, calculateCouponPricing } from '../services/pricing.service';
+import { getAffiliateCommissionTotals } from '../services/commission.service';
+import { recordAudit, getAuditActor } from '../services/audit.service';
+import {
+  rebuildCouponUsageCounts,
+  buildRedemptionDateFilter,
+  getCouponAnalytics as buildCouponAnalytics
+} from '../services/couponRedemption.service';
+import type { CouponPeriodFilters, CouponRedemptionFilters } from '../schemas/coupon.schema';
 import { z } from 'zod';
 
 const prisma = new PrismaClient();
@@ -58,15 +67,26 @@ export const createCoupon = async (req: Request, res: Response): Promise<Respons
     const code = generateCouponCode(baseName);
 
     // Criar cupom com modo de aplicação padrão (GENERAL)
-    const coupon = await prisma.coupon.create({
-      data: {
-        code,
-        userId: userType === 'NONE' ? undefined : userId, // Só associa userId se não for NONE
-        customName,
-        expirationDate: expirationDate ? new Date(expirationDate) : undefined,
-        usageLimit: usageLimit ? Number(usageLimit) : undefined,
-        applicationMode: CouponApplicationMode.GENERAL,
-      },
+    const coupon = await prisma.$transaction(async (tx) => {
+      const createdCoupon = await tx.coupon.create({
+        data: {
+          code,
+          userId: userType === 'NONE' ? undefined : userId, // Só associa userId se não for NONE
+          customName,
+          expirationDate: expirationDate ? new Date(expirationDate) : undefined,
+          usageLimit: usageLimit ? Number(usageLimit) : undefined,
+          applicationMode: CouponApplicationMode.GENERAL,
+        },
+      });
+
+      await recordAudit(tx, getAuditActor(req), {
+        entity: AuditEntity.COUPON,
+        entityId: createdCoupon.id,
+        action: AuditAction.CREATE,
+        after: createdCoupon,
+      });
+
+      return createdCoupon;
     });
 
     return res.status(201).json({
@@ -100,9 +120,21 @@ export const updateCouponApplicationMode = async (req: Request, res: Response):
     }
 
     // Atualizar modo de aplicação
-    const updatedCoupon = await prisma.coupon.update({
-      where: { id: couponId },
-      data: { applicationMode },
+    const updatedCoupon = await prisma.$transaction(async (tx) => {
+      const savedCoupon = await tx.coupon.update({
+        where: { id: couponId },
+        data: { applicationMode },
+      });
+
+      await recordAudit(tx, getAuditActor(req), {
+        entity: AuditEntity.COUPON,
+        entityId: couponId,
+        action: AuditAction.UPDATE,
+        before: existingCoupon,
+        after: savedCoupon,
+      });
+
+      return savedCoupon;
     });
 
     return res.status(200).json({
@@ -147,10 +179,10 @@ export const createGeneralCouponConfig = async (req: Request, res: Response): Pr
       where: { id: courseModalityId },
     });
 
-    if (!courseModality) {
+    if (!courseModality || courseModality.deletedAt) {
       return res.status(404).json({
         error: 'Modalidade não encontrada',
-        message: 'A modalidade especificada não existe',
+        message: 'A modalidade especificada não existe ou foi desativada',
       });
     }
 
@@ -164,9 +196,40 @@ export const createGeneralCouponConfig = async (req: Request, res: Response): Pr
 
     if (existingConfig) {
       // Atualizar configuração existente
-      const updatedConfig = await prisma.couponConfiguration.update({
-        where: { id: existingConfig.id },
+      const updatedConfig = await prisma.$transaction(async (tx) => {
+        const savedConfig = await tx.couponConfiguration.update({
+          where: { id: existingConfig.id },
+          data: {
+            discountValue,
+            discountPercent,
+            commissionValue,
+            commissionPercent,
+          },
+        });
+
+        await recordAudit(tx, getAuditActor(req), {
+          entity: AuditEntity.COUPON_CONFIGURATION,
+          entityId: savedConfig.id,
+          action: AuditAction.UPDATE,
+          before: existingConfig,
+          after: savedConfig,
+        });
+
+        return savedConfig;
+      });
+
+      return res.status(200).json({
+        message: 'Configuração de cupom atualizada com sucesso',
+        config: updatedConfig,
+      });
+    }
+
+    // Criar nova configuração
+    const config = await prisma.$transaction(async (tx) => {
+      const createdConfig = await tx.couponConfiguration.create({
         data: {
+          couponId,
+          courseModalityId,
           discountValue,
           discountPercent,
           commissionValue,
@@ -174,22 +237,14 @@ export const createGeneralCouponConfig = async (req: Request, res: Response): Pr
         },
       });
 
-      return res.status(200).json({
-        message: 'Configuração de cupom atualizada com sucesso',
-        config: updatedConfig,
+      await recordAudit(tx, getAuditActor(req), {
+        entity: AuditEntity.COUPON_CONFIGURATION,
+        entityId: createdConfig.id,
+        action: AuditAction.CREATE,
+        after: createdConfig,
       });
-    }
 
-    // Criar nova configuração
-    const config = await prisma.couponConfiguration.create({
-      data: {
-        couponId,
-        courseModalityId,
-        discountValue,
-        discountPercent,
-        commissionValue,
-        commissionPercent,
-      },
+      return createdConfig;
     });
 
     return res.status(201).json({
@@ -234,10 +289,10 @@ export const createSpecificCouponConfig = async (req: Request, res: Response): P
       where: { id: courseId },
     });
 
-    if (!course) {
+    if (!course || course.deletedAt) {
       return res.status(404).json({
         error: 'Curso não encontrado',
-        message: 'O curso especificado não existe',
+        message: 'O curso especificado não existe ou foi desativado',
       });
     }
 
@@ -251,9 +306,40 @@ export const createSpecificCouponConfig = async (req: Request, res: Response): P
 
     if (existingConfig) {
       // Atualizar configuração existente
-      const updatedConfig = await prisma.couponConfiguration.update({
-        where: { id: existingConfig.id },
+      const updatedConfig = await prisma.$transaction(async (tx) => {
+        const savedConfig = await tx.couponConfiguration.update({
+          where: { id: existingConfig.id },
+          data: {
+            discountValue,
+            discountPercent,
+            commissionValue,
+            commissionPercent,
+          },
+        });
+
+        await recordAudit(tx, getAuditActor(req), {
+          entity: AuditEntity.COUPON_CONFIGURATION,
+          entityId: savedConfig.id,
+          action: AuditAction.UPDATE,
+          before: existingConfig,
+          after: savedConfig,
+        });
+
+        return savedConfig;
+      });
+
+      return res.status(200).json({
+        message: 'Configuração de cupom atualizada com sucesso',
+        config: updatedConfig,
+      });
+    }
+
+    // Criar nova configuração
+    const config = await prisma.$transaction(async (tx) => {
+      const createdConfig = await tx.couponConfiguration.create({
         data: {
+          couponId,
+          courseId,
           discountValue,
           discountPercent,
           commissionValue,
@@ -261,22 +347,14 @@ export const createSpecificCouponConfig = async (req: Request, res: Response): P
         },
       });
 
-      return res.status(200).json({
-        message: 'Configuração de cupom atualizada com sucesso',
-        config: updatedConfig,
+      await recordAudit(tx, getAuditActor(req), {
+        entity: AuditEntity.COUPON_CONFIGURATION,
+        entityId: createdConfig.id,
+        action: AuditAction.CREATE,
+        after: createdConfig,
       });
-    }
 
-    // Criar nova configuração
-    const config = await prisma.couponConfiguration.create({
-      data: {
-        couponId,
-        courseId,
-        discountValue,
-        discountPercent,
-        commissionValue,
-        commissionPercent,
-      },
+      return createdConfig;
     });
 
     return res.status(201).json({
@@ -363,8 +441,17 @@ export const deleteCouponConfiguration = async (req: Request, res: Response): Pr
     }
 
     // Excluir configuração
-    await prisma.couponConfiguration.delete({
-      where: { id: configId },
+    await prisma.$transaction(async (tx) => {
+      await tx.couponConfiguration.delete({
+        where: { id: configId },
+      });
+
+      await recordAudit(tx, getAuditActor(req), {
+        entity: AuditEntity.COUPON_CONFIGURATION,
+        entityId: configId,
+        action: AuditAction.DELETE,
+        before: config,
+      });
     });
 
     return res.status(200).json({
@@ -484,70 +571,8 @@ export const validateCoupon = async (req: Request, res: Response): Promise<Respo
     console.log(`ID da Modalidade: ${courseModalityId}`);
     console.log(`Valor: ${value}`);
 
-    // Buscar cupom pelo código
-    let coupon = await prisma.coupon.findUnique({
-      where: { code },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true,
-          },
-        },
-        configurations: true,
-      },
-    });
-
-    // Se não encontrou pelo código, tentar encontrar pelo nome personalizado
-    if (!coupon) {
-      console.log(`Cupom não encontrado pelo código "${code}", tentando buscar por nome personalizado`);
-      
-      // Usar o Prisma para fazer uma busca case-insensitive
-      const couponsWithCustomName = await prisma.coupon.findMany({
-        where: { 
-          customName: {
-            equals: code,
-            mode: 'insensitive' // Busca case-insensitive
-          },
-          active: true 
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              role: true,
-            },
-          },
-          configurations: {
-            include: {
-              course: true,
-              courseModality: true,
-            },
-          },
-        },
-      });
-
-      console.log(`Encontrados ${couponsWithCustomName.length} cupons com o nome personalizado "${code}":`, 
-        couponsWithCustomName.map(c => ({ id: c.id, code: c.code, customName: c.customName })));
-
-      // Se encontrou exatamente um cupom com o nome personalizado, usar esse
-      if (couponsWithCustomName.length === 1) {
-        console.log(`Usando cupom encontrado por nome personalizado: ${couponsWithCustomName[0].code}`);
-        coupon = couponsWithCustomName[0];
-      }
-      // Se encontrou mais de um, usar o primeiro ativo
-      else if (couponsWithCustomName.length > 1) {
-        const activeCoupon = couponsWithCustomName.find(c => c.active);
-        if (activeCoupon) {
-          console.log(`Encontrados múltiplos cupons, usando o primeiro ativo: ${activeCoupon.code}`);
-          coupon = activeCoupon;
-        }
-      }
-    }
+    // Buscar cupom pelo código ou nome personalizado
+    const coupon = await findCouponByCodeOrName(code);
 
     if (!coupon) {
       return res.status(404).json({
@@ -579,93 +604,22 @@ export const validateCoupon = async (req: Request, res: Response): Promise<Respo
       });
     }
 
-    let discountAmount = 0;
-    let commissionAmount = 0;
-    let finalValue = value;
-    let isValid = false;
-
-    // Validar baseado no modo de aplicação
-    if (coupon.applicationMode === CouponApplicationMode.GENERAL) {
-      console.log('Modo GENERAL. Verificando configurações para modalidade:', courseModalityId);
-      console.log('Configurações disponíveis:', JSON.stringify(coupon.configurations, null, 2));
-      
-      // Buscar qualquer configuração para a modalidade (ignorar valor exato)
-      const config = coupon.configurations.find(
-        (cfg) => cfg.courseModalityId === courseModalityId
-      );
-
-      if (config) {
-        console.log('Configuração encontrada:', JSON.stringify(config, null, 2));
-        isValid = true;
-        // Calcular desconto
-        if (config.discountValue) {
-          discountAmount = config.discountValue;
-          console.log(`Aplicando desconto fixo: ${discountAmount}`);
-        } else if (config.discountPercent) {
-          discountAmount = (value * config.discountPercent) / 100;
-          console.log(`Aplicando desconto percentual: ${config.discountPercent}% sobre ${value} = ${discountAmount}`);
-        }
-
-        // Calcular comissão
-        if (config.commissionValue) {
-          commissionAmount = config.commissionValue;
-          console.log(`Aplicando comissão fixa: ${commissionAmount}`);
-        } else if (config.commissionPercent) {
-          commissionAmount = (value * config.commissionPercent) / 100;
-          console.log(`Aplicando comissão percentual: ${config.commissionPercent}% sobre ${value} = ${commissionAmount}`);
-        }
-      } else {
-        console.log('Nenhuma configuração encontrada para a modalidade:', courseModalityId);
-      }
-    } else {
-      // Modo SPECIFIC - buscar configuração para o curso específico
-      console.log('Modo SPECIFIC. Verificando configurações para curso:', courseId);
-      console.log('Configurações disponíveis:', JSON.stringify(coupon.configurations, null, 2));
-      
-      // Primeiro tentar encontrar uma configuração para o curso exato
-      let config = coupon.configurations.find((cfg) => cfg.courseId === courseId);
-
-      // Se não encontrar para o curso específico, pegar qualquer configuração
-      if (!config && coupon.configurations.length > 0) {
-        console.log('Nenhuma configuração encontrada para o curso específico. Usando primeira configuração disponível.');
-        config = coupon.configurations[0];
-      }
-
-      if (config) {
-        console.log('Configuração encontrada:', JSON.stringify(config, null, 2));
-        isValid = true;
-        // Calcular desconto
-        if (config.discountValue) {
-          discountAmount = config.discountValue;
-          console.log(`Aplicando desconto fixo: ${discountAmount}`);
-        } else if (config.discountPercent) {
-          discountAmount = (value * config.discountPercent) / 100;
-          console.log(`Aplicando desconto percentual: ${config.discountPercent}% sobre ${value} = ${discountAmount}`);
-        }
-
-        // Calcular comissão
-        if (config.commissionValue) {
-          commissionAmount = config.commissionValue;
-          console.log(`Aplicando comissão fixa: ${commissionAmount}`);
-        } else if (config.commissionPercent) {
-          commissionAmount = (value * config.commissionPercent) / 100;
-          console.log(`Aplicando comissão percentual: ${config.commissionPercent}% sobre ${value} = ${commissionAmount}`);
-        }
-      } else {
-        console.log('Nenhuma configuração encontrada.');
-      }
-    }
+    // Calcular desconto, comissão e valor final
+    const pricing = calculateCouponPricing({
+      coupon,
+      courseId,
+      courseModalityId,
+      baseValue: value,
+    });
 
-    if (!isValid) {
+    if (!pricing.applicable) {
       return res.status(400).json({
         error: 'Cupom não aplicável',
         message: 'Este cupom não é válido para o curso/modalidade/valor selecionado',
       });
     }
 
-    // Calcular valor final
-    finalValue = value - discountAmount;
-    if (finalValue < 0) finalValue = 0;
+    const { discountAmount, commissionAmount, finalValue } = pricing;
     
     console.log('=================================================');
     console.log('RESULTADO DO CÁLCULO:');
@@ -712,6 +666,7 @@ export const listAllCoupons = async (req: Request, res: Response): Promise<Respo
           },
         },
         students: {
+          where: { deletedAt: null },
           select: {
             id: true,
             fullName: true,
@@ -793,6 +748,7 @@ export const getAffiliateCoupon = async (req: Request, res: Response): Promise<R
           },
         },
         students: {
+          where: { deletedAt: null },
           select: {
             id: true,
             fullName: true,
@@ -880,9 +836,21 @@ export const toggleCouponStatus = async (req: Request, res: Response): Promise<R
     }
 
     // Atualizar status do cupom
-    const updatedCoupon = await prisma.coupon.update({
-      where: { id: couponId },
-      data: { active },
+    const updatedCoupon = await prisma.$transaction(async (tx) => {
+      const savedCoupon = await tx.coupon.update({
+        where: { id: couponId },
+        data: { active },
+      });
+
+      await recordAudit(tx, getAuditActor(req), {
+        entity: AuditEntity.COUPON,
+        entityId: couponId,
+        action: AuditAction.UPDATE,
+        before: existingCoupon,
+        after: savedCoupon,
+      });
+
+      return savedCoupon;
     });
 
     const statusMessage = active ? 'ativado' : 'desativado';
@@ -900,6 +868,148 @@ export const toggleCouponStatus = async (req: Request, res: Response): Promise<R
   }
 };
 
+// Recalcular os contadores de uso dos cupons a partir dos registros de uso
+export const rebuildCouponUsage = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const corrections = await prisma.$transaction(tx => rebuildCouponUsageCounts(tx));
+
+    return res.status(200).json({
+      message: corrections.length > 0
+        ? `Contadores de uso corrigidos em ${corrections.length} cupom(ns)`
+        : 'Todos os contadores de uso já estavam corretos',
+      corrections,
+    });
+  } catch (error) {
+    console.error('Erro ao recalcular contadores de uso:', error);
+    return res.status(500).json({
+      error: 'Erro interno do servidor',
+      message: 'Não foi possível recalcular os contadores de uso dos cupons',
+    });
+  }
+};
+
+// Busca o cupom da rota e verifica se o usuário autenticado pode ver seus usos (admin ou afiliado dono)
+const findCouponForUsage = async (req: Request, res: Response) => {
+  const couponId = Number.parseInt(req.params.couponId, 10);
+
+  if (Number.isNaN(couponId)) {
+    res.status(400).json({
+      error: 'ID inválido',
+      message: 'O ID do cupom deve ser um número válido',
+    });
+    return null;
+  }
+
+  const coupon = await prisma.coupon.findUnique({
+    where: { id: couponId },
+    select: { id: true, code: true, customName: true, userId: true, usageCount: true, usageLimit: true, active: true },
+  });
+
+  if (!coupon) {
+    res.status(404).json({
+      error: 'Cupom não encontrado',
+      message: 'O cupom especificado não existe',
+    });
+    return null;
+  }
+
+  if (req.user?.role !== 'ADMIN' && coupon.userId !== req.user?.userId) {
+    res.status(403).json({
+      error: 'Acesso negado',
+      message: 'Você não tem permissão para ver os usos deste cupom',
+    });
+    return null;
+  }
+
+  return coupon;
+};
+
+// Listar o histórico de usos de um cupom
+export const listCouponRedemptions = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const coupon = await findCouponForUsage(req, res);
+
+    if (!coupon) {
+      return res;
+    }
+
+    // Filtros já validados pelo middleware
+    const filters = req.query as unknown as CouponRedemptionFilters;
+
+    const where: Prisma.CouponRedemptionWhereInput = {
+      couponId: coupon.id,
+      redeemedAt: buildRedemptionDateFilter(filters),
+      ...(filters.status === 'active' && { releasedAt: null }),
+      ...(filters.status === 'released' && { releasedAt: { not: null } }),
+    };
+
+    const [total, redemptions] = await Promise.all([
+      prisma.couponRedemption.count({ where }),
+      prisma.couponRedemption.findMany({
+        where,
+        include: {
+          student: {
+            select: {
+              id: true,
+              fullName: true,
+              registrationDate: true,
+              value: true,
+              course: { select: { id: true, name: true } },
+              courseModality: { select: { id: true, name: true } },
+            },
+          },
+          seller: {
+            select: { id: true, name: true },
+          },
+        },
+        orderBy: { redeemedAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+    ]);
+
+    return res.status(200).json({
+      coupon,
+      data: redemptions,
+      pagination: {
+        total,
+        page: filters.page,
+        limit: filters.limit,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    });
+  } catch (error) {
+    console.error('Erro ao listar usos do cupom:', error);
+    return res.status(500).json({
+      error: 'Erro interno do servidor',
+      message: 'Não foi possível listar os usos do cupom',
+    });
+  }
+};
+
+// Análise de uso de um cupom com totais por curso, modalidade e mês
+export const getCouponAnalytics = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const coupon = await findCouponForUsage(req, res);
+
+    if (!coupon) {
+      return res;
+    }
+
+    // Filtros já validados pelo middleware
+    const filters = req.query as unknown as CouponPeriodFilters;
+    const analytics = await buildCouponAnalytics(prisma, coupon.id, filters);
+
+    return res.status(200).json({ coupon, ...analytics });
+  } catch (error) {
+    console.error('Erro ao gerar análise do cupom:', error);
+    return res.status(500).json({
+      error: 'Erro interno do servidor',
+      message: 'Não foi possível gerar a análise de uso do cupom',
+    });
+  }
+};
+
 // Buscar cupom ativo do usuário (para o próprio usuário - afiliado ou vendedor)
 export const getActiveUserCoupon = async (req: Request, res: Response): Promise<Response> => {
   try {
@@ -946,6 +1056,7 @@ export const getActiveUserCoupon = async (req: Request, res: Response): Promise<
           },
         },
         students: {
+          where: { deletedAt: null },
           select: {
             id: true,
             fullName: true,
@@ -1028,22 +1139,26 @@ export const getAffiliateDashboardStats = async (req: Request, res: Response): P
       },
       include: {
         students: {
+          where: { deletedAt: null },
           select: {
             id: true,
-            registrationDate: true,
-            affiliateCommission: true
+            registrationDate: true
           },
         },
       },
     });
     
+    // Valores de comissão vêm do livro de lançamentos
+    const commissions = await getAffiliateCommissionTotals(userId);
+    
     // Inicializar estatísticas
     const stats = {
       totalSales: 0,
-      pendingAmount: 0,
-      totalAmount: 0,
+      pendingAmount: Math.round((commissions.pending + commissions.approved) * 100) / 100, // Ainda não repassado
+      approvedAmount: commissions.approved, // Liberado para o próximo repasse
+      totalAmount: commissions.paid, // Já repassado
       monthlySales: 0,
-      lastPaymentDate: null
+      lastPaymentDate: commissions.lastPaymentDate
     };
     
     if (coupon && coupon.students && coupon.students.length > 0) {
@@ -1059,18 +1174,6 @@ export const getAffiliateDashboardStats = async (req: Request, res: Response): P
         const saleDate = new Date(sale.registrationDate);
         return saleDate.getMonth() === currentMonth && saleDate.getFullYear() === currentYear;
       }).length;
-      
-      // Somar comissões (assumindo que todas as comissões estão pendentes por simplicidade)
-      stats.pendingAmount = coupon.students.reduce((total, sale) => total + (sale.affiliateCommission || 0), 0);
-      
-      // Em um sistema real, precisaríamos de um status de pagamento para cada comissão
-      // Por enquanto, estamos apenas simulando que comissões mais antigas que 30 dias já foram pagas
-      const thirtyDaysAgo = new Date(now);
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-      
-      stats.totalAmount = coupon.students
-        .filter(sale => new Date(sale.registrationDate) < thirtyDaysAgo)
-        .reduce((total, sale) => total + (sale.affiliateCommission || 0), 0);
     }
     
     return res.status(200).json(stats);
@@ -1,8 +1,11 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma, AuditAction, AuditEntity } from '@prisma/client';
 import { validateRequestBody } from '../utils/validation';
 import { z } from 'zod';
 import { generateUniqueCode } from '../utils/codeGenerator';
+import { recordListPrices } from '../services/coursePrice.service';
+import { recordAudit, getAuditActor } from '../services/audit.service';
+import type { CoursePriceInput } from '../models/course.model';
 
 const prisma = new PrismaClient();
 
@@ -14,19 +17,97 @@ const courseModalitySchema = z.object({
   description: z.string().optional(),
 });
 
-// Modificamos o schema para aceitar múltiplas modalidades
+// Preço de tabela de uma modalidade do curso
+const coursePriceSchema = z.object({
+  courseModalityId: z.number().int().positive('ID da modalidade deve ser um número positivo'),
+  price: z.number().positive('Preço deve ser positivo'),
+  effectiveFrom: z.string()
+    .optional()
+    .refine(val => !val || /^\d{4}-\d{2}-\d{2}$/.test(val), 'Data de vigência deve estar no formato YYYY-MM-DD'),
+});
+
+// Modificamos o schema para aceitar múltiplas modalidades e seus preços de tabela
 const courseSchema = z.object({
   name: z.string().min(3, 'Nome deve ter pelo menos 3 caracteres'),
   description: z.string().optional(),
   modalityIds: z.array(z.number().int().positive('IDs das modalidades devem ser números positivos')),
+  prices: z.array(coursePriceSchema).optional(),
+}).refine(
+  data => !data.prices || data.prices.every(price => data.modalityIds.includes(price.courseModalityId)),
+  { message: 'Só é possível definir preço para modalidades associadas ao curso', path: ['prices'] }
+);
+
+/**
+ * Relações carregadas nas respostas de curso: modalidades com o preço de tabela vigente
+ */
+const buildCourseInclude = () => Prisma.validator<Prisma.CourseInclude>()({
+  courseToModality: {
+    include: {
+      courseModality: true
+    }
+  },
+  // Preço vigente de cada modalidade (o primeiro de cada uma na ordenação)
+  prices: {
+    where: { effectiveFrom: { lte: new Date() } },
+    orderBy: [{ effectiveFrom: 'desc' }, { id: 'desc' }],
+    distinct: ['courseModalityId']
+  }
 });
 
+/**
+ * Converte os preços validados para a entrada do catálogo de preços
+ */
+const toCoursePriceInputs = (prices: z.infer<typeof coursePriceSchema>[] = []): CoursePriceInput[] =>
+  prices.map(({ courseModalityId, price, effectiveFrom }) => ({
+    courseModalityId,
+    price,
+    effectiveFrom: effectiveFrom ? new Date(effectiveFrom) : undefined
+  }));
+
+type CourseWithModalities = Prisma.CourseGetPayload<{ include: ReturnType<typeof buildCourseInclude> }>;
+
+/**
+ * Estado do curso registrado na auditoria (dados do curso e modalidades associadas)
+ */
+const toCourseAuditState = (course: CourseWithModalities) => {
+  const { courseToModality, prices: _prices, ...courseData } = course;
+  return {
+    ...courseData,
+    modalityIds: courseToModality.map(ctm => ctm.courseModalityId)
+  };
+};
+
+/**
+ * Transforma os dados para uma estrutura mais amigável para o frontend
+ */
+const formatCourse = (course: CourseWithModalities) => {
+  const { courseToModality, prices, ...courseData } = course;
+  return {
+    ...courseData,
+    modalities: courseToModality.map(ctm => {
+      const currentPrice = prices.find(price => price.courseModalityId === ctm.courseModalityId);
+      return {
+        ...ctm.courseModality,
+        price: currentPrice?.price ?? null,
+        priceEffectiveFrom: currentPrice?.effectiveFrom ?? null
+      };
+    })
+  };
+};
+
+/**
+ * Administradores podem incluir cursos e modalidades desativados nas listagens (?includeDeleted=true)
+ */
+const shouldIncludeDeleted = (req: Request): boolean =>
+  req.user?.role === 'ADMIN' && req.query.includeDeleted === 'true';
+
 /**
  * Obter todas as modalidades de curso
  */
 export const getAllCourseModalities = async (req: Request, res: Response) => {
   try {
     const courseModalities = await prisma.courseModality.findMany({
+      where: shouldIncludeDeleted(req) ? undefined : { deletedAt: null },
       orderBy: { name: 'asc' }
     });
     return res.status(200).json(courseModalities);
@@ -91,11 +172,22 @@ export const createCourseModality = async (req: Request, res: Response) => {
     // Gerar código único para a modalidade
     const code = await generateUniqueCode("MOD");
 
-    const courseModality = await prisma.courseModality.create({
-      data: {
-        ...req.body,
-        code
-      }
+    const courseModality = await prisma.$transaction(async (prisma) => {
+      const newCourseModality = await prisma.courseModality.create({
+        data: {
+          ...req.body,
+          code
+        }
+      });
+
+      await recordAudit(prisma, getAuditActor(req), {
+        entity: AuditEntity.COURSE_MODALITY,
+        entityId: newCourseModality.id,
+        action: AuditAction.CREATE,
+        after: newCourseModality
+      });
+
+      return newCourseModality;
     });
 
     return res.status(201).json(courseModality);
@@ -131,9 +223,25 @@ export const updateCourseModality = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Modalidade de curso não encontrada' });
     }
 
-    const courseModality = await prisma.courseModality.update({
-      where: { id: modalityId },
-      data: req.body
+    if (existingCourseModality.deletedAt) {
+      return res.status(400).json({ error: 'Modalidade de curso desativada. Restaure-a antes de editar' });
+    }
+
+    const courseModality = await prisma.$transaction(async (prisma) => {
+      const updatedCourseModality = await prisma.courseModality.update({
+        where: { id: modalityId },
+        data: req.body
+      });
+
+      await recordAudit(prisma, getAuditActor(req), {
+        entity: AuditEntity.COURSE_MODALITY,
+        entityId: modalityId,
+        action: AuditAction.UPDATE,
+        before: existingCourseModality,
+        after: updatedCourseModality
+      });
+
+      return updatedCourseModality;
     });
 
     return res.status(200).json(courseModality);
@@ -160,13 +268,17 @@ export const deleteCourseModality = async (req: Request, res: Response) => {
       where: { id: modalityId }
     });
 
-    if (!existingCourseModality) {
+    if (!existingCourseModality || existingCourseModality.deletedAt) {
       return res.status(404).json({ error: 'Modalidade de curso não encontrada' });
     }
 
-    // Verificar se há cursos usando esta modalidade
+    // Verificar se há cursos ativos usando esta modalidade
+    // (alunos antigos não impedem a exclusão, pois ela é apenas lógica)
     const coursesUsingModality = await prisma.courseToModality.count({
-      where: { courseModalityId: modalityId }
+      where: {
+        courseModalityId: modalityId,
+        course: { deletedAt: null }
+      }
     });
 
     if (coursesUsingModality > 0) {
@@ -175,19 +287,19 @@ export const deleteCourseModality = async (req: Request, res: Response) => {
       });
     }
 
-    // Verificar se há alunos usando esta modalidade
-    const studentsUsingModality = await prisma.student.count({
-      where: { courseModalityId: modalityId }
-    });
-
-    if (studentsUsingModality > 0) {
-      return res.status(400).json({ 
-        error: 'Não é possível excluir esta modalidade pois existem alunos associados a ela' 
+    await prisma.$transaction(async (prisma) => {
+      const deletedCourseModality = await prisma.courseModality.update({
+        where: { id: modalityId },
+        data: { deletedAt: new Date() }
       });
-    }
 
-    await prisma.courseModality.delete({
-      where: { id: modalityId }
+      await recordAudit(prisma, getAuditActor(req), {
+        entity: AuditEntity.COURSE_MODALITY,
+        entityId: modalityId,
+        action: AuditAction.DELETE,
+        before: existingCourseModality,
+        after: deletedCourseModality
+      });
     });
 
     return res.status(200).json({ message: 'Modalidade de curso excluída com sucesso' });
@@ -197,6 +309,54 @@ export const deleteCourseModality = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Restaurar uma modalidade de curso excluída
+ */
+export const restoreCourseModality = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const modalityId = Number.parseInt(id, 10);
+
+  if (Number.isNaN(modalityId)) {
+    return res.status(400).json({ error: 'ID da modalidade de curso inválido' });
+  }
+
+  try {
+    const existingCourseModality = await prisma.courseModality.findUnique({
+      where: { id: modalityId }
+    });
+
+    if (!existingCourseModality) {
+      return res.status(404).json({ error: 'Modalidade de curso não encontrada' });
+    }
+
+    if (!existingCourseModality.deletedAt) {
+      return res.status(400).json({ error: 'Esta modalidade de curso não está excluída' });
+    }
+
+    const courseModality = await prisma.$transaction(async (prisma) => {
+      const restoredCourseModality = await prisma.courseModality.update({
+        where: { id: modalityId },
+        data: { deletedAt: null }
+      });
+
+      await recordAudit(prisma, getAuditActor(req), {
+        entity: AuditEntity.COURSE_MODALITY,
+        entityId: modalityId,
+        action: AuditAction.RESTORE,
+        before: existingCourseModality,
+        after: restoredCourseModality
+      });
+
+      return restoredCourseModality;
+    });
+
+    return res.status(200).json(courseModality);
+  } catch (error) {
+    console.error('Erro ao restaurar modalidade de curso:', error);
+    return res.status(500).json({ error: 'Erro ao restaurar modalidade de curso' });
+  }
+};
+
 /**
  * Obter todos os cursos
  */
@@ -204,6 +364,11 @@ export const getAllCourses = async (req: Request, res: Response) => {
   try {
     const { courseModalityId } = req.query;
     const where: Record<string, any> = {};
+
+    // Cursos desativados ficam fora da listagem padrão
+    if (!shouldIncludeDeleted(req)) {
+      where.deletedAt = null;
+    }
     
     if (courseModalityId) {
       const modalityId = Number.parseInt(courseModalityId as string, 10);
@@ -218,26 +383,11 @@ export const getAllCourses = async (req: Request, res: Response) => {
 
     const courses = await prisma.course.findMany({
       where,
-      include: { 
-        courseToModality: {
-          include: {
-        courseModality: true 
-          }
-        }
-      },
+      include: buildCourseInclude(),
       orderBy: { name: 'asc' }
     });
 
-    // Transformar os dados para uma estrutura mais amigável para o frontend
-    const formattedCourses = courses.map(course => {
-      const { courseToModality, ...courseData } = course;
-      return {
-        ...courseData,
-        modalities: courseToModality.map(ctm => ctm.courseModality)
-      };
-    });
-
-    return res.status(200).json(formattedCourses);
+    return res.status(200).json(courses.map(formatCourse));
   } catch (error) {
     console.error('Erro ao buscar cursos:', error);
     return res.status(500).json({ error: 'Erro ao buscar cursos' });
@@ -258,27 +408,14 @@ export const getCourseById = async (req: Request, res: Response) => {
   try {
     const course = await prisma.course.findUnique({
       where: { id: courseId },
-      include: { 
-        courseToModality: {
-          include: {
-        courseModality: true 
-          }
-        }
-      }
+      include: buildCourseInclude()
     });
 
     if (!course) {
       return res.status(404).json({ error: 'Curso não encontrado' });
     }
 
-    // Transformar os dados para uma estrutura mais amigável para o frontend
-    const { courseToModality, ...courseData } = course;
-    const formattedCourse = {
-      ...courseData,
-      modalities: courseToModality.map(ctm => ctm.courseModality)
-    };
-
-    return res.status(200).json(formattedCourse);
+    return res.status(200).json(formatCourse(course));
   } catch (error) {
     console.error('Erro ao buscar curso:', error);
     return res.status(500).json({ error: 'Erro ao buscar curso' });
@@ -295,22 +432,24 @@ export const createCourse = async (req: Request, res: Response) => {
   }
 
   const { name, description, modalityIds } = req.body;
+  const prices = toCoursePriceInputs(validationResult.data?.prices);
 
   try {
     // Gerar código único para o curso
     const code = await generateUniqueCode("CRS");
     
-    // Verificar se todas as modalidades de curso existem
+    // Verificar se todas as modalidades de curso existem e estão ativas
     const modalitiesCount = await prisma.courseModality.count({
       where: {
         id: {
           in: modalityIds
-        }
+        },
+        deletedAt: null
       }
     });
 
     if (modalitiesCount !== modalityIds.length) {
-      return res.status(400).json({ error: 'Uma ou mais modalidades de curso não foram encontradas' });
+      return res.status(400).json({ error: 'Uma ou mais modalidades de curso não foram encontradas ou estão desativadas' });
     }
 
     // Criar o curso com o relacionamento muitos-para-muitos
@@ -334,28 +473,27 @@ export const createCourse = async (req: Request, res: Response) => {
     });
       }
 
+      // Registrar os preços de tabela informados
+      await recordListPrices(prisma, newCourse.id, prices, req.user?.userId);
+
       // Buscar o curso completo com as modalidades
-      return prisma.course.findUnique({
+      const createdCourse = await prisma.course.findUniqueOrThrow({
         where: { id: newCourse.id },
-        include: {
-          courseToModality: {
-      include: { 
-        courseModality: true 
-      }
-          }
-        }
+        include: buildCourseInclude()
+      });
+
+      await recordAudit(prisma, getAuditActor(req), {
+        entity: AuditEntity.COURSE,
+        entityId: createdCourse.id,
+        action: AuditAction.CREATE,
+        after: toCourseAuditState(createdCourse)
       });
+
+      return createdCourse;
     });
 
-    // Transformar os dados para uma estrutura mais amigável para o frontend
     if (course) {
-      const { courseToModality, ...courseData } = course;
-      const formattedCourse = {
-        ...courseData,
-        modalities: courseToModality.map(ctm => ctm.courseModality)
-      };
-
-      return res.status(201).json(formattedCourse);
+      return res.status(201).json(formatCourse(course));
     }
 
     return res.status(500).json({ error: 'Erro ao criar curso' });
@@ -382,28 +520,35 @@ export const updateCourse = async (req: Request, res: Response) => {
   }
 
   const { name, description, modalityIds } = req.body;
+  const prices = toCoursePriceInputs(validationResult.data?.prices);
 
   try {
     // Verificar se o curso existe
     const existingCourse = await prisma.course.findUnique({
-      where: { id: courseId }
+      where: { id: courseId },
+      include: buildCourseInclude()
     });
 
     if (!existingCourse) {
       return res.status(404).json({ error: 'Curso não encontrado' });
     }
 
-    // Verificar se todas as modalidades de curso existem
+    if (existingCourse.deletedAt) {
+      return res.status(400).json({ error: 'Curso desativado. Restaure-o antes de editar' });
+    }
+
+    // Verificar se todas as modalidades de curso existem e estão ativas
     const modalitiesCount = await prisma.courseModality.count({
       where: {
         id: {
           in: modalityIds
-        }
+        },
+        deletedAt: null
       }
       });
 
     if (modalitiesCount !== modalityIds.length) {
-      return res.status(400).json({ error: 'Uma ou mais modalidades de curso não foram encontradas' });
+      return res.status(400).json({ error: 'Uma ou mais modalidades de curso não foram encontradas ou estão desativadas' });
     }
 
     // Atualizar o curso com o relacionamento muitos-para-muitos
@@ -417,45 +562,54 @@ export const updateCourse = async (req: Request, res: Response) => {
         }
       });
 
-      // Remover todos os relacionamentos existentes
+      // Remover apenas os relacionamentos com modalidades que saíram do curso
+      // (o histórico de preços, inclusive das modalidades removidas, é preservado)
       await prisma.courseToModality.deleteMany({
         where: {
-          courseId
+          courseId,
+          courseModalityId: { notIn: modalityIds }
         }
     });
 
-      // Criar os novos relacionamentos
+      // Criar os relacionamentos com as novas modalidades
       for (const modalityId of modalityIds) {
-        await prisma.courseToModality.create({
-          data: {
+        await prisma.courseToModality.upsert({
+          where: {
+            courseId_courseModalityId: {
+              courseId,
+              courseModalityId: modalityId
+            }
+          },
+          create: {
             courseId,
             courseModalityId: modalityId
-          }
+          },
+          update: {}
         });
     }
 
+      // Registrar os novos preços de tabela informados
+      await recordListPrices(prisma, courseId, prices, req.user?.userId);
+
       // Buscar o curso atualizado com as modalidades
-      return prisma.course.findUnique({
-      where: { id: courseId },
-        include: {
-          courseToModality: {
-      include: { 
-        courseModality: true 
-      }
-          }
-        }
+      const savedCourse = await prisma.course.findUniqueOrThrow({
+        where: { id: courseId },
+        include: buildCourseInclude()
       });
+
+      await recordAudit(prisma, getAuditActor(req), {
+        entity: AuditEntity.COURSE,
+        entityId: courseId,
+        action: AuditAction.UPDATE,
+        before: toCourseAuditState(existingCourse),
+        after: toCourseAuditState(savedCourse)
+      });
+
+      return savedCourse;
     });
 
-    // Transformar os dados para uma estrutura mais amigável para o frontend
     if (course) {
-      const { courseToModality, ...courseData } = course;
-      const formattedCourse = {
-        ...courseData,
-        modalities: courseToModality.map(ctm => ctm.courseModality)
-      };
-
-      return res.status(200).json(formattedCourse);
+      return res.status(200).json(formatCourse(course));
     }
 
     return res.status(500).json({ error: 'Erro ao atualizar curso' });
@@ -479,40 +633,148 @@ export const deleteCourse = async (req: Request, res: Response) => {
   try {
     // Verificar se o curso existe
     const existingCourse = await prisma.course.findUnique({
-      where: { id: courseId }
+      where: { id: courseId },
+      include: buildCourseInclude()
     });
 
-    if (!existingCourse) {
+    if (!existingCourse || existingCourse.deletedAt) {
       return res.status(404).json({ error: 'Curso não encontrado' });
     }
 
-    // Verificar se há alunos usando este curso
-    const studentsUsingCourse = await prisma.student.count({
-      where: { courseId }
+    // Desativar o curso (exclusão lógica): some das listagens e não aceita novas vendas,
+    // mas continua vinculado aos alunos, modalidades e preços históricos
+    await prisma.$transaction(async (prisma) => {
+      const deletedCourse = await prisma.course.update({
+        where: { id: courseId },
+        data: { deletedAt: new Date() },
+        include: buildCourseInclude()
+      });
+
+      await recordAudit(prisma, getAuditActor(req), {
+        entity: AuditEntity.COURSE,
+        entityId: courseId,
+        action: AuditAction.DELETE,
+        before: toCourseAuditState(existingCourse),
+        after: toCourseAuditState(deletedCourse)
+      });
     });
 
-    if (studentsUsingCourse > 0) {
-      return res.status(400).json({ 
-        error: 'Não é possível excluir este curso pois existem alunos associados a ele' 
+    return res.status(200).json({ message: 'Curso excluído com sucesso' });
+  } catch (error) {
+    console.error('Erro ao excluir curso:', error);
+    return res.status(500).json({ error: 'Erro ao excluir curso' });
+  }
+};
+
+/**
+ * Restaurar um curso excluído
+ */
+export const restoreCourse = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const courseId = Number.parseInt(id, 10);
+
+  if (Number.isNaN(courseId)) {
+    return res.status(400).json({ error: 'ID do curso inválido' });
+  }
+
+  try {
+    const existingCourse = await prisma.course.findUnique({
+      where: { id: courseId },
+      include: buildCourseInclude()
+    });
+
+    if (!existingCourse) {
+      return res.status(404).json({ error: 'Curso não encontrado' });
+    }
+
+    if (!existingCourse.deletedAt) {
+      return res.status(400).json({ error: 'Este curso não está excluído' });
+    }
+
+    // Um curso ativo não pode ficar vinculado a modalidades desativadas
+    const inactiveModalities = existingCourse.courseToModality
+      .filter(ctm => ctm.courseModality.deletedAt)
+      .map(ctm => ctm.courseModality.name);
+
+    if (inactiveModalities.length > 0) {
+      return res.status(400).json({
+        error: `Restaure antes as modalidades desativadas deste curso: ${inactiveModalities.join(', ')}`
       });
     }
 
-    // Excluir o curso e seus relacionamentos
-    await prisma.$transaction(async (prisma) => {
-      // Remover todos os relacionamentos com modalidades
-      await prisma.courseToModality.deleteMany({
-        where: { courseId }
+    const course = await prisma.$transaction(async (prisma) => {
+      const restoredCourse = await prisma.course.update({
+        where: { id: courseId },
+        data: { deletedAt: null },
+        include: buildCourseInclude()
       });
 
-      // Excluir o curso
-    await prisma.course.delete({
-      where: { id: courseId }
+      await recordAudit(prisma, getAuditActor(req), {
+        entity: AuditEntity.COURSE,
+        entityId: courseId,
+        action: AuditAction.RESTORE,
+        before: toCourseAuditState(existingCourse),
+        after: toCourseAuditState(restoredCourse)
       });
+
+      return restoredCourse;
     });
 
-    return res.status(200).json({ message: 'Curso excluído com sucesso' });
+    return res.status(200).json(formatCourse(course));
   } catch (error) {
-    console.error('Erro ao excluir curso:', error);
-    return res.status(500).json({ error: 'Erro ao excluir curso' });
+    console.error('Erro ao restaurar curso:', error);
+    return res.status(500).json({ error: 'Erro ao restaurar curso' });
+  }
+};
+
+/**
+ * Obter o histórico de preços de tabela de um curso
+ */
+export const getCoursePriceHistory = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const courseId = Number.parseInt(id, 10);
+
+  if (Number.isNaN(courseId)) {
+    return res.status(400).json({ error: 'ID do curso inválido' });
+  }
+
+  const modalityId = req.query.courseModalityId
+    ? Number.parseInt(req.query.courseModalityId as string, 10)
+    : undefined;
+
+  if (modalityId !== undefined && Number.isNaN(modalityId)) {
+    return res.status(400).json({ error: 'ID da modalidade de curso inválido' });
+  }
+
+  try {
+    const course = await prisma.course.findUnique({
+      where: { id: courseId }
+    });
+
+    if (!course) {
+      return res.status(404).json({ error: 'Curso não encontrado' });
+    }
+
+    const prices = await prisma.coursePrice.findMany({
+      where: {
+        courseId,
+        ...(modalityId !== undefined && { courseModalityId: modalityId })
+      },
+      include: {
+        courseModality: true,
+        createdBy: {
+          select: {
+            id: true,
+            name: true
+          }
+        }
+      },
+      orderBy: [{ effectiveFrom: 'desc' }, { id: 'desc' }]
+    });
+
+    return res.status(200).json(prices);
+  } catch (error) {
+    console.error('Erro ao buscar histórico de preços do curso:', error);
+    return res.status(500).json({ error: 'Erro ao buscar histórico de preços do curso' });
   }
-}; 
\ No newline at end of file
+};
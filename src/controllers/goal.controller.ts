@@ -0,0 +1,119 @@
+import type { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import type { SellerGoalData, GoalPeriodData, GoalFiltersData } from '../models/schemas/goal.schema';
+import { handleError, AppError } from '../utils/errorHandler';
+import { getSellerRanking, getSellerProgress, upsertSellerGoal } from '../services/sellerGoal.service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Lista as metas do mês, opcionalmente de um único vendedor/afiliado
+ */
+export const listSellerGoals = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const { year, month, userId } = req.query as unknown as GoalFiltersData;
+
+    const where: Prisma.SellerGoalWhereInput = {
+      year,
+      month,
+      ...(userId && { userId })
+    };
+
+    const goals = await prisma.sellerGoal.findMany({
+      where,
+      include: { user: { select: { id: true, name: true, email: true, role: true } } },
+      orderBy: { userId: 'asc' }
+    });
+
+    return res.status(200).json(goals);
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Define a meta mensal de faturamento e de alunos de um vendedor/afiliado
+ */
+export const saveSellerGoal = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const data = req.body as SellerGoalData;
+
+    const goal = await upsertSellerGoal(data);
+
+    return res.status(200).json({
+      message: 'Meta salva com sucesso',
+      goal
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Remove uma meta mensal
+ */
+export const deleteSellerGoal = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const goalId = Number.parseInt(req.params.goalId, 10);
+
+    if (Number.isNaN(goalId)) {
+      throw new AppError('O ID da meta deve ser um número válido', 400, 'goalId', 'INVALID_ID');
+    }
+
+    const goal = await prisma.sellerGoal.findUnique({ where: { id: goalId } });
+
+    if (!goal) {
+      throw new AppError('Não foi possível encontrar uma meta com o ID especificado', 404, 'goalId', 'GOAL_NOT_FOUND');
+    }
+
+    await prisma.sellerGoal.delete({ where: { id: goalId } });
+
+    return res.status(200).json({ message: 'Meta removida com sucesso' });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Ranking mensal dos vendedores e afiliados com o progresso em relação às metas
+ */
+export const getRanking = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const { year, month } = req.query as unknown as GoalPeriodData;
+
+    const ranking = await getSellerRanking(year, month);
+
+    return res.status(200).json(ranking);
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Progresso do usuário autenticado em relação à própria meta do mês
+ */
+export const getMyProgress = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const { year, month } = req.query as unknown as GoalPeriodData;
+
+    if (!req.user) {
+      throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+    }
+
+    const progress = await getSellerProgress(req.user.userId, year, month);
+
+    return res.status(200).json({ year, month, ...progress });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
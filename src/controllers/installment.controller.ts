@@ -0,0 +1,162 @@
+import type { Request, Response } from 'express';
+import { PrismaClient, AuditAction, AuditEntity } from '@prisma/client';
+import type { InstallmentPaymentData } from '../models/schemas/installment.schema';
+import { handleError, AppError } from '../utils/errorHandler';
+import {
+  getNetSaleValue,
+  recordInstallmentPayment,
+  clearInstallmentPayment,
+  syncStudentPaymentStatus
+} from '../services/installment.service';
+import { syncSaleCommission } from '../services/commission.service';
+import { recordAudit, getAuditActor } from '../services/audit.service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Busca o aluno da rota verificando se o usuário autenticado pode acessá-lo
+ */
+const findAccessibleStudent = async (req: Request) => {
+  const { id } = req.params;
+
+  if (!id || Number.isNaN(Number(id))) {
+    throw new AppError('O ID do aluno deve ser um número válido', 400, 'id', 'INVALID_ID');
+  }
+
+  if (!req.user) {
+    throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+  }
+
+  const student = await prisma.student.findUnique({
+    where: { id: Number.parseInt(id, 10) }
+  });
+
+  if (!student || student.deletedAt) {
+    throw new AppError('Não foi possível encontrar um aluno com o ID especificado', 404, 'id', 'STUDENT_NOT_FOUND');
+  }
+
+  if (req.user.role !== 'ADMIN' && student.userId !== req.user.userId) {
+    throw new AppError('Você não tem permissão para acessar este aluno', 403, undefined, 'PERMISSION_DENIED');
+  }
+
+  return student;
+};
+
+/**
+ * Busca a parcela da rota garantindo que pertence ao aluno
+ */
+const findStudentInstallment = async (studentId: number, installmentIdParam: string) => {
+  const installmentId = Number.parseInt(installmentIdParam, 10);
+
+  if (Number.isNaN(installmentId)) {
+    throw new AppError('O ID da parcela deve ser um número válido', 400, 'installmentId', 'INVALID_ID');
+  }
+
+  const installment = await prisma.installment.findFirst({
+    where: { id: installmentId, studentId }
+  });
+
+  if (!installment) {
+    throw new AppError('Não foi possível encontrar a parcela especificada para este aluno', 404, 'installmentId', 'INSTALLMENT_NOT_FOUND');
+  }
+
+  return installment;
+};
+
+/**
+ * Lista as parcelas de um aluno com os totais pagos e pendentes
+ */
+export const getInstallments = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const student = await findAccessibleStudent(req);
+
+    const installments = await prisma.installment.findMany({
+      where: { studentId: student.id },
+      orderBy: { number: 'asc' }
+    });
+
+    const totalPaid = installments.reduce((sum, installment) => sum + installment.paidAmount, 0);
+    const netValue = getNetSaleValue(student);
+
+    return res.status(200).json({
+      studentId: student.id,
+      paymentStatus: student.paymentStatus,
+      installments,
+      totals: {
+        netValue,
+        paid: totalPaid,
+        pending: Math.max(0, netValue - totalPaid)
+      }
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Registra o pagamento de uma parcela
+ */
+export const payInstallment = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const student = await findAccessibleStudent(req);
+    const installment = await findStudentInstallment(student.id, req.params.installmentId);
+
+    // Dados já validados pelo middleware
+    const payment = req.body as InstallmentPaymentData;
+
+    const result = await prisma.$transaction(async (tx) => {
+      const updatedInstallment = await recordInstallmentPayment(tx, installment, payment);
+      const updatedStudent = await syncStudentPaymentStatus(tx, student.id);
+      await syncSaleCommission(tx, student.id);
+      await recordAudit(tx, getAuditActor(req), {
+        entity: AuditEntity.STUDENT,
+        entityId: student.id,
+        action: AuditAction.UPDATE,
+        before: student,
+        after: updatedStudent
+      });
+      return { installment: updatedInstallment, paymentStatus: updatedStudent.paymentStatus };
+    });
+
+    return res.status(200).json({
+      message: 'Pagamento da parcela registrado com sucesso',
+      ...result
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Desfaz o pagamento registrado de uma parcela
+ */
+export const clearInstallmentPaymentHandler = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const student = await findAccessibleStudent(req);
+    const installment = await findStudentInstallment(student.id, req.params.installmentId);
+
+    const result = await prisma.$transaction(async (tx) => {
+      const updatedInstallment = await clearInstallmentPayment(tx, installment);
+      const updatedStudent = await syncStudentPaymentStatus(tx, student.id);
+      await syncSaleCommission(tx, student.id);
+      await recordAudit(tx, getAuditActor(req), {
+        entity: AuditEntity.STUDENT,
+        entityId: student.id,
+        action: AuditAction.UPDATE,
+        before: student,
+        after: updatedStudent
+      });
+      return { installment: updatedInstallment, paymentStatus: updatedStudent.paymentStatus };
+    });
+
+    return res.status(200).json({
+      message: 'Pagamento da parcela removido com sucesso',
+      ...result
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
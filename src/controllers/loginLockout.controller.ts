@@ -0,0 +1,57 @@
+import type { Request, Response } from 'express';
+import { PrismaClient, AuditAction, AuditEntity } from '@prisma/client';
+import { handleError, AppError } from '../utils/errorHandler';
+import { getAuditActor, recordAudit } from '../services/audit.service';
+import { listLoginLockouts, clearFailedLogins } from '../services/loginAttempt.service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Lista as contas bloqueadas ou com tentativas de login malsucedidas (apenas admin)
+ */
+export const listLockouts = async (_req: Request, res: Response): Promise<Response> => {
+  try {
+    const lockouts = await listLoginLockouts();
+
+    return res.status(200).json(lockouts);
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Desbloqueia o login de um usuário e zera as tentativas malsucedidas (apenas admin)
+ */
+export const clearLockout = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const userId = Number.parseInt(req.params.id, 10);
+
+    if (Number.isNaN(userId)) {
+      throw new AppError('ID de usuário inválido.', 400, 'id', 'INVALID_ID');
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user || user.deletedAt) {
+      throw new AppError('Usuário não encontrado.', 404, 'id', 'USER_NOT_FOUND');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const updatedUser = await clearFailedLogins(user, tx);
+
+      await recordAudit(tx, getAuditActor(req), {
+        entity: AuditEntity.USER,
+        entityId: user.id,
+        action: AuditAction.UPDATE,
+        before: user,
+        after: updatedUser
+      });
+    });
+
+    return res.status(200).json({ message: 'Bloqueio de login removido com sucesso' });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
@@ -0,0 +1,250 @@
+import type { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import type {
+  CreateReportScheduleInput,
+  UpdateReportScheduleInput,
+  OutboxFilters
+} from '../models/schemas/report.schema';
+import { handleError, AppError } from '../utils/errorHandler';
+import { getNextRunAt, runReportSchedule } from '../services/reportSchedule.service';
+
+const prisma = new PrismaClient();
+
+// Dono do agendamento retornado junto com os dados
+const scheduleInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true
+    }
+  }
+} satisfies Prisma.ReportScheduleInclude;
+
+/**
+ * Busca o agendamento da rota verificando se o usuário autenticado pode acessá-lo
+ * (administradores acessam os agendamentos de todos os usuários)
+ */
+const findAccessibleSchedule = async (req: Request) => {
+  const scheduleId = Number.parseInt(req.params.scheduleId, 10);
+
+  if (Number.isNaN(scheduleId)) {
+    throw new AppError('O ID do agendamento deve ser um número válido', 400, 'scheduleId', 'INVALID_ID');
+  }
+
+  if (!req.user) {
+    throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+  }
+
+  const schedule = await prisma.reportSchedule.findUnique({
+    where: { id: scheduleId },
+    include: scheduleInclude
+  });
+
+  if (!schedule) {
+    throw new AppError('Não foi possível encontrar um agendamento com o ID especificado', 404, 'scheduleId', 'REPORT_SCHEDULE_NOT_FOUND');
+  }
+
+  if (req.user.role !== 'ADMIN' && schedule.userId !== req.user.userId) {
+    throw new AppError('Você não tem permissão para acessar este agendamento', 403, undefined, 'PERMISSION_DENIED');
+  }
+
+  return schedule;
+};
+
+/**
+ * Lista os relatórios agendados (administradores veem os de todos os usuários)
+ */
+export const listReportSchedules = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    if (!req.user) {
+      throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+    }
+
+    const schedules = await prisma.reportSchedule.findMany({
+      where: req.user.role === 'ADMIN' ? {} : { userId: req.user.userId },
+      include: scheduleInclude,
+      orderBy: { name: 'asc' }
+    });
+
+    return res.status(200).json(schedules);
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Busca um relatório agendado
+ */
+export const getReportSchedule = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const schedule = await findAccessibleSchedule(req);
+
+    return res.status(200).json(schedule);
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Cadastra um relatório agendado para o usuário autenticado
+ */
+export const createReportSchedule = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const data = req.body as CreateReportScheduleInput;
+
+    if (!req.user) {
+      throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+    }
+
+    const schedule = await prisma.reportSchedule.create({
+      data: {
+        name: data.name,
+        userId: req.user.userId,
+        format: data.format,
+        filters: data.filters,
+        period: data.period ?? null,
+        cron: data.cron,
+        recipients: data.recipients,
+        active: data.active,
+        nextRunAt: data.active ? getNextRunAt(data.cron) : null
+      },
+      include: scheduleInclude
+    });
+
+    return res.status(201).json({
+      message: 'Relatório agendado com sucesso',
+      schedule
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Altera um relatório agendado; a próxima execução é recalculada a partir do agendamento atual
+ */
+export const updateReportSchedule = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const current = await findAccessibleSchedule(req);
+
+    // Dados já validados pelo middleware
+    const data = req.body as UpdateReportScheduleInput;
+    const cron = data.cron ?? current.cron;
+    const active = data.active ?? current.active;
+
+    const schedule = await prisma.reportSchedule.update({
+      where: { id: current.id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.format !== undefined && { format: data.format }),
+        ...(data.filters !== undefined && { filters: data.filters }),
+        ...(data.period !== undefined && { period: data.period }),
+        ...(data.recipients !== undefined && { recipients: data.recipients }),
+        cron,
+        active,
+        nextRunAt: active ? getNextRunAt(cron) : null
+      },
+      include: scheduleInclude
+    });
+
+    return res.status(200).json({
+      message: 'Relatório agendado atualizado com sucesso',
+      schedule
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Remove um relatório agendado (os emails já gerados permanecem na caixa de saída)
+ */
+export const deleteReportSchedule = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const schedule = await findAccessibleSchedule(req);
+
+    await prisma.reportSchedule.delete({ where: { id: schedule.id } });
+
+    return res.status(200).json({ message: 'Relatório agendado removido com sucesso' });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Executa um relatório agendado imediatamente, sem alterar a próxima execução.
+ * O email é gravado na caixa de saída e enviado no próximo ciclo do agendador.
+ */
+export const runReportScheduleNow = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const schedule = await findAccessibleSchedule(req);
+    const message = await runReportSchedule(schedule);
+
+    return res.status(202).json({
+      message: 'Relatório gerado e colocado na caixa de saída',
+      outboxMessageId: message.id
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Lista os emails da caixa de saída (sem o corpo das mensagens nem o conteúdo dos anexos)
+ */
+export const listOutboxMessages = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const { status, scheduleId, page, limit } = req.query as unknown as OutboxFilters;
+
+    const where: Prisma.OutboxMessageWhereInput = {
+      ...(status && { status }),
+      ...(scheduleId && { scheduleId })
+    };
+
+    const [total, messages] = await prisma.$transaction([
+      prisma.outboxMessage.count({ where }),
+      prisma.outboxMessage.findMany({
+        where,
+        select: {
+          id: true,
+          scheduleId: true,
+          recipients: true,
+          subject: true,
+          attachmentName: true,
+          attachmentType: true,
+          status: true,
+          attempts: true,
+          error: true,
+          sentAt: true,
+          createdAt: true
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit
+      })
+    ]);
+
+    return res.status(200).json({
+      messages,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
@@ -0,0 +1,188 @@
+import type { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import type { CreateReportViewInput, UpdateReportViewInput } from '../models/schemas/report.schema';
+import { handleError, AppError } from '../utils/errorHandler';
+import { reportViewInclude, findAccessibleReportView } from '../services/reportView.service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Lê o ID da visão da rota
+ */
+const getViewId = (req: Request): number => {
+  const viewId = Number.parseInt(req.params.viewId, 10);
+
+  if (Number.isNaN(viewId)) {
+    throw new AppError('O ID da visão deve ser um número válido', 400, 'viewId', 'INVALID_ID');
+  }
+
+  return viewId;
+};
+
+/**
+ * Garante que o usuário ainda não tem uma visão com o mesmo nome
+ */
+const ensureUniqueViewName = async (userId: number, name: string, ignoreId?: number): Promise<void> => {
+  const existing = await prisma.reportView.findFirst({
+    where: {
+      userId,
+      name,
+      ...(ignoreId && { id: { not: ignoreId } })
+    },
+    select: { id: true }
+  });
+
+  if (existing) {
+    throw new AppError('Você já possui uma visão com este nome', 409, 'name', 'REPORT_VIEW_NAME_TAKEN');
+  }
+};
+
+/**
+ * Lista as visões disponíveis: as próprias e as publicadas (administradores veem todas)
+ */
+export const listReportViews = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    if (!req.user) {
+      throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+    }
+
+    const views = await prisma.reportView.findMany({
+      where: req.user.role === 'ADMIN'
+        ? {}
+        : { OR: [{ userId: req.user.userId }, { shared: true }] },
+      include: reportViewInclude,
+      orderBy: [{ shared: 'desc' }, { name: 'asc' }]
+    });
+
+    return res.status(200).json(views);
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Busca uma visão de relatório
+ */
+export const getReportView = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    if (!req.user) {
+      throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+    }
+
+    const view = await findAccessibleReportView(getViewId(req), req.user);
+
+    return res.status(200).json(view);
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Salva uma visão de relatório para o usuário autenticado
+ */
+export const createReportView = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const data = req.body as CreateReportViewInput;
+
+    if (!req.user) {
+      throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+    }
+
+    if (data.shared && req.user.role !== 'ADMIN') {
+      throw new AppError('Apenas administradores podem publicar visões para todos os usuários', 403, 'shared', 'ADMIN_REQUIRED');
+    }
+
+    await ensureUniqueViewName(req.user.userId, data.name);
+
+    const view = await prisma.reportView.create({
+      data: {
+        name: data.name,
+        userId: req.user.userId,
+        filters: data.filters,
+        shared: data.shared
+      },
+      include: reportViewInclude
+    });
+
+    return res.status(201).json({
+      message: 'Visão de relatório salva com sucesso',
+      view
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Altera uma visão de relatório (apenas o dono ou um administrador)
+ */
+export const updateReportView = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const data = req.body as UpdateReportViewInput;
+
+    if (!req.user) {
+      throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+    }
+
+    const current = await findAccessibleReportView(getViewId(req), req.user);
+
+    if (req.user.role !== 'ADMIN' && current.userId !== req.user.userId) {
+      throw new AppError('Você não tem permissão para alterar esta visão', 403, undefined, 'PERMISSION_DENIED');
+    }
+
+    if (data.shared !== undefined && req.user.role !== 'ADMIN') {
+      throw new AppError('Apenas administradores podem publicar visões para todos os usuários', 403, 'shared', 'ADMIN_REQUIRED');
+    }
+
+    if (data.name !== undefined) {
+      await ensureUniqueViewName(current.userId, data.name, current.id);
+    }
+
+    const view = await prisma.reportView.update({
+      where: { id: current.id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.filters !== undefined && { filters: data.filters }),
+        ...(data.shared !== undefined && { shared: data.shared })
+      },
+      include: reportViewInclude
+    });
+
+    return res.status(200).json({
+      message: 'Visão de relatório atualizada com sucesso',
+      view
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Remove uma visão de relatório (apenas o dono ou um administrador)
+ */
+export const deleteReportView = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    if (!req.user) {
+      throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+    }
+
+    const view = await findAccessibleReportView(getViewId(req), req.user);
+
+    if (req.user.role !== 'ADMIN' && view.userId !== req.user.userId) {
+      throw new AppError('Você não tem permissão para remover esta visão', 403, undefined, 'PERMISSION_DENIED');
+    }
+
+    await prisma.reportView.delete({ where: { id: view.id } });
+
+    return res.status(200).json({ message: 'Visão de relatório removida com sucesso' });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
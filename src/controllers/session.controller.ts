@@ -0,0 +1,140 @@
+import type { Request, Response } from 'express';
+import { PrismaClient, SessionRevocationReason } from '@prisma/client';
+import { handleError, AppError } from '../utils/errorHandler';
+import { getAuditActor } from '../services/audit.service';
+import { listActiveSessions, revokeSessionsWithAudit } from '../services/session.service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Lê um ID numérico da rota
+ */
+const getIdParam = (req: Request, param: string, label: string): number => {
+  const id = Number.parseInt(req.params[param], 10);
+
+  if (Number.isNaN(id)) {
+    throw new AppError(`O ID ${label} deve ser um número válido`, 400, param, 'INVALID_ID');
+  }
+
+  return id;
+};
+
+/**
+ * Busca o usuário da rota (incluindo removidos, cujas sessões continuam consultáveis)
+ */
+const findUser = async (req: Request) => {
+  const user = await prisma.user.findUnique({
+    where: { id: getIdParam(req, 'id', 'do usuário') },
+    select: { id: true, name: true, email: true }
+  });
+
+  if (!user) {
+    throw new AppError('Usuário não encontrado.', 404, 'id', 'USER_NOT_FOUND');
+  }
+
+  return user;
+};
+
+/**
+ * Lista as sessões ativas do usuário autenticado, sinalizando a sessão atual
+ */
+export const listMySessions = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    if (!req.user) {
+      throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+    }
+
+    const sessions = await listActiveSessions(req.user.userId, req.user.sessionId);
+
+    return res.status(200).json(sessions);
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Encerra uma das sessões do usuário autenticado
+ */
+export const revokeMySession = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    if (!req.user) {
+      throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+    }
+
+    const sessionId = getIdParam(req, 'sessionId', 'da sessão');
+    const { userId } = req.user;
+    const revoked = await prisma.$transaction(tx =>
+      revokeSessionsWithAudit(tx, getAuditActor(req), { id: sessionId, userId }, SessionRevocationReason.REVOKED)
+    );
+
+    if (!revoked) {
+      throw new AppError('Não foi possível encontrar uma sessão ativa com o ID especificado', 404, 'sessionId', 'SESSION_NOT_FOUND');
+    }
+
+    return res.status(200).json({ message: 'Sessão encerrada com sucesso' });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Encerra todas as sessões do usuário autenticado, inclusive a atual ("sair de todos os dispositivos")
+ */
+export const revokeAllMySessions = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    if (!req.user) {
+      throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+    }
+
+    const { userId } = req.user;
+    const revoked = await prisma.$transaction(tx =>
+      revokeSessionsWithAudit(tx, getAuditActor(req), { userId }, SessionRevocationReason.REVOKED)
+    );
+
+    return res.status(200).json({
+      message: 'Todas as sessões foram encerradas com sucesso',
+      revoked
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Lista as sessões ativas de um usuário (apenas admin)
+ */
+export const listUserSessions = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const user = await findUser(req);
+    const sessions = await listActiveSessions(user.id, req.user?.sessionId);
+
+    return res.status(200).json({ user, sessions });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Desconecta um usuário de todos os dispositivos (apenas admin).
+ * Os tokens de acesso já emitidos também deixam de ser aceitos.
+ */
+export const forceLogoutUser = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const user = await findUser(req);
+    const revoked = await prisma.$transaction(tx =>
+      revokeSessionsWithAudit(tx, getAuditActor(req), { userId: user.id }, SessionRevocationReason.FORCED_LOGOUT)
+    );
+
+    return res.status(200).json({
+      message: 'Usuário desconectado de todas as sessões',
+      revoked
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
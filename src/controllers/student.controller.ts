@@ -1,9 +1,23 @@
 import type { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, AuditAction, AuditEntity } from '@prisma/client';
 import type { Prisma } from '@prisma/client';
 import type { CreateStudentInput, UpdateStudentInput } from '../models/student.model';
 import { handleError, AppError } from '../utils/errorHandler';
+import { endOfDayExclusive } from '../utils/date';
 import { createStudentSchema } from '../models/schemas/student.schema';
+import type { StudentListQuery } from '../models/schemas/student.schema';
+import type { CouponWithConfigurations } from '../models/coupon.model';
+import { findCouponByCodeOrName, calculateCouponPricing, getCouponUnavailableReason } from '../services/pricing.service';
+import { resolveStudentPrice } from '../services/coursePrice.service';
+import {
+  rebuildInstallmentSchedule,
+  updateInstallmentStatus
+} from '../services/installment.service';
+import { syncSaleCommission } from '../services/commission.service';
+import { syncCouponRedemption } from '../services/couponRedemption.service';
+import { recordAudit, getAuditActor } from '../services/audit.service';
+import { studentDetailsInclude, ensureActiveCourse, createStudentSale } from '../services/student.service';
+import { importStudentsFromCsv } from '../services/studentImport.service';
 
 const prisma = new PrismaClient();
 
@@ -58,55 +72,40 @@ export const createStudent = async (req: Request, res: Response): Promise<Respon
     console.log('Data de pagamento convertida:', paymentDate);
     console.log('Previsão de pagamento convertida:', paymentForecastDate);
 
-    // Variáveis para processar cupom
-    let couponId = null;
+    // Verifica se já existe aluno com o CPF, inclusive removido (que deve ser restaurado em vez de recadastrado)
+    const existingStudent = await prisma.student.findUnique({
+      where: { cpf: studentData.cpf },
+      select: { deletedAt: true }
+    });
+    
+    if (existingStudent?.deletedAt) {
+      throw new AppError('Já existe um aluno removido com este CPF. Solicite a um administrador que o restaure.', 409, 'cpf', 'STUDENT_DELETED');
+    }
+    
+    if (existingStudent) {
+      throw new AppError('Já existe um aluno cadastrado com este CPF', 409, 'cpf', 'DUPLICATE_CPF');
+    }
+    
+    // Cursos e modalidades desativados não aceitam novas vendas
+    await ensureActiveCourse(studentData.courseId, studentData.courseModalityId);
+
+    // Define o valor da venda a partir do catálogo de preços; valor informado diferente do de tabela é marcado como manual
+    const { value, listPrice, priceOverridden } = await resolveStudentPrice(
+      studentData.courseId,
+      studentData.courseModalityId,
+      studentData.value
+    );
+
+    // Valores do cupom são sempre calculados no servidor a partir da configuração do cupom
+    let couponId: number | null = null;
+    let discountAmount: number | null = null;
+    let affiliateCommission: number | null = null;
 
     // Processar cupom se fornecido
     if (studentData.couponCode) {
       try {
-        // Buscar cupom pelo código
-        let coupon = await prisma.coupon.findUnique({
-          where: { code: studentData.couponCode },
-          include: {
-            user: true,
-          },
-        });
-
-        // Se não encontrou pelo código, tentar encontrar pelo nome personalizado
-        if (!coupon) {
-          console.log(`Cupom não encontrado pelo código "${studentData.couponCode}", tentando buscar por nome personalizado`);
-          
-          // Usar o Prisma para fazer uma busca case-insensitive
-          const couponsWithCustomName = await prisma.coupon.findMany({
-            where: { 
-              customName: {
-                equals: studentData.couponCode,
-                mode: 'insensitive' // Busca case-insensitive
-              },
-              active: true 
-            },
-            include: {
-              user: true,
-            },
-          });
-
-          console.log(`Encontrados ${couponsWithCustomName.length} cupons com o nome personalizado "${studentData.couponCode}":`, 
-            couponsWithCustomName.map(c => ({ id: c.id, code: c.code, customName: c.customName })));
-
-          // Se encontrou exatamente um cupom com o nome personalizado, usar esse
-          if (couponsWithCustomName.length === 1) {
-            console.log(`Usando cupom encontrado por nome personalizado: ${couponsWithCustomName[0].code}`);
-            coupon = couponsWithCustomName[0];
-          }
-          // Se encontrou mais de um, usar o primeiro ativo
-          else if (couponsWithCustomName.length > 1) {
-            const activeCoupon = couponsWithCustomName.find(c => c.active);
-            if (activeCoupon) {
-              console.log(`Encontrados múltiplos cupons, usando o primeiro ativo: ${activeCoupon.code}`);
-              coupon = activeCoupon;
-            }
-          }
-        }
+        // Buscar cupom pelo código ou nome personalizado
+        const coupon = await findCouponByCodeOrName(studentData.couponCode);
 
         if (!coupon) {
           return res.status(404).json({
@@ -115,40 +114,35 @@ export const createStudent = async (req: Request, res: Response): Promise<Respon
           });
         }
 
-        if (!coupon.active) {
-          return res.status(400).json({
-            error: 'Cupom inativo',
-            message: 'Este cupom não está ativo'
-          });
-        }
+        // Cupom inativo, expirado ou sem usos disponíveis (a reserva definitiva é feita junto com o cadastro)
+        const unavailable = getCouponUnavailableReason(coupon);
 
-        // Verificar se o cupom está expirado
-        if (coupon.expirationDate && new Date() > new Date(coupon.expirationDate)) {
-          return res.status(400).json({
-            error: 'Cupom expirado',
-            message: 'Este cupom já expirou'
-          });
+        if (unavailable) {
+          return res.status(400).json(unavailable);
         }
 
-        // Verificar se o cupom atingiu o limite de uso
-        if (coupon.usageLimit !== null && coupon.usageCount >= coupon.usageLimit) {
+        // Calcular desconto e comissão para o curso/modalidade/valor do aluno
+        const pricing = calculateCouponPricing({
+          coupon,
+          courseId: studentData.courseId,
+          courseModalityId: studentData.courseModalityId,
+          baseValue: value
+        });
+
+        if (!pricing.applicable) {
           return res.status(400).json({
-            error: 'Limite de uso excedido',
-            message: 'Este cupom já atingiu seu limite máximo de uso'
+            error: 'Cupom não aplicável',
+            message: 'Este cupom não é válido para o curso/modalidade/valor selecionado'
           });
         }
 
         // Tudo certo, podemos usar o cupom
         couponId = coupon.id;
-
-        // Incrementar o contador de uso do cupom
-        await prisma.coupon.update({
-          where: { id: couponId },
-          data: { usageCount: { increment: 1 } },
-        });
+        discountAmount = pricing.discountAmount;
+        affiliateCommission = pricing.commissionAmount;
 
         console.log(`Cupom ${studentData.couponCode} aplicado com sucesso. ID: ${couponId}`);
-        console.log(`Desconto: ${studentData.discountAmount}, Comissão: ${studentData.affiliateCommission}`);
+        console.log(`Desconto: ${discountAmount}, Comissão: ${affiliateCommission}`);
       } catch (couponError) {
         console.error('Erro ao processar cupom:', couponError);
         return res.status(500).json({
@@ -160,44 +154,33 @@ export const createStudent = async (req: Request, res: Response): Promise<Respon
 
     // Cria o aluno com as datas processadas corretamente
     try {
-      const newStudent = await prisma.student.create({
-        data: {
-          fullName: studentData.fullName,
-          ddd: studentData.ddd,
-          phone: studentData.phone,
-          email: studentData.email || null,
-          birthDate: birthDate,
-          cpf: studentData.cpf,
-          cnhNumber: studentData.cnhNumber || null,
-          cnhType: studentData.cnhType || null,
-          renach: studentData.renach || null,
-          courseId: studentData.courseId,
-          courseModalityId: studentData.courseModalityId,
-          value: studentData.value,
-          paymentType: studentData.paymentType,
-          installments: studentData.installments,
-          paymentStatus: studentData.paymentStatus,
-          paymentDate: paymentDate,
-          paymentForecastDate: paymentForecastDate,
-          userId: userId,
-          // Adicionar campos de cupom quando presentes
-          couponId: couponId,
-          discountAmount: studentData.discountAmount,
-          affiliateCommission: studentData.affiliateCommission,
-        },
-        include: {
-          course: true,
-          courseModality: true,
-          coupon: true,
-          createdBy: {
-            select: {
-              id: true,
-              name: true,
-              email: true
-            }
-          }
-        }
-      });
+      // Cria o aluno e suas parcelas na mesma transação; o status de pagamento é derivado das parcelas
+      const newStudent = await prisma.$transaction(tx => createStudentSale(tx, {
+        fullName: studentData.fullName,
+        ddd: studentData.ddd,
+        phone: studentData.phone,
+        email: studentData.email || null,
+        birthDate: birthDate,
+        cpf: studentData.cpf,
+        cnhNumber: studentData.cnhNumber || null,
+        cnhType: studentData.cnhType || null,
+        renach: studentData.renach || null,
+        courseId: studentData.courseId,
+        courseModalityId: studentData.courseModalityId,
+        value: value,
+        listPrice: listPrice,
+        priceOverridden: priceOverridden,
+        paymentType: studentData.paymentType,
+        installments: studentData.installments,
+        paymentStatus: studentData.paymentStatus,
+        paymentDate: paymentDate,
+        paymentForecastDate: paymentForecastDate,
+        userId: userId,
+        // Adicionar campos de cupom quando presentes
+        couponId: couponId,
+        discountAmount: discountAmount,
+        affiliateCommission: affiliateCommission,
+      }, studentData.paymentStatus, getAuditActor(req)));
 
       return res.status(201).json({
         message: 'Aluno cadastrado com sucesso',
@@ -210,10 +193,37 @@ export const createStudent = async (req: Request, res: Response): Promise<Respon
     }
   } catch (error) {
     console.error('Erro ao criar aluno:', error);
-    return res.status(500).json({
-      error: 'Erro interno do servidor',
-      message: 'Ocorreu um erro inesperado. Por favor, tente novamente mais tarde.'
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Importa alunos de um arquivo CSV (cabeçalho com os mesmos campos do cadastro).
+ * Com dryRun=true apenas retorna o relatório de validação por linha.
+ */
+export const importStudents = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+    }
+
+    // Arquivo garantido pelo middleware de upload; parâmetros já validados
+    const file = req.file as Express.Multer.File;
+    const { dryRun } = req.query as unknown as { dryRun: boolean };
+
+    const report = await importStudentsFromCsv(file.buffer, userId, dryRun, getAuditActor(req));
+
+    return res.status(dryRun ? 200 : 201).json({
+      message: dryRun
+        ? `Simulação concluída: ${report.valid} aluno(s) válido(s), ${report.skipped} ignorado(s) e ${report.invalid} com erro`
+        : `Importação concluída: ${report.created} aluno(s) cadastrado(s), ${report.skipped} ignorado(s) e ${report.invalid} com erro`,
+      report
     });
+
+  } catch (error) {
+    return handleError(error, res);
   }
 };
 
@@ -223,45 +233,26 @@ export const createStudent = async (req: Request, res: Response): Promise<Respon
 export const getStudents = async (req: Request, res: Response): Promise<Response> => {
   try {
     // Dados já validados pelo middleware
-    const page = Number(req.query.page) || 1;
-    const limit = Number(req.query.limit) || 10;
-    
-    // Garantir que page e limit são números inteiros positivos
-    const pageInt = Math.max(1, Math.floor(page));
-    const limitInt = Math.max(1, Math.floor(limit));
-    
-    const filters = req.query;
-    
-    // Debug específico para o problema de CPF
-    console.log('URL da requisição:', req.url);
-    console.log('Query string bruta:', req.url.split('?')[1] || '');
-    
-    // Obtém o CPF diretamente da query string original
-    const cpfParam = req.url.includes('cpf=') ? 
-      req.url.split('cpf=')[1].split('&')[0] : 
-      null;
-    
-    console.log('CPF extraído manualmente:', cpfParam);
-    console.log('CPF no objeto filters:', filters.cpf);
-    
-    // Debug para verificar os filtros recebidos
-    console.log('Filtros recebidos:', {
-      cpf: filters.cpf,
-      typeofCpf: typeof filters.cpf,
-      fullName: filters.fullName,
-      courseId: filters.courseId,
-      courseModalityId: filters.courseModalityId,
-      paymentStatus: filters.paymentStatus
-    });
+    const filters = req.query as unknown as StudentListQuery;
+    const { page, limit } = filters;
     
     // Verifica se o usuário está autenticado
     if (!req.user) {
       throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
     }
     
+    if (filters.minValue !== undefined && filters.maxValue !== undefined && filters.minValue > filters.maxValue) {
+      throw new AppError('O valor mínimo não pode ser maior que o valor máximo', 400, 'minValue', 'INVALID_VALUE_RANGE');
+    }
+    
     // Prepara condições de busca usando o tipo correto do Prisma
     const where: Prisma.StudentWhereInput = {};
     
+    // Alunos removidos ficam fora da listagem; administradores podem incluí-los
+    if (!(req.user.role === 'ADMIN' && filters.includeDeleted)) {
+      where.deletedAt = null;
+    }
+    
     // Filtrar alunos baseado no perfil do usuário
     if (req.user.role === 'SELLER') {
       // Vendedor só pode ver seus próprios alunos
@@ -271,73 +262,86 @@ export const getStudents = async (req: Request, res: Response): Promise<Response
       where.userId = req.user.userId;
     } else if (filters.userId) {
       // Se for admin e especificou userId, filtra por esse usuário
-      where.userId = Number(filters.userId);
+      where.userId = filters.userId;
     }
     
-    // Aplica o filtro de CPF manualmente 
-    if (cpfParam) {
-      // Usar o valor de CPF extraído diretamente da URL
-      where.cpf = cpfParam;
-      console.log('Filtro CPF aplicado manualmente:', where.cpf);
-    } else if (filters.cpf) {
-      // Fallback para o valor do objeto filters, se existir
-      where.cpf = String(filters.cpf);
-      console.log('Filtro CPF aplicado via filters:', where.cpf);
-    }
+    // CPF pode ser informado com ou sem pontuação
+    const cpf = filters.cpf?.replace(/\D/g, '');
+    if (cpf) where.cpf = { contains: cpf };
     
     // Aplica outros filtros 
-    if (filters.fullName) where.fullName = { contains: String(filters.fullName), mode: 'insensitive' };
-    if (filters.courseId) where.courseId = Number(filters.courseId);
-    if (filters.courseModalityId) where.courseModalityId = Number(filters.courseModalityId);
-    if (filters.paymentStatus) where.paymentStatus = String(filters.paymentStatus);
+    if (filters.fullName) where.fullName = { contains: filters.fullName, mode: 'insensitive' };
+    if (filters.courseId) where.courseId = filters.courseId;
+    if (filters.courseModalityId) where.courseModalityId = filters.courseModalityId;
+    if (filters.paymentStatus) where.paymentStatus = filters.paymentStatus;
+    if (filters.paymentType) where.paymentType = filters.paymentType;
+    if (filters.cnhType) where.cnhType = filters.cnhType;
+    
+    // Filtros de cupom
+    if (filters.couponId) {
+      where.couponId = filters.couponId;
+    } else if (filters.couponCode) {
+      where.coupon = {
+        OR: [
+          { code: { equals: filters.couponCode, mode: 'insensitive' } },
+          { customName: { equals: filters.couponCode, mode: 'insensitive' } }
+        ]
+      };
+    } else if (filters.hasCoupon !== undefined) {
+      where.couponId = filters.hasCoupon ? { not: null } : null;
+    }
     
-    // Filtro de datas
+    // Filtro de datas (a data final inclui o dia inteiro)
     if (filters.startDate || filters.endDate) {
       where.registrationDate = {
-        ...(filters.startDate && { gte: new Date(String(filters.startDate)) }),
-        ...(filters.endDate && { lte: new Date(String(filters.endDate)) })
+        ...(filters.startDate && { gte: filters.startDate }),
+        ...(filters.endDate && { lt: endOfDayExclusive(filters.endDate) })
       };
     }
     
-    // Log final das condições de busca
-    console.log('Condições finais da busca:', JSON.stringify(where));
-    
-    // Busca os alunos paginados
-    const allStudents = await prisma.student.findMany({
-      where,
-      orderBy: { registrationDate: 'desc' },
-      include: {
-        createdBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        },
-        course: true,
-        courseModality: true
-      }
-    });
-    
-    // Log dos resultados para debug
-    console.log(`Quantidade de resultados: ${allStudents.length}`);
-    if (allStudents.length > 0) {
-      console.log('CPFs encontrados:', allStudents.map(s => s.cpf).join(', '));
+    // Filtro de faixa de valor
+    if (filters.minValue !== undefined || filters.maxValue !== undefined) {
+      where.value = {
+        ...(filters.minValue !== undefined && { gte: filters.minValue }),
+        ...(filters.maxValue !== undefined && { lte: filters.maxValue })
+      };
     }
     
-    // Aplica paginação manual
-    const total = allStudents.length;
-    const paginatedStudents = allStudents.slice(
-      (pageInt - 1) * limitInt,
-      pageInt * limitInt
-    );
+    // Ordenação solicitada com o ID como desempate, para que a paginação não repita nem pule alunos
+    const sortOrder = filters.sortOrder ?? 'desc';
+    const orderBy: Prisma.StudentOrderByWithRelationInput[] = [
+      { [filters.sortBy ?? 'registrationDate']: sortOrder },
+      { id: sortOrder }
+    ];
+    
+    // Conta o total e busca apenas a página solicitada
+    const [total, students] = await prisma.$transaction([
+      prisma.student.count({ where }),
+      prisma.student.findMany({
+        where,
+        orderBy,
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          createdBy: {
+            select: {
+              id: true,
+              name: true,
+              email: true
+            }
+          },
+          course: true,
+          courseModality: true
+        }
+      })
+    ]);
     
     return res.status(200).json({
-      students: paginatedStudents,
+      students,
       total,
-      page: pageInt,
-      limit: limitInt,
-      totalPages: Math.ceil(total / limitInt)
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
     });
     
   } catch (error) {
@@ -374,11 +378,15 @@ export const getStudentById = async (req: Request, res: Response): Promise<Respo
         },
         course: true,
         courseModality: true,
-        coupon: true
+        coupon: true,
+        installmentSchedule: {
+          orderBy: { number: 'asc' }
+        }
       }
     });
     
-    if (!student) {
+    // Alunos removidos só são visíveis para administradores
+    if (!student || (student.deletedAt && req.user.role !== 'ADMIN')) {
       throw new AppError('Não foi possível encontrar um aluno com o ID especificado', 404, 'id', 'STUDENT_NOT_FOUND');
     }
     
@@ -406,7 +414,7 @@ export const updateStudent = async (req: Request, res: Response): Promise<Respon
     }
     
     // Dados já validados pelo middleware
-    const studentData = req.body as UpdateStudentInput;
+    const { couponCode, paymentStatus, ...studentData } = req.body as UpdateStudentInput;
     
     // Verifica se o usuário está autenticado
     if (!req.user) {
@@ -423,7 +431,7 @@ export const updateStudent = async (req: Request, res: Response): Promise<Respon
       where: { id: Number.parseInt(id, 10) }
     });
     
-    if (!student) {
+    if (!student || student.deletedAt) {
       throw new AppError('Não foi possível encontrar um aluno com o ID especificado', 404, 'id', 'STUDENT_NOT_FOUND');
     }
     
@@ -443,54 +451,13 @@ export const updateStudent = async (req: Request, res: Response): Promise<Respon
       }
     }
     
-    // Processa o cupom, se fornecido
-    let couponId = student.couponId;
+    // Processa o cupom: novo código, remoção (código vazio) ou manutenção do cupom atual
+    let coupon: CouponWithConfigurations | null = null;
     
-    if (studentData.couponCode && studentData.couponCode !== '') {
+    if (couponCode && couponCode !== '') {
       try {
-        // Buscar cupom pelo código
-        let coupon = await prisma.coupon.findUnique({
-          where: { code: studentData.couponCode },
-          include: {
-            user: true,
-          },
-        });
-
-        // Se não encontrou pelo código, tentar encontrar pelo nome personalizado
-        if (!coupon) {
-          console.log(`Cupom não encontrado pelo código "${studentData.couponCode}", tentando buscar por nome personalizado`);
-          
-          // Usar o Prisma para fazer uma busca case-insensitive
-          const couponsWithCustomName = await prisma.coupon.findMany({
-            where: { 
-              customName: {
-                equals: studentData.couponCode,
-                mode: 'insensitive' // Busca case-insensitive
-              },
-              active: true 
-            },
-            include: {
-              user: true,
-            },
-          });
-
-          console.log(`Encontrados ${couponsWithCustomName.length} cupons com o nome personalizado "${studentData.couponCode}":`, 
-            couponsWithCustomName.map(c => ({ id: c.id, code: c.code, customName: c.customName })));
-
-          // Se encontrou exatamente um cupom com o nome personalizado, usar esse
-          if (couponsWithCustomName.length === 1) {
-            console.log(`Usando cupom encontrado por nome personalizado: ${couponsWithCustomName[0].code}`);
-            coupon = couponsWithCustomName[0];
-          }
-          // Se encontrou mais de um, usar o primeiro ativo
-          else if (couponsWithCustomName.length > 1) {
-            const activeCoupon = couponsWithCustomName.find(c => c.active);
-            if (activeCoupon) {
-              console.log(`Encontrados múltiplos cupons, usando o primeiro ativo: ${activeCoupon.code}`);
-              coupon = activeCoupon;
-            }
-          }
-        }
+        // Buscar cupom pelo código ou nome personalizado
+        coupon = await findCouponByCodeOrName(couponCode);
 
         if (!coupon) {
           return res.status(404).json({
@@ -499,98 +466,126 @@ export const updateStudent = async (req: Request, res: Response): Promise<Respon
           });
         }
 
-        if (!coupon.active) {
-          return res.status(400).json({
-            error: 'Cupom inativo',
-            message: 'Este cupom não está ativo'
-          });
-        }
+        // O cupom já aplicado ao aluno continua válido para ele; só um novo cupom é validado
+        if (coupon.id !== student.couponId) {
+          const unavailable = getCouponUnavailableReason(coupon);
 
-        // Verificar se o cupom está expirado
-        if (coupon.expirationDate && new Date() > new Date(coupon.expirationDate)) {
-          return res.status(400).json({
-            error: 'Cupom expirado',
-            message: 'Este cupom já expirou'
-          });
-        }
-
-        // Verificar se o cupom atingiu o limite de uso
-        if (coupon.usageLimit !== null && coupon.usageCount >= coupon.usageLimit) {
-          return res.status(400).json({
-            error: 'Limite de uso excedido',
-            message: 'Este cupom já atingiu seu limite máximo de uso'
-          });
-        }
-
-        // Tudo certo, podemos usar o cupom
-        couponId = coupon.id;
-        
-        // Incrementar o contador de uso do cupom se é um novo cupom (diferente do anterior)
-        if (student.couponId !== couponId) {
-          await prisma.coupon.update({
-            where: { id: couponId },
-            data: { usageCount: { increment: 1 } },
-          });
-          
-          // Se havia um cupom anterior, decrementa o contador daquele
-          if (student.couponId) {
-            await prisma.coupon.update({
-              where: { id: student.couponId },
-              data: { usageCount: { decrement: 1 } },
-            });
+          if (unavailable) {
+            return res.status(400).json(unavailable);
           }
         }
       } catch (couponError) {
-        if (couponError instanceof AppError) {
-          throw couponError;
-        }
         console.error('Erro ao processar cupom:', couponError);
         throw new AppError('Erro ao processar cupom', 500, 'couponCode', 'COUPON_PROCESSING_ERROR');
       }
-    } else if (studentData.couponCode === '') {
-      // Se enviou um código vazio, remove o cupom
-      couponId = null;
+    } else if (couponCode !== '' && student.couponId) {
+      // Nenhum código informado: mantém o cupom atual
+      coupon = await prisma.coupon.findUnique({
+        where: { id: student.couponId },
+        include: { configurations: true }
+      });
+    }
+    
+    const couponId = coupon ? coupon.id : null;
+    
+    const courseId = studentData.courseId ?? student.courseId;
+    const courseModalityId = studentData.courseModalityId ?? student.courseModalityId;
+    const value = studentData.value ?? student.value;
+    
+    // Desconto, comissão e preço de tabela só são recalculados quando algo que afeta o preço muda
+    const saleChanged = value !== student.value
+      || courseId !== student.courseId
+      || courseModalityId !== student.courseModalityId;
+    const pricingChanged = saleChanged || couponId !== student.couponId;
+    
+    const pricingData: Prisma.StudentUncheckedUpdateInput = {};
+    
+    if (courseId !== student.courseId || courseModalityId !== student.courseModalityId) {
+      await ensureActiveCourse(courseId, courseModalityId);
+    }
+    
+    if (saleChanged) {
+      const resolvedPrice = await resolveStudentPrice(courseId, courseModalityId, value, student.registrationDate);
+      pricingData.listPrice = resolvedPrice.listPrice;
+      pricingData.priceOverridden = resolvedPrice.priceOverridden;
+    }
+    
+    if (pricingChanged) {
+      pricingData.discountAmount = null;
+      pricingData.affiliateCommission = null;
       
-      // Se havia um cupom anterior, decrementa o contador
-      if (student.couponId) {
-        await prisma.coupon.update({
-          where: { id: student.couponId },
-          data: { usageCount: { decrement: 1 } },
+      if (coupon) {
+        const pricing = calculateCouponPricing({
+          coupon,
+          courseId,
+          courseModalityId,
+          baseValue: value
         });
+        
+        if (!pricing.applicable) {
+          return res.status(400).json({
+            error: 'Cupom não aplicável',
+            message: 'Este cupom não é válido para o curso/modalidade/valor selecionado'
+          });
+        }
+        
+        pricingData.discountAmount = pricing.discountAmount;
+        pricingData.affiliateCommission = pricing.commissionAmount;
       }
     }
     
-    // Atualiza o aluno
-    const updatedStudent = await prisma.student.update({
-      where: { id: Number.parseInt(id, 10) },
-      data: {
-        ...studentData,
-        birthDate: studentData.birthDate === null || studentData.birthDate === undefined 
-          ? null 
-          : new Date(studentData.birthDate),
-        paymentDate: studentData.paymentDate === null || studentData.paymentDate === undefined 
-          ? null 
-          : new Date(studentData.paymentDate),
-        paymentForecastDate: studentData.paymentForecastDate === null || studentData.paymentForecastDate === undefined
-          ? null
-          : new Date(studentData.paymentForecastDate),
-        // Atualizar campos de cupom
-        couponId: couponId,
-        discountAmount: studentData.discountAmount,
-        affiliateCommission: studentData.affiliateCommission
-      },
-      include: {
-        course: true,
-        courseModality: true,
-        coupon: true,
-        createdBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
+    // Parcelas em aberto são refeitas quando o valor líquido ou a quantidade de parcelas muda
+    const scheduleChanged = pricingChanged
+      || (studentData.installments !== undefined && studentData.installments !== student.installments);
+    
+    // Atualiza o aluno e suas parcelas na mesma transação
+    const updatedStudent = await prisma.$transaction(async (tx) => {
+      const savedStudent = await tx.student.update({
+        where: { id: Number.parseInt(id, 10) },
+        data: {
+          ...studentData,
+          birthDate: studentData.birthDate === null || studentData.birthDate === undefined 
+            ? null 
+            : new Date(studentData.birthDate),
+          paymentDate: studentData.paymentDate === null || studentData.paymentDate === undefined 
+            ? null 
+            : new Date(studentData.paymentDate),
+          paymentForecastDate: studentData.paymentForecastDate === null || studentData.paymentForecastDate === undefined
+            ? null
+            : new Date(studentData.paymentForecastDate),
+          // Atualizar campos de cupom
+          couponId: couponId,
+          ...pricingData
         }
+      });
+      
+      // Libera o uso do cupom anterior e reserva o do novo cupom, quando ele muda
+      await syncCouponRedemption(tx, savedStudent);
+      
+      if (scheduleChanged) {
+        await rebuildInstallmentSchedule(tx, savedStudent);
       }
+      
+      // O status informado é aplicado às parcelas; o status final é derivado delas
+      await updateInstallmentStatus(tx, savedStudent.id, paymentStatus, savedStudent.paymentDate);
+      
+      // Comissão acompanha o cupom, o valor e a quitação da venda
+      await syncSaleCommission(tx, savedStudent.id);
+      
+      const result = await tx.student.findUniqueOrThrow({
+        where: { id: savedStudent.id },
+        include: studentDetailsInclude
+      });
+      
+      await recordAudit(tx, getAuditActor(req), {
+        entity: AuditEntity.STUDENT,
+        entityId: result.id,
+        action: AuditAction.UPDATE,
+        before: student,
+        after: result
+      });
+      
+      return result;
     });
     
     return res.status(200).json({
@@ -629,19 +624,89 @@ export const deleteStudent = async (req: Request, res: Response): Promise<Respon
       where: { id: Number.parseInt(id, 10) }
     });
     
-    if (!student) {
+    if (!student || student.deletedAt) {
       throw new AppError('Não foi possível encontrar um aluno com o ID especificado', 404, 'id', 'STUDENT_NOT_FOUND');
     }
     
-    // Exclui o aluno
-    await prisma.student.delete({
-      where: { id: Number.parseInt(id, 10) }
+    // Marca o aluno como removido (exclusão lógica) e estorna a comissão da venda
+    await prisma.$transaction(async (tx) => {
+      const deletedStudent = await tx.student.update({
+        where: { id: student.id },
+        data: { deletedAt: new Date() }
+      });
+      await syncCouponRedemption(tx, deletedStudent);
+      await syncSaleCommission(tx, student.id);
+      await recordAudit(tx, getAuditActor(req), {
+        entity: AuditEntity.STUDENT,
+        entityId: student.id,
+        action: AuditAction.DELETE,
+        before: student,
+        after: deletedStudent
+      });
     });
     
     return res.status(200).json({
       message: 'Aluno excluído com sucesso'
     });
     
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Restaura um aluno removido
+ */
+export const restoreStudent = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+    
+    if (!id || Number.isNaN(Number(id))) {
+      throw new AppError('O ID do aluno deve ser um número válido', 400, 'id', 'INVALID_ID');
+    }
+    
+    const student = await prisma.student.findUnique({
+      where: { id: Number.parseInt(id, 10) }
+    });
+    
+    if (!student) {
+      throw new AppError('Não foi possível encontrar um aluno com o ID especificado', 404, 'id', 'STUDENT_NOT_FOUND');
+    }
+    
+    if (!student.deletedAt) {
+      throw new AppError('Este aluno não está removido', 400, 'id', 'STUDENT_NOT_DELETED');
+    }
+    
+    // Restaura o aluno, o uso do cupom e a comissão da venda
+    const restoredStudent = await prisma.$transaction(async (tx) => {
+      const restored = await tx.student.update({
+        where: { id: student.id },
+        data: { deletedAt: null }
+      });
+      await syncCouponRedemption(tx, restored);
+      await syncSaleCommission(tx, student.id);
+      
+      const result = await tx.student.findUniqueOrThrow({
+        where: { id: student.id },
+        include: studentDetailsInclude
+      });
+      
+      await recordAudit(tx, getAuditActor(req), {
+        entity: AuditEntity.STUDENT,
+        entityId: student.id,
+        action: AuditAction.RESTORE,
+        before: student,
+        after: result
+      });
+      
+      return result;
+    });
+    
+    return res.status(200).json({
+      message: 'Aluno restaurado com sucesso',
+      student: restoredStudent
+    });
+    
   } catch (error) {
     return handleError(error, res);
   }
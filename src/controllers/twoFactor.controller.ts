@@ -0,0 +1,209 @@
+import type { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import type {
+  TwoFactorSetupInput,
+  TwoFactorCodeInput,
+  TwoFactorDisableInput,
+  TwoFactorPolicyInput
+} from '../models/schemas/auth.schema';
+import type { AuditActor } from '../models/audit.model';
+import { handleError, AppError } from '../utils/errorHandler';
+import { getAuditActor } from '../services/audit.service';
+import {
+  SystemSettingKey,
+  getSystemSetting,
+  getTwoFactorRequiredRoles,
+  updateSystemSetting,
+  clearTwoFactorPolicyCache
+} from '../services/systemSetting.service';
+import {
+  getTwoFactorStatus,
+  startTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  resetTwoFactor
+} from '../services/twoFactor.service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Usuário autenticado da requisição
+ */
+const getActor = (req: Request): AuditActor => {
+  const actor = getAuditActor(req);
+
+  if (!actor) {
+    throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+  }
+
+  return actor;
+};
+
+/**
+ * Consulta a situação da verificação em duas etapas do usuário autenticado
+ */
+export const getMyTwoFactorStatus = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const status = await getTwoFactorStatus(getActor(req).userId);
+
+    return res.status(200).json(status);
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Inicia o cadastro da verificação em duas etapas: retorna o segredo e a URI otpauth
+ * para o aplicativo autenticador (o QR code é gerado pelo frontend)
+ */
+export const setupTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const { password } = req.body as TwoFactorSetupInput;
+
+    const setup = await startTwoFactorSetup(getActor(req).userId, password);
+
+    return res.status(200).json({
+      message: 'Cadastre o segredo no aplicativo autenticador e confirme com o código gerado',
+      ...setup
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Confirma e ativa a verificação em duas etapas; os códigos de recuperação são exibidos apenas nesta resposta
+ */
+export const confirmTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const { code } = req.body as TwoFactorCodeInput;
+
+    const recoveryCodes = await enableTwoFactor(getActor(req), code);
+
+    return res.status(200).json({
+      message: 'Verificação em duas etapas ativada com sucesso. Guarde os códigos de recuperação em local seguro.',
+      recoveryCodes
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Desativa a verificação em duas etapas do usuário autenticado
+ */
+export const disableMyTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const { password, code } = req.body as TwoFactorDisableInput;
+
+    await disableTwoFactor(getActor(req), password, code);
+
+    return res.status(200).json({ message: 'Verificação em duas etapas desativada com sucesso' });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Gera novos códigos de recuperação para o usuário autenticado
+ */
+export const regenerateMyRecoveryCodes = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const { code } = req.body as TwoFactorCodeInput;
+
+    const recoveryCodes = await regenerateRecoveryCodes(getActor(req).userId, code);
+
+    return res.status(200).json({
+      message: 'Novos códigos de recuperação gerados. Os códigos anteriores deixaram de valer.',
+      recoveryCodes
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Consulta os perfis com verificação em duas etapas obrigatória (apenas admin)
+ */
+export const getTwoFactorPolicy = async (_req: Request, res: Response): Promise<Response> => {
+  try {
+    const setting = await getSystemSetting(SystemSettingKey.TWO_FACTOR_REQUIRED_ROLES);
+
+    return res.status(200).json({
+      requiredRoles: await getTwoFactorRequiredRoles(),
+      updatedAt: setting?.updatedAt ?? null,
+      updatedById: setting?.updatedById ?? null
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Altera os perfis com verificação em duas etapas obrigatória (apenas admin).
+ * Usuários desses perfis sem a verificação ativa precisam cadastrá-la antes de usar o sistema.
+ */
+export const updateTwoFactorPolicy = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Dados já validados pelo middleware
+    const { requiredRoles } = req.body as TwoFactorPolicyInput;
+    const roles = [...new Set(requiredRoles)];
+
+    const setting = await prisma.$transaction(tx =>
+      updateSystemSetting(tx, SystemSettingKey.TWO_FACTOR_REQUIRED_ROLES, roles.join(','), getAuditActor(req))
+    );
+
+    // A nova política vale imediatamente nesta instância
+    clearTwoFactorPolicyCache();
+
+    return res.status(200).json({
+      message: 'Política de verificação em duas etapas atualizada com sucesso',
+      policy: {
+        requiredRoles: roles,
+        updatedAt: setting.updatedAt,
+        updatedById: setting.updatedById
+      }
+    });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
+/**
+ * Remove a verificação em duas etapas de um usuário que perdeu o dispositivo
+ * e os códigos de recuperação (apenas admin)
+ */
+export const resetUserTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const userId = Number.parseInt(req.params.id, 10);
+
+    if (Number.isNaN(userId)) {
+      throw new AppError('ID de usuário inválido.', 400, 'id', 'INVALID_ID');
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user || user.deletedAt) {
+      throw new AppError('Usuário não encontrado.', 404, 'id', 'USER_NOT_FOUND');
+    }
+
+    await prisma.$transaction(tx => resetTwoFactor(tx, user, getAuditActor(req)));
+
+    return res.status(200).json({ message: 'Verificação em duas etapas removida do usuário' });
+
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
@@ -11,6 +11,11 @@ import studentRoutes from './routes/student.routes';
 import reportRoutes from './routes/report.routes';
 import courseRoutes from './routes/course.routes';
 import couponRoutes from './routes/coupon.routes';
+import commissionRoutes from './routes/commission.routes';
+import auditRoutes from './routes/audit.routes';
+import goalRoutes from './routes/goal.routes';
+import { startExportJobWorker } from './services/exportJob.service';
+import { startReportScheduler } from './services/reportSchedule.service';
 
 // Inicialização
 const app = express();
@@ -40,6 +45,7 @@ async function ensureAdminExists() {
           password: hashedPassword,
           name: 'Administrador',
           role: Role.ADMIN,
+          mustChangePassword: true,
         },
       });
 
@@ -47,7 +53,7 @@ async function ensureAdminExists() {
       console.log('Credenciais:');
       console.log(`Email: ${adminEmail}`);
       console.log(`Senha: ${adminPassword}`);
-      console.log('IMPORTANTE: Altere a senha após o primeiro login!');
+      console.log('IMPORTANTE: A troca da senha (POST /api/auth/change-password) é obrigatória no primeiro login!');
     } else {
       console.log('Usuário administrador já existe no sistema.');
     }
@@ -80,6 +86,9 @@ app.use('/api/auth', authRoutes);
 app.use('/api/students', studentRoutes);
 app.use('/api/reports', reportRoutes);
 app.use('/api/coupons', couponRoutes);
+app.use('/api/commissions', commissionRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/goals', goalRoutes);
 app.use('/api', courseRoutes);
 
 // Iniciar servidor
@@ -91,6 +100,12 @@ const startServer = async () => {
     console.log(`Servidor rodando na porta ${PORT}`);
   });
 
+  // Processamento das exportações assíncronas de relatórios
+  await startExportJobWorker();
+
+  // Relatórios agendados e envio da caixa de saída de emails
+  startReportScheduler();
+
   // Tratamento de erros do servidor
   process.on('SIGTERM', async () => {
     console.log('SIGTERM recebido, fechando servidor graciosamente');
@@ -2,6 +2,8 @@ import type { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/jwt';
 import { Role } from '../models/user.model';
 import { handleError, AppError } from '../utils/errorHandler';
+import { findActiveSession } from '../services/session.service';
+import { isTwoFactorRequired } from '../services/twoFactor.service';
 
 // Estende o tipo Request para incluir o usuário autenticado
 declare global {
@@ -11,35 +13,63 @@ declare global {
         userId: number;
         email: string;
         role: Role;
+        sessionId?: number;
       };
     }
   }
 }
 
 /**
- * Middleware para verificar se o usuário está autenticado
+ * Valida o token de acesso e preenche o usuário da requisição
+ * (o token só é aceito enquanto a sessão de login que o emitiu estiver ativa)
  */
-export const authenticate = (req: Request, res: Response, next: NextFunction): Response | undefined => {
-  try {
-    // Extrai o token do header de autorização
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      throw new AppError('Token não fornecido ou formato inválido', 401, 'authorization', 'AUTH_HEADER_MISSING');
+const authenticateRequest = async (req: Request, allowPendingAccountSetup: boolean): Promise<void> => {
+  // Extrai o token do header de autorização
+  const authHeader = req.headers.authorization;
+  
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    throw new AppError('Token não fornecido ou formato inválido', 401, 'authorization', 'AUTH_HEADER_MISSING');
+  }
+  
+  // Pega apenas o token (remove o "Bearer ")
+  const token = authHeader.split(' ')[1];
+  
+  // Verifica e decodifica o token
+  const decoded = verifyToken(token);
+  
+  if (!decoded) {
+    throw new AppError('Token inválido ou expirado', 401, 'token', 'INVALID_TOKEN');
+  }
+  
+  // Sessão encerrada por logout, pelo próprio usuário ou por um administrador
+  const session = decoded.sessionId ? await findActiveSession(decoded.sessionId, decoded.userId) : null;
+  
+  if (!session) {
+    throw new AppError('Sua sessão foi encerrada. Por favor, faça login novamente.', 401, 'token', 'SESSION_REVOKED');
+  }
+  
+  if (!allowPendingAccountSetup) {
+    // Senha definida por um administrador precisa ser trocada antes de usar o sistema
+    if (session.mustChangePassword) {
+      throw new AppError('Você precisa alterar a sua senha antes de continuar.', 403, 'password', 'PASSWORD_CHANGE_REQUIRED');
     }
     
-    // Pega apenas o token (remove o "Bearer ")
-    const token = authHeader.split(' ')[1];
-    
-    // Verifica e decodifica o token
-    const decoded = verifyToken(token);
-    
-    if (!decoded) {
-      throw new AppError('Token inválido ou expirado', 401, 'token', 'INVALID_TOKEN');
+    // Perfis com verificação em duas etapas obrigatória precisam cadastrá-la antes de usar o sistema
+    if (!session.twoFactorEnabled && await isTwoFactorRequired(session.role)) {
+      throw new AppError('Você precisa ativar a verificação em duas etapas antes de continuar.', 403, undefined, 'TWO_FACTOR_SETUP_REQUIRED');
     }
-    
-    // Adiciona o usuário ao objeto de requisição para uso em outros middlewares ou controladores
-    req.user = decoded;
+  }
+  
+  // Adiciona o usuário ao objeto de requisição para uso em outros middlewares ou controladores
+  req.user = decoded;
+};
+
+/**
+ * Middleware para verificar se o usuário está autenticado
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<Response | undefined> => {
+  try {
+    await authenticateRequest(req, false);
     
     // Continua para o próximo middleware ou controlador
     next();
@@ -50,6 +80,22 @@ export const authenticate = (req: Request, res: Response, next: NextFunction): R
   }
 };
 
+/**
+ * Middleware de autenticação que também aceita usuários com troca de senha ou cadastro da
+ * verificação em duas etapas pendentes (usado nessas próprias rotas, no logout e no gerenciamento de sessões)
+ */
+export const authenticateWithPendingAccountSetup = async (req: Request, res: Response, next: NextFunction): Promise<Response | undefined> => {
+  try {
+    await authenticateRequest(req, true);
+    
+    next();
+    return undefined;
+    
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
+
 /**
  * Middleware para verificar se o usuário tem permissão de administrador
  */
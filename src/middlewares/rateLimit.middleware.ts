@@ -0,0 +1,42 @@
+import { rateLimit } from 'express-rate-limit';
+import { handleError, AppError } from '../utils/errorHandler';
+
+// Janela de contagem dos limites mais restritos
+const STRICT_RATE_LIMIT_WINDOW_MS = (Number(process.env.STRICT_RATE_LIMIT_WINDOW_MINUTES) || 15) * 60 * 1000;
+
+/**
+ * Limite de requisições por IP para rotas públicas sensíveis, com resposta no formato de erro da API
+ */
+const createStrictLimiter = (max: number) => rateLimit({
+  windowMs: STRICT_RATE_LIMIT_WINDOW_MS,
+  max,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req, res) => {
+    handleError(new AppError('Muitas requisições. Aguarde alguns minutos e tente novamente.', 429, undefined, 'TOO_MANY_REQUESTS'), res);
+  }
+});
+
+// Limite padrão das rotas públicas de autenticação
+const AUTH_RATE_LIMIT_MAX = Number(process.env.AUTH_RATE_LIMIT_MAX) || 20;
+
+/**
+ * Limites das rotas públicas de autenticação. Cada rota tem o seu próprio contador,
+ * para que o uso de uma não esgote o limite das demais.
+ */
+export const loginRateLimiter = createStrictLimiter(AUTH_RATE_LIMIT_MAX);
+export const twoFactorLoginRateLimiter = createStrictLimiter(AUTH_RATE_LIMIT_MAX);
+export const affiliateRegisterRateLimiter = createStrictLimiter(AUTH_RATE_LIMIT_MAX);
+export const forgotPasswordRateLimiter = createStrictLimiter(AUTH_RATE_LIMIT_MAX);
+export const resetPasswordRateLimiter = createStrictLimiter(AUTH_RATE_LIMIT_MAX);
+
+/**
+ * Limite para a renovação de token, mais folgado: o frontend renova automaticamente
+ * a cada expiração do token de acesso, em cada aba aberta
+ */
+export const refreshTokenRateLimiter = createStrictLimiter(Number(process.env.REFRESH_TOKEN_RATE_LIMIT_MAX) || 120);
+
+/**
+ * Limite para a validação pública de cupons (evita a descoberta de códigos por tentativa)
+ */
+export const couponValidationRateLimiter = createStrictLimiter(Number(process.env.COUPON_VALIDATION_RATE_LIMIT_MAX) || 30);
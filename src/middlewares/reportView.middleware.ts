@@ -0,0 +1,34 @@
+import type { Request, Response, NextFunction } from 'express';
+import { AppError, handleError } from '../utils/errorHandler';
+import { findAccessibleReportView, mergeReportViewFilters } from '../services/reportView.service';
+
+/**
+ * Middleware que aplica uma visão salva (?viewId=) aos filtros da query antes da validação.
+ * Os demais parâmetros da query sobrepõem os filtros da visão.
+ */
+export const applyReportView = async (req: Request, res: Response, next: NextFunction) => {
+  const { viewId, ...overrides } = req.query;
+
+  if (viewId === undefined) {
+    return next();
+  }
+
+  try {
+    if (!req.user) {
+      throw new AppError('Você precisa estar autenticado para realizar esta operação', 401, undefined, 'AUTH_REQUIRED');
+    }
+
+    const id = Number.parseInt(String(viewId), 10);
+
+    if (Number.isNaN(id)) {
+      throw new AppError('O ID da visão deve ser um número válido', 400, 'viewId', 'INVALID_ID');
+    }
+
+    const view = await findAccessibleReportView(id, req.user);
+    req.query = mergeReportViewFilters(view, overrides) as Request['query'];
+
+    return next();
+  } catch (error) {
+    return handleError(error, res);
+  }
+};
@@ -0,0 +1,52 @@
+import type { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { AppError, handleError } from '../utils/errorHandler';
+
+// Tamanho máximo do arquivo CSV enviado (2 MB)
+const MAX_CSV_FILE_SIZE = 2 * 1024 * 1024;
+
+const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_CSV_FILE_SIZE, files: 1 },
+  fileFilter: (_req, file, callback) => {
+    const isCsv = file.mimetype === 'text/csv'
+      || file.mimetype === 'application/vnd.ms-excel'
+      || file.originalname.toLowerCase().endsWith('.csv');
+
+    if (!isCsv) {
+      callback(new AppError('O arquivo deve estar no formato CSV', 400, 'file', 'INVALID_FILE_TYPE'));
+      return;
+    }
+
+    callback(null, true);
+  }
+});
+
+/**
+ * Middleware para receber um único arquivo CSV no campo informado (mantido em memória)
+ * @param field - Nome do campo multipart que contém o arquivo
+ */
+export const uploadCsv = (field = 'file') => {
+  const upload = csvUpload.single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const message = error.code === 'LIMIT_FILE_SIZE'
+          ? 'O arquivo excede o tamanho máximo de 2 MB'
+          : `Falha no envio do arquivo: ${error.message}`;
+        return handleError(new AppError(message, 400, field, error.code), res);
+      }
+
+      if (error) {
+        return handleError(error, res);
+      }
+
+      if (!req.file) {
+        return handleError(new AppError(`Envie o arquivo CSV no campo "${field}"`, 400, field, 'FILE_REQUIRED'), res);
+      }
+
+      return next();
+    });
+  };
+};
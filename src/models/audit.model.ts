@@ -0,0 +1,25 @@
+import type { AuditAction, AuditEntity } from '@prisma/client';
+
+// Usuário responsável pela alteração
+export interface AuditActor {
+  userId: number;
+  email: string;
+}
+
+// Estado de uma entidade serializado para a auditoria
+export type AuditSnapshot = Record<string, unknown>;
+
+// Alteração de um campo entre o estado anterior e o posterior
+export type AuditFieldChange = {
+  before: unknown;
+  after: unknown;
+};
+
+// Interface para registro de uma alteração auditada
+export interface AuditEvent {
+  entity: AuditEntity;
+  entityId: number;
+  action: AuditAction;
+  before?: object | null; // Ausente em criações
+  after?: object | null;  // Ausente em exclusões
+}
@@ -0,0 +1,16 @@
+// Interface para fechamento de repasse de comissões de um afiliado
+export interface CommissionPayoutInput {
+  affiliateId: number;
+  periodStart?: Date; // Padrão: desde o primeiro lançamento em aberto
+  periodEnd: Date;    // Vendas até esta data (inclusive) entram no repasse
+  reference: string;  // Identificador do pagamento (comprovante, TED, Pix)
+  notes?: string;
+}
+
+// Interface para totais de comissão de um afiliado
+export interface CommissionTotals {
+  pending: number;  // Vendas ainda não quitadas pelo aluno
+  approved: number; // Liberadas e aguardando repasse
+  paid: number;     // Já repassadas
+  lastPaymentDate: Date | null;
+}
@@ -0,0 +1,57 @@
+import type { Coupon, CouponConfiguration } from '@prisma/client';
+
+// Cupom com as configurações usadas no cálculo de preço
+export type CouponWithConfigurations = Coupon & {
+  configurations: CouponConfiguration[];
+};
+
+// Interface para entrada do cálculo de preço com cupom
+export interface CouponPricingInput {
+  coupon: CouponWithConfigurations;
+  courseId: number;
+  courseModalityId: number;
+  baseValue: number; // Valor do curso informado no cadastro do aluno
+}
+
+// Interface para resultado do cálculo de preço com cupom
+export interface CouponPricingResult {
+  applicable: boolean; // Indica se existe configuração do cupom para o curso/modalidade
+  configuration: CouponConfiguration | null;
+  originalValue: number;
+  discountAmount: number;
+  commissionAmount: number;
+  finalValue: number;
+}
+
+// Correção de contador de uso feita na reconstrução a partir dos registros de uso
+export interface CouponUsageCorrection {
+  couponId: number;
+  code: string;
+  previousCount: number;
+  usageCount: number;
+}
+
+// Totais de uso do cupom em um agrupamento (curso, modalidade ou mês)
+export interface CouponUsageTotals {
+  redemptions: number;
+  saleValue: number;        // Soma do valor de curso das vendas
+  discountAmount: number;
+  commissionAmount: number;
+  netValue: number;         // Valor de venda menos desconto
+}
+
+// Agrupamento das análises de uso do cupom
+export interface CouponUsageBucket extends CouponUsageTotals {
+  key: string | number;     // ID do curso/modalidade ou mês (YYYY-MM)
+  label: string;
+}
+
+// Análise de uso de um cupom
+export interface CouponAnalytics {
+  couponId: number;
+  period: { startDate: Date | null; endDate: Date | null };
+  totals: CouponUsageTotals;
+  byCourse: CouponUsageBucket[];
+  byModality: CouponUsageBucket[];
+  byMonth: CouponUsageBucket[];
+}
@@ -0,0 +1,13 @@
+// Interface para preço de tabela informado no cadastro/edição de curso
+export interface CoursePriceInput {
+  courseModalityId: number;
+  price: number;
+  effectiveFrom?: Date; // Padrão: data atual
+}
+
+// Interface para o valor de venda resolvido a partir do catálogo de preços
+export interface ResolvedStudentPrice {
+  value: number;
+  listPrice: number | null; // Preço de tabela vigente (null se não houver)
+  priceOverridden: boolean; // Valor informado manualmente, diferente do preço de tabela
+}
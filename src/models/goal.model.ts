@@ -0,0 +1,31 @@
+// Interface para a meta mensal de um vendedor/afiliado
+export interface SellerGoalTargets {
+  revenueGoal: number;
+  studentsGoal: number;
+}
+
+// Interface para o desempenho de um vendedor/afiliado no mês em relação à meta
+export interface SellerPerformance {
+  position: number; // Posição no ranking (por faturamento)
+  seller: {
+    id: number;
+    name: string;
+    email: string;
+    role: string;
+  };
+  goal: SellerGoalTargets | null;   // Nula quando não há meta definida para o mês
+  revenue: number;
+  students: number;
+  avgTicket: number;
+  revenueProgress: number | null;   // Percentual da meta de faturamento atingido
+  studentsProgress: number | null;  // Percentual da meta de alunos atingido
+  conversionRate: number | null;    // Percentual das vendas não canceladas já pagas
+  paymentStatusCounts: Record<string, number>;
+}
+
+// Interface para o ranking mensal de vendedores
+export interface SellerRanking {
+  year: number;
+  month: number;
+  sellers: SellerPerformance[];
+}
@@ -0,0 +1,20 @@
+// Enum para status de pagamento do aluno (derivado das parcelas)
+export enum PaymentStatus {
+  PAID = 'Pago',
+  PARTIAL = 'Parcial',
+  PENDING = 'Pendente',
+  CANCELLED = 'Cancelado'
+}
+
+// Interface para item do cronograma de parcelas
+export interface InstallmentScheduleItem {
+  number: number;
+  dueDate: Date;
+  amount: number;
+}
+
+// Interface para registro de pagamento de parcela
+export interface InstallmentPaymentInput {
+  amount?: number; // Padrão: saldo restante da parcela
+  paidDate?: Date; // Padrão: data atual
+}
@@ -1,5 +1,5 @@
-import type { Student, User } from '@prisma/client';
-import type { ReportFilters } from './schemas/report.schema';
+import type { ExportJobStatus, Student, User } from '@prisma/client';
+import type { ReportFilters, StatisticsComparisonMode } from './schemas/report.schema';
 
 /**
  * Interface para resultado de relatório agrupado
@@ -92,6 +92,50 @@ export interface StatisticsResult {
   };
   byPeriod: PeriodStatistics[];
   bySeller?: SellerStatistics[];
+  comparison?: StatisticsComparison; // Presente quando a comparação entre períodos é solicitada
+}
+
+/**
+ * Interface para os indicadores comparados entre períodos
+ */
+export interface ComparisonMetrics {
+  revenue: number;     // Valor total das vendas
+  students: number;    // Quantidade de alunos
+  avgTicket: number;   // Valor médio por aluno
+  discount: number;    // Descontos concedidos por cupons
+  commission: number;  // Comissões devidas aos afiliados
+}
+
+/**
+ * Interface para a variação de um indicador entre os períodos
+ */
+export interface MetricDelta {
+  current: number;
+  previous: number;
+  delta: number;          // Diferença absoluta (atual - anterior)
+  growth: number | null;  // Crescimento percentual; nulo quando o período anterior é zero
+}
+
+/**
+ * Interface para a variação de um item do detalhamento (curso, modalidade ou vendedor)
+ */
+export interface ComparisonBreakdownItem {
+  id: number;
+  name: string;
+  metrics: Record<keyof ComparisonMetrics, MetricDelta>;
+}
+
+/**
+ * Interface para a comparação das estatísticas entre dois períodos
+ */
+export interface StatisticsComparison {
+  mode: StatisticsComparisonMode;
+  currentPeriod: { startDate: string; endDate: string };
+  previousPeriod: { startDate: string; endDate: string };
+  overall: Record<keyof ComparisonMetrics, MetricDelta>;
+  byCourse: ComparisonBreakdownItem[];
+  byModality: ComparisonBreakdownItem[];
+  bySeller?: ComparisonBreakdownItem[];  // Apenas para administradores
 }
 
 /**
@@ -103,6 +147,11 @@ export interface ReportQueryOptions {
   calculateStatistics?: boolean;
 }
 
+/**
+ * Tipo do valor de uma coluna exportada (define o tipo da célula na planilha)
+ */
+export type ColumnType = 'text' | 'number' | 'currency' | 'date' | 'boolean';
+
 /**
  * Interface para cabeçalho de coluna na exportação
  */
@@ -110,5 +159,78 @@ export interface ColumnDefinition {
   field: string;
   header: string;
   width?: number;
+  type?: ColumnType; // Padrão: text
   format?: (value: unknown) => string;
-} 
\ No newline at end of file
+} 
+/**
+ * Interface para configurações de exportação de relatórios
+ */
+export interface ReportExportSettings {
+  maxRows: number;          // Limite de linhas por exportação
+  updatedAt: Date | null;   // Nulo enquanto vale o limite padrão
+  updatedById: number | null;
+}
+
+/**
+ * Interface para exportação assíncrona de relatório
+ */
+export interface ExportJobResult {
+  id: number;
+  format: string;
+  status: ExportJobStatus;
+  filters: Record<string, unknown>;
+  rowCount: number | null;
+  fileName: string | null;
+  fileSize: number | null;  // Tamanho em bytes
+  error: string | null;
+  requestedBy: { id: number; name: string; email: string };
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  expiresAt: Date | null;
+  downloadUrl: string | null; // Disponível apenas enquanto o arquivo não expirou
+}
+
+/**
+ * Interface para um valor a receber (parcela em aberto ou venda pendente sem parcelas)
+ */
+export interface ReceivableItem {
+  studentId: number;
+  fullName: string;
+  installmentId: number | null;  // Nulo para vendas sem cronograma de parcelas
+  installmentNumber: number | null;
+  dueDate: string;               // Data prevista (YYYY-MM-DD)
+  amount: number;                // Saldo a receber
+  paymentType: string;
+  paymentStatus: string;
+  seller: { id: number; name: string };
+  overdue: boolean;              // Data prevista já passou e o valor continua em aberto
+  daysOverdue: number;
+}
+
+/**
+ * Interface para o valor previsto em um dia, semana ou mês
+ */
+export interface ReceivablesBucket {
+  period: string;                        // YYYY-MM-DD (dia ou segunda-feira da semana) ou YYYY-MM (mês)
+  expected: number;                      // Total previsto no período
+  overdue: number;                       // Parte do total já vencida
+  count: number;
+  byPaymentType: Record<string, number>;
+}
+
+/**
+ * Interface para a previsão de recebimentos
+ */
+export interface ReceivablesForecast {
+  groupBy: 'day' | 'week' | 'month';
+  startDate: string;
+  endDate: string;
+  totals: {
+    expected: number;                    // Previsto no intervalo
+    overdue: number;                     // Vencido em aberto (inclusive antes do intervalo)
+    byPaymentType: Record<string, number>;
+  };
+  buckets: ReceivablesBucket[];
+  overdueItems: ReceivableItem[];
+}
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { AuditAction, AuditEntity } from '@prisma/client';
+
+/**
+ * Converte um parâmetro de consulta numérico opcional
+ */
+const optionalIdSchema = (label: string) => z.string().optional()
+  .transform(val => val ? Number.parseInt(val, 10) : undefined)
+  .refine(val => val === undefined || (!Number.isNaN(val) && val > 0), {
+    message: `${label} deve ser maior que zero`
+  });
+
+/**
+ * Converte uma data opcional no formato YYYY-MM-DD
+ */
+const optionalDateSchema = (label: string) => z.string().optional()
+  .refine(val => !val || /^\d{4}-\d{2}-\d{2}$/.test(val), {
+    message: `${label} deve estar no formato YYYY-MM-DD`
+  })
+  .transform(val => val ? new Date(val) : undefined)
+  .refine(
+    val => !val || (val instanceof Date && !Number.isNaN(val.getTime())),
+    { message: `${label} inválida` }
+  );
+
+/**
+ * Schema para filtros da consulta de auditoria
+ */
+export const auditFiltersSchema = z.object({
+  entity: z.nativeEnum(AuditEntity, {
+    invalid_type_error: 'Entidade inválida'
+  }).optional(),
+  entityId: optionalIdSchema('ID da entidade'),
+  action: z.nativeEnum(AuditAction, {
+    invalid_type_error: 'Ação deve ser CREATE, UPDATE ou DELETE'
+  }).optional(),
+  actorId: optionalIdSchema('ID do usuário'),
+  startDate: optionalDateSchema('Data inicial'),
+  endDate: optionalDateSchema('Data final'),
+  page: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : 1)
+    .refine(val => !Number.isNaN(val) && val > 0, { message: 'Página deve ser maior que zero' }),
+  limit: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : 50)
+    .refine(val => !Number.isNaN(val) && val > 0 && val <= 200, {
+      message: 'Limite deve estar entre 1 e 200'
+    })
+}).refine(
+  data => !data.startDate || !data.endDate || data.startDate <= data.endDate,
+  { message: 'A data inicial deve ser anterior ou igual à data final', path: ['startDate'] }
+);
+
+/**
+ * Interface para filtros de auditoria validados
+ */
+export type AuditFiltersData = z.infer<typeof auditFiltersSchema>;
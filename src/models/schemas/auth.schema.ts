@@ -26,6 +26,15 @@ export const DDD_REGEX = /^\d{2}$/;
  */
 export const PHONE_REGEX = /^\d{8,11}$/;
 
+/**
+ * Senha forte exigida no cadastro e na troca de senha
+ */
+const strongPasswordSchema = z.string()
+  .min(8, { message: 'A senha deve ter pelo menos 8 caracteres' })
+  .refine(value => PASSWORD_REGEX.test(value), {
+    message: 'A senha deve conter pelo menos uma letra maiúscula, uma minúscula, um número e um caractere especial'
+  });
+
 /**
  * Schema para registro de usuário
  */
@@ -34,11 +43,7 @@ export const registerSchema = z.object({
     .email({ message: 'Email inválido' })
     .min(1, { message: 'Email é obrigatório' }),
   
-  password: z.string()
-    .min(8, { message: 'A senha deve ter pelo menos 8 caracteres' })
-    .refine(value => PASSWORD_REGEX.test(value), {
-      message: 'A senha deve conter pelo menos uma letra maiúscula, uma minúscula, um número e um caractere especial'
-    }),
+  password: strongPasswordSchema,
   
   name: z.string()
     .min(3, { message: 'O nome deve ter pelo menos 3 caracteres' })
@@ -82,4 +87,95 @@ export const loginSchema = z.object({
 export const refreshTokenSchema = z.object({
   refreshToken: z.string()
     .min(1, { message: 'Refresh token é obrigatório' })
-}); 
\ No newline at end of file
+});
+
+/**
+ * Schema para troca de senha do usuário autenticado
+ */
+export const changePasswordSchema = z.object({
+  currentPassword: z.string()
+    .min(1, { message: 'Senha atual é obrigatória' }),
+  
+  newPassword: strongPasswordSchema
+}).refine(data => data.newPassword !== data.currentPassword, {
+  message: 'A nova senha deve ser diferente da senha atual',
+  path: ['newPassword']
+});
+
+/**
+ * Schema para solicitação de redefinição de senha
+ */
+export const forgotPasswordSchema = z.object({
+  email: z.string()
+    .email({ message: 'Email inválido' })
+    .min(1, { message: 'Email é obrigatório' })
+});
+
+/**
+ * Schema para redefinição de senha com o token recebido por email
+ */
+export const resetPasswordSchema = z.object({
+  token: z.string()
+    .min(1, { message: 'Token de redefinição é obrigatório' }),
+  
+  newPassword: strongPasswordSchema
+});
+
+/**
+ * Código da verificação em duas etapas: 6 dígitos do aplicativo ou código de recuperação
+ */
+const twoFactorCodeSchema = z.string()
+  .trim()
+  .min(6, { message: 'Código de verificação inválido' })
+  .max(20, { message: 'Código de verificação inválido' });
+
+/**
+ * Schema para o segundo passo do login com verificação em duas etapas
+ */
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string()
+    .min(1, { message: 'Token de desafio é obrigatório' }),
+  
+  code: twoFactorCodeSchema
+});
+
+/**
+ * Schema para início do cadastro da verificação em duas etapas
+ */
+export const twoFactorSetupSchema = z.object({
+  password: z.string()
+    .min(1, { message: 'Senha é obrigatória' })
+});
+
+/**
+ * Schema para confirmação da verificação em duas etapas e geração de códigos de recuperação
+ */
+export const twoFactorCodeBodySchema = z.object({
+  code: twoFactorCodeSchema
+});
+
+/**
+ * Schema para desativação da verificação em duas etapas
+ */
+export const twoFactorDisableSchema = z.object({
+  password: z.string()
+    .min(1, { message: 'Senha é obrigatória' }),
+  
+  code: twoFactorCodeSchema
+});
+
+/**
+ * Schema para a política de perfis com verificação em duas etapas obrigatória
+ */
+export const twoFactorPolicySchema = z.object({
+  requiredRoles: z.array(z.enum([Role.ADMIN, Role.SELLER, Role.AFFILIATE]))
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginSchema>;
+export type TwoFactorSetupInput = z.infer<typeof twoFactorSetupSchema>;
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeBodySchema>;
+export type TwoFactorDisableInput = z.infer<typeof twoFactorDisableSchema>;
+export type TwoFactorPolicyInput = z.infer<typeof twoFactorPolicySchema>;
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { CommissionStatus } from '@prisma/client';
+
+/**
+ * Valida uma data no formato YYYY-MM-DD e converte para Date
+ */
+const dateSchema = (label: string) => z.string()
+  .refine(val => /^\d{4}-\d{2}-\d{2}$/.test(val), {
+    message: `${label} deve estar no formato YYYY-MM-DD`
+  })
+  .transform(val => new Date(val))
+  .refine(val => !Number.isNaN(val.getTime()), { message: `${label} inválida` });
+
+/**
+ * Schema para fechamento de repasse de comissões
+ */
+export const commissionPayoutSchema = z.object({
+  affiliateId: z.number().int().positive({ message: 'ID do afiliado inválido' }),
+  periodStart: dateSchema('Data inicial').optional(),
+  periodEnd: dateSchema('Data final'),
+  reference: z.string().trim().min(1, { message: 'Referência do pagamento é obrigatória' }),
+  notes: z.string().optional()
+}).refine(data => !data.periodStart || data.periodStart <= data.periodEnd, {
+  message: 'A data inicial deve ser anterior ou igual à data final',
+  path: ['periodStart']
+});
+
+/**
+ * Schema para filtros da listagem de lançamentos de comissão
+ */
+export const commissionFiltersSchema = z.object({
+  affiliateId: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : undefined)
+    .refine(val => val === undefined || (!Number.isNaN(val) && val > 0), {
+      message: 'ID do afiliado deve ser maior que zero'
+    }),
+  status: z.nativeEnum(CommissionStatus, {
+    invalid_type_error: 'Status deve ser PENDING, APPROVED, PAID ou REVERSED'
+  }).optional(),
+  startDate: dateSchema('Data inicial').optional(),
+  endDate: dateSchema('Data final').optional()
+});
+
+/**
+ * Interfaces para dados de comissão validados
+ */
+export type CommissionPayoutData = z.infer<typeof commissionPayoutSchema>;
+export type CommissionFiltersData = z.infer<typeof commissionFiltersSchema>;
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+/**
+ * Ano e mês opcionais da query (padrão: mês atual)
+ */
+const goalPeriodShape = {
+  year: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : new Date().getFullYear())
+    .refine(val => !Number.isNaN(val) && val >= 2000 && val <= 2100, {
+      message: 'Ano deve estar entre 2000 e 2100'
+    }),
+  month: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : new Date().getMonth() + 1)
+    .refine(val => !Number.isNaN(val) && val >= 1 && val <= 12, {
+      message: 'Mês deve estar entre 1 e 12'
+    })
+};
+
+/**
+ * Schema para cadastro ou alteração da meta mensal de um vendedor/afiliado
+ */
+export const sellerGoalSchema = z.object({
+  userId: z.number().int().positive({ message: 'ID do usuário inválido' }),
+  year: z.number().int().min(2000, { message: 'Ano deve estar entre 2000 e 2100' })
+    .max(2100, { message: 'Ano deve estar entre 2000 e 2100' }),
+  month: z.number().int().min(1, { message: 'Mês deve estar entre 1 e 12' })
+    .max(12, { message: 'Mês deve estar entre 1 e 12' }),
+  revenueGoal: z.number().nonnegative({ message: 'Meta de faturamento não pode ser negativa' }),
+  studentsGoal: z.number().int({ message: 'Meta de alunos deve ser um número inteiro' })
+    .nonnegative({ message: 'Meta de alunos não pode ser negativa' })
+});
+
+/**
+ * Schema para o mês consultado no ranking e no progresso do vendedor
+ */
+export const goalPeriodSchema = z.object(goalPeriodShape);
+
+/**
+ * Schema para filtros da listagem de metas
+ */
+export const goalFiltersSchema = z.object({
+  ...goalPeriodShape,
+  userId: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : undefined)
+    .refine(val => val === undefined || (!Number.isNaN(val) && val > 0), {
+      message: 'ID do usuário deve ser maior que zero'
+    })
+});
+
+/**
+ * Interfaces para dados de metas validados
+ */
+export type SellerGoalData = z.infer<typeof sellerGoalSchema>;
+export type GoalPeriodData = z.infer<typeof goalPeriodSchema>;
+export type GoalFiltersData = z.infer<typeof goalFiltersSchema>;
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+/**
+ * Schema para registro de pagamento de parcela
+ */
+export const installmentPaymentSchema = z.object({
+  amount: z.number().positive({ message: 'Valor pago deve ser positivo' })
+    .or(
+      z.string().transform(val => Number.parseFloat(val.replace(',', '.')))
+    )
+    .refine(val => !Number.isNaN(val) && val > 0, {
+      message: 'Valor pago deve ser um número positivo'
+    })
+    .optional(),
+
+  paidDate: z.string().optional()
+    .refine(val => !val || /^\d{4}-\d{2}-\d{2}$/.test(val), {
+      message: 'Data de pagamento deve estar no formato YYYY-MM-DD'
+    })
+    .transform(val => val ? new Date(val) : undefined)
+    .refine(
+      val => !val || (val instanceof Date && !Number.isNaN(val.getTime())),
+      { message: 'Data de pagamento inválida' }
+    )
+});
+
+/**
+ * Interface para dados de pagamento de parcela
+ */
+export type InstallmentPaymentData = z.infer<typeof installmentPaymentSchema>;
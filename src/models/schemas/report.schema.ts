@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { parseExpression } from 'cron-parser';
+import { OutboxStatus } from '@prisma/client';
 
 /**
  * Schema para filtros avançados de relatórios
@@ -144,6 +146,90 @@ export const reportFiltersSchema = z.object({
     })
 });
 
+/**
+ * Data opcional da query no formato YYYY-MM-DD
+ */
+const optionalQueryDate = (label: string) => z.string().optional()
+  .refine(val => !val || /^\d{4}-\d{2}-\d{2}$/.test(val), {
+    message: `${label} deve estar no formato YYYY-MM-DD`
+  })
+  .transform(val => val ? new Date(val) : undefined)
+  .refine(
+    val => !val || !Number.isNaN(val.getTime()), 
+    { message: `${label} inválida` }
+  );
+
+/**
+ * Modos de comparação das estatísticas: período imediatamente anterior com a mesma duração,
+ * mesmo período do ano anterior ou um intervalo informado
+ */
+export const STATISTICS_COMPARISON_MODES = ['previousPeriod', 'lastYear', 'custom'] as const;
+
+/**
+ * Schema para estatísticas, com comparação opcional entre períodos
+ */
+export const reportStatisticsSchema = reportFiltersSchema.extend({
+  compareTo: z.enum(STATISTICS_COMPARISON_MODES, {
+    errorMap: () => ({ message: 'Comparação deve ser previousPeriod, lastYear ou custom' })
+  }).optional(),
+  compareStartDate: optionalQueryDate('Data inicial de comparação'),
+  compareEndDate: optionalQueryDate('Data final de comparação')
+}).superRefine((data, ctx) => {
+  if (!data.compareTo) {
+    return;
+  }
+  
+  if (!data.startDate || !data.endDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Informe a data inicial e final do período para usar a comparação',
+      path: [data.startDate ? 'endDate' : 'startDate']
+    });
+  } else if (data.startDate > data.endDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'A data inicial deve ser anterior ou igual à data final',
+      path: ['startDate']
+    });
+  }
+  
+  if (data.compareTo === 'custom') {
+    if (!data.compareStartDate || !data.compareEndDate) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Informe a data inicial e final de comparação',
+        path: [data.compareStartDate ? 'compareEndDate' : 'compareStartDate']
+      });
+    } else if (data.compareStartDate > data.compareEndDate) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'A data inicial de comparação deve ser anterior ou igual à data final de comparação',
+        path: ['compareStartDate']
+      });
+    }
+  }
+});
+
+/**
+ * Schema para a previsão de recebimentos (parcelas em aberto por data prevista)
+ */
+export const receivablesForecastSchema = z.object({
+  startDate: optionalQueryDate('Data inicial'),
+  endDate: optionalQueryDate('Data final'),
+  
+  groupBy: z.enum(['day', 'week', 'month'], {
+    errorMap: () => ({ message: 'Agrupamento deve ser day, week ou month' })
+  }).default('month'),
+  
+  paymentType: reportFiltersSchema.shape.paymentType,
+  courseId: reportFiltersSchema.shape.courseId,
+  courseModalityId: reportFiltersSchema.shape.courseModalityId,
+  userId: reportFiltersSchema.shape.userId
+}).refine(data => !data.startDate || !data.endDate || data.startDate <= data.endDate, {
+  message: 'A data inicial deve ser anterior ou igual à data final',
+  path: ['startDate']
+});
+
 /**
  * Schema para exportação de relatórios
  */
@@ -157,6 +243,162 @@ export const reportExportSchema = z.object({
   ...reportFiltersSchema.shape
 });
 
+/**
+ * Schema para alteração das configurações de exportação (apenas administradores)
+ */
+export const reportExportSettingsSchema = z.object({
+  maxRows: z.number({ invalid_type_error: 'Limite de linhas deve ser um número' })
+    .int({ message: 'Limite de linhas deve ser um número inteiro' })
+    .min(1, { message: 'Limite de linhas deve ser maior que zero' })
+    .max(1000000, { message: 'Limite de linhas não pode exceder 1.000.000' })
+});
+
+/**
+ * Schema para listagem das exportações assíncronas
+ */
+export const exportJobFiltersSchema = z.object({
+  status: z.enum(['QUEUED', 'PROCESSING', 'COMPLETED', 'FAILED', 'EXPIRED'], {
+    errorMap: () => ({ message: 'Status deve ser QUEUED, PROCESSING, COMPLETED, FAILED ou EXPIRED' })
+  }).optional(),
+  
+  page: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : 1)
+    .refine(val => val > 0, { 
+      message: 'Página deve ser maior que zero' 
+    }),
+  
+  limit: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : 10)
+    .refine(val => val > 0 && val <= 100, { 
+      message: 'Limite deve estar entre 1 e 100' 
+    })
+});
+
+// Filtros que podem ser gravados (os mesmos do relatório, sem paginação)
+const STORED_FILTER_KEYS = Object.keys(reportFiltersSchema.shape).filter(key => key !== 'page' && key !== 'limit');
+
+/**
+ * Schema para filtros de relatório gravados no formato da query string
+ * (validados com as mesmas regras do relatório e guardados como texto)
+ */
+export const storedReportFiltersSchema = z.record(z.string(), {
+  invalid_type_error: 'Os filtros devem ser um objeto com valores em texto'
+})
+  .default({})
+  .superRefine((filters, ctx) => {
+    for (const key of Object.keys(filters)) {
+      if (!STORED_FILTER_KEYS.includes(key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Filtro '${key}' não suportado`, path: [key] });
+      }
+    }
+    
+    const parsed = reportFiltersSchema.safeParse(filters);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: issue.path });
+      }
+    }
+  });
+
+/**
+ * Schema para cadastro de visão de relatório (filtros salvos com um nome)
+ */
+export const createReportViewSchema = z.object({
+  name: z.string().trim()
+    .min(1, { message: 'Nome da visão é obrigatório' })
+    .max(100, { message: 'Nome da visão deve ter no máximo 100 caracteres' }),
+  
+  filters: storedReportFiltersSchema,
+  
+  // Apenas administradores podem publicar visões para todos os usuários
+  shared: z.boolean().default(false)
+});
+
+/**
+ * Schema para alteração de visão de relatório
+ */
+export const updateReportViewSchema = createReportViewSchema.partial();
+
+/**
+ * Formatos do relatório agendado: apenas o resumo de estatísticas ou o resumo com o arquivo anexado
+ */
+export const REPORT_SCHEDULE_FORMATS = ['summary', 'csv', 'excel', 'pdf'] as const;
+
+/**
+ * Períodos relativos à data de execução do agendamento (substituem a data inicial e final)
+ */
+export const REPORT_PERIODS = ['last7Days', 'lastWeek', 'currentMonth', 'lastMonth'] as const;
+
+/**
+ * Schema para cadastro de relatório agendado
+ */
+export const createReportScheduleSchema = z.object({
+  name: z.string().trim()
+    .min(1, { message: 'Nome do agendamento é obrigatório' })
+    .max(100, { message: 'Nome do agendamento deve ter no máximo 100 caracteres' }),
+  
+  format: z.enum(REPORT_SCHEDULE_FORMATS, {
+    errorMap: () => ({ message: 'Formato deve ser summary, csv, excel ou pdf' })
+  }).default('summary'),
+  
+  filters: storedReportFiltersSchema,
+  
+  period: z.enum(REPORT_PERIODS, {
+    errorMap: () => ({ message: 'Período deve ser last7Days, lastWeek, currentMonth ou lastMonth' })
+  }).nullable().optional(),
+  
+  cron: z.string().trim()
+    .refine(val => {
+      if (val.split(/\s+/).length !== 5) return false;
+      try {
+        parseExpression(val);
+        return true;
+      } catch {
+        return false;
+      }
+    }, {
+      message: 'Agendamento deve ser uma expressão cron com 5 campos (minuto hora dia mês dia-da-semana)'
+    }),
+  
+  recipients: z.array(z.string().trim().email({ message: 'Email do destinatário inválido' }))
+    .min(1, { message: 'Informe ao menos um destinatário' })
+    .max(20, { message: 'Máximo de 20 destinatários por agendamento' }),
+  
+  active: z.boolean().default(true)
+});
+
+/**
+ * Schema para alteração de relatório agendado
+ */
+export const updateReportScheduleSchema = createReportScheduleSchema.partial();
+
+/**
+ * Schema para listagem da caixa de saída de emails
+ */
+export const outboxFiltersSchema = z.object({
+  status: z.nativeEnum(OutboxStatus, {
+    invalid_type_error: 'Status deve ser PENDING, SENT ou FAILED'
+  }).optional(),
+  
+  scheduleId: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : undefined)
+    .refine(val => val === undefined || (!Number.isNaN(val) && val > 0), { 
+      message: 'ID do agendamento deve ser maior que zero' 
+    }),
+  
+  page: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : 1)
+    .refine(val => val > 0, { 
+      message: 'Página deve ser maior que zero' 
+    }),
+  
+  limit: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : 10)
+    .refine(val => val > 0 && val <= 100, { 
+      message: 'Limite deve estar entre 1 e 100' 
+    })
+});
+
 /**
  * Enum para formatos de exportação
  */
@@ -171,7 +413,45 @@ export enum ExportFormat {
  */
 export type ReportFilters = z.infer<typeof reportFiltersSchema>;
 
+/**
+ * Interface para filtros de estatísticas com comparação
+ */
+export type ReportStatisticsFilters = z.infer<typeof reportStatisticsSchema>;
+export type StatisticsComparisonMode = typeof STATISTICS_COMPARISON_MODES[number];
+
+/**
+ * Interface para filtros da previsão de recebimentos
+ */
+export type ReceivablesForecastFilters = z.infer<typeof receivablesForecastSchema>;
+
 /**
  * Interface para parâmetros de exportação
  */
-export type ReportExportParams = z.infer<typeof reportExportSchema>; 
\ No newline at end of file
+export type ReportExportParams = z.infer<typeof reportExportSchema>; 
+/**
+ * Interface para alteração das configurações de exportação
+ */
+export type ReportExportSettingsInput = z.infer<typeof reportExportSettingsSchema>;
+
+/**
+ * Interface para listagem das exportações assíncronas
+ */
+export type ExportJobFilters = z.infer<typeof exportJobFiltersSchema>;
+
+/**
+ * Interfaces para cadastro e alteração de visão de relatório
+ */
+export type CreateReportViewInput = z.infer<typeof createReportViewSchema>;
+export type UpdateReportViewInput = z.infer<typeof updateReportViewSchema>;
+
+/**
+ * Interfaces para cadastro e alteração de relatório agendado
+ */
+export type CreateReportScheduleInput = z.infer<typeof createReportScheduleSchema>;
+export type UpdateReportScheduleInput = z.infer<typeof updateReportScheduleSchema>;
+export type ReportPeriod = typeof REPORT_PERIODS[number];
+
+/**
+ * Interface para listagem da caixa de saída de emails
+ */
+export type OutboxFilters = z.infer<typeof outboxFiltersSchema>;
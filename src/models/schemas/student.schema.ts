@@ -136,10 +136,8 @@ const studentBaseSchema = {
       message: 'Status de pagamento inválido. Deve ser: Pago, Pendente, Parcial ou Cancelado'
     }),
     
-  // Campos de cupom para o cadastro
+  // Código do cupom para o cadastro (desconto e comissão são calculados no servidor)
   couponCode: z.string().optional(),
-  discountAmount: z.number().optional(),
-  affiliateCommission: z.number().optional(),
 };
 
 /**
@@ -154,10 +152,12 @@ const createStudentBaseSchema = z.object({
   cpf: studentBaseSchema.cpf,
   courseModalityId: studentBaseSchema.courseModalityId,
   courseId: studentBaseSchema.courseId,
-  value: studentBaseSchema.value,
+  // Opcional: quando ausente, usa o preço de tabela do curso/modalidade
+  value: studentBaseSchema.value.optional(),
   paymentType: studentBaseSchema.paymentType,
   installments: studentBaseSchema.installments,
-  paymentStatus: studentBaseSchema.paymentStatus,
+  // Status inicial aplicado às parcelas (o status final é derivado delas)
+  paymentStatus: studentBaseSchema.paymentStatus.default('Pendente'),
   // Adicionar campos de data explicitamente
   paymentDate: z.union([
     z.string().optional().nullable()
@@ -244,14 +244,8 @@ const updateStudentBaseSchema = z.object({
     z.date().optional().nullable()
   ]),
   
-  // Campos de cupom para atualização
+  // Código do cupom para atualização (vazio remove o cupom do aluno)
   couponCode: z.string().optional(),
-  discountAmount: z.number().optional().or(
-    z.string().transform(val => Number.parseFloat(val.replace(',', '.')))
-  ).optional(),
-  affiliateCommission: z.number().optional().or(
-    z.string().transform(val => Number.parseFloat(val.replace(',', '.')))
-  ).optional(),
 });
 
 // Cria o schema final com validação personalizada
@@ -293,10 +287,71 @@ export const filtersSchema = z.object({
   courseType: z.string().optional(),
   courseName: z.string().optional(),
   paymentStatus: z.string().optional(),
+  
+  courseId: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : undefined)
+    .refine(val => val === undefined || (!Number.isNaN(val) && val > 0), { message: 'ID do curso deve ser maior que zero' }),
+  
+  courseModalityId: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : undefined)
+    .refine(val => val === undefined || (!Number.isNaN(val) && val > 0), { message: 'ID da modalidade de curso deve ser maior que zero' }),
+  
+  paymentType: z.string().optional()
+    .refine(val => !val || [
+      'Dinheiro', 
+      'Cartão de Crédito', 
+      'Cartão de Débito', 
+      'Boleto Bancário', 
+      'PIX', 
+      'Transferência'
+    ].includes(val), {
+      message: 'Tipo de pagamento inválido'
+    }),
+  
+  cnhType: z.string().optional()
+    .refine(val => !val || /^[A-E]{1,2}$/.test(val), { 
+      message: 'Tipo de CNH deve ser A, B, C, D, E ou combinações como AB' 
+    }),
+  
+  // Filtros de cupom: pelo ID, pelo código/nome personalizado ou apenas vendas com/sem cupom
+  couponId: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : undefined)
+    .refine(val => val === undefined || (!Number.isNaN(val) && val > 0), { message: 'ID do cupom deve ser maior que zero' }),
+  
+  couponCode: z.string().optional(),
+  
+  hasCoupon: z.enum(['true', 'false']).optional()
+    .transform(val => val === undefined ? undefined : val === 'true'),
+  
+  // Faixa de valor do curso
+  minValue: z.string().optional()
+    .transform(val => val ? Number.parseFloat(val.replace(',', '.')) : undefined)
+    .refine(val => val === undefined || (!Number.isNaN(val) && val >= 0), { 
+      message: 'Valor mínimo deve ser um número não negativo' 
+    }),
+  
+  maxValue: z.string().optional()
+    .transform(val => val ? Number.parseFloat(val.replace(',', '.')) : undefined)
+    .refine(val => val === undefined || (!Number.isNaN(val) && val >= 0), { 
+      message: 'Valor máximo deve ser um número não negativo' 
+    }),
+  
+  // Ordenação
+  sortBy: z.enum(['value', 'registrationDate', 'fullName', 'paymentStatus'], {
+    errorMap: () => ({ message: 'Campo de ordenação inválido' })
+  }).optional(),
+  
+  sortOrder: z.enum(['asc', 'desc'], {
+    errorMap: () => ({ message: 'Direção de ordenação deve ser asc ou desc' })
+  }).optional(),
   userId: z.string().optional()
     .transform(val => val ? Number.parseInt(val, 10) : undefined)
     .refine(val => !val || (val > 0), { message: 'ID do usuário deve ser maior que zero' }),
   
+  // Inclui alunos removidos (apenas administradores)
+  includeDeleted: z.enum(['true', 'false']).optional()
+    .transform(val => val === 'true'),
+  
   startDate: z.string().optional()
     .refine(val => !val || /^\d{4}-\d{2}-\d{2}$/.test(val), {
       message: 'Data inicial deve estar no formato YYYY-MM-DD'
@@ -316,4 +371,17 @@ export const filtersSchema = z.object({
       val => !val || (val instanceof Date && !Number.isNaN(val.getTime())), 
       { message: 'Data final inválida' }
     )
-}); 
\ No newline at end of file
+}); 
+/**
+ * Parâmetros de listagem de alunos (paginação, filtros e ordenação) já validados
+ */
+export type StudentListQuery = z.infer<typeof paginationSchema> & z.infer<typeof filtersSchema>;
+
+/**
+ * Schema para os parâmetros da importação de alunos
+ */
+export const studentImportQuerySchema = z.object({
+  // Apenas valida o arquivo e retorna o relatório, sem gravar os alunos
+  dryRun: z.enum(['true', 'false']).optional()
+    .transform(val => val === 'true')
+});
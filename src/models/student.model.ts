@@ -14,6 +14,8 @@ export interface Student {
   courseId: number;
   courseModalityId: number;
   value: number;
+  listPrice?: number;
+  priceOverridden: boolean;
   paymentType: string;
   installments: number;
   paymentStatus: string;
@@ -37,15 +39,13 @@ export interface CreateStudentInput {
   renach?: string;
   courseId: number;
   courseModalityId: number;
-  value: number;
+  value?: number; // Quando ausente, usa o preço de tabela
   paymentType: string;
   installments: number;
-  paymentStatus: string;
+  paymentStatus?: string; // Status inicial aplicado às parcelas (padrão: Pendente)
   paymentDate?: Date;
   paymentForecastDate?: Date;
   couponCode?: string;
-  discountAmount?: number;
-  affiliateCommission?: number;
 }
 
 // Interface para atualização de aluno
@@ -68,8 +68,6 @@ export interface UpdateStudentInput {
   paymentDate?: Date;
   paymentForecastDate?: Date;
   couponCode?: string;
-  discountAmount?: number;
-  affiliateCommission?: number;
 }
 
 // Interface para filtros de consulta de alunos
@@ -90,4 +88,33 @@ export interface PaginatedStudentsResponse {
   page: number;
   limit: number;
   totalPages: number;
-} 
\ No newline at end of file
+} 
+// Situação de uma linha na importação de alunos
+export type StudentImportRowStatus = 'valid' | 'created' | 'skipped' | 'invalid';
+
+// Problema encontrado em uma linha da importação
+export interface StudentImportRowError {
+  field?: string;
+  message: string;
+}
+
+// Resultado de uma linha da importação
+export interface StudentImportRowResult {
+  line: number; // Linha no arquivo CSV (o cabeçalho é a linha 1)
+  cpf?: string;
+  fullName?: string;
+  status: StudentImportRowStatus;
+  errors: StudentImportRowError[];
+  studentId?: number; // Preenchido apenas para linhas gravadas
+}
+
+// Relatório da importação de alunos
+export interface StudentImportReport {
+  dryRun: boolean;
+  totalRows: number;
+  valid: number;
+  created: number;
+  skipped: number;
+  invalid: number;
+  rows: StudentImportRowResult[];
+}
@@ -44,4 +44,35 @@ export interface UserResponse {
   role: Role;
   createdAt: Date;
   updatedAt: Date;
-} 
\ No newline at end of file
+}
+
+// Interface para sessão de login ativa
+export interface UserSessionResponse {
+  id: number;
+  userAgent: string | null; // Navegador/aplicativo usado no login
+  ip: string | null; // IP da última utilização
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean; // Sessão do token usado na requisição
+}
+
+// Interface para situação da verificação em duas etapas
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  required: boolean; // Obrigatória para o perfil do usuário
+  recoveryCodesRemaining: number;
+}
+
+// Interface para conta com login bloqueado ou tentativas malsucedidas recentes
+export interface LoginLockout {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+  failedLoginAttempts: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+  locked: boolean; // Bloqueio temporário em vigor
+}
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { listAuditLogs } from '../controllers/audit.controller';
+import {
+  authenticate,
+  requireAdmin
+} from '../middlewares/auth.middleware';
+import {
+  validate
+} from '../middlewares/validation.middleware';
+import { auditFiltersSchema } from '../models/schemas/audit.schema';
+
+const router = Router();
+
+// A trilha de auditoria é restrita a administradores
+router.use(authenticate, requireAdmin);
+
+router.get('/', validate(auditFiltersSchema, 'query'), listAuditLogs);
+
+export default router;
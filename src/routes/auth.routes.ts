@@ -3,14 +3,38 @@ import {
   register, 
   login, 
   refreshToken, 
+  loginTwoFactor,
   logout,
+  changePassword,
+  forgotPassword,
+  resetPassword,
   listUsersByRole,
   deleteUser,
+  restoreUser,
   getUserById,
   updateUser
 } from '../controllers/auth.controller';
+import {
+  listMySessions,
+  revokeMySession,
+  revokeAllMySessions,
+  listUserSessions,
+  forceLogoutUser
+} from '../controllers/session.controller';
+import {
+  getMyTwoFactorStatus,
+  setupTwoFactor,
+  confirmTwoFactor,
+  disableMyTwoFactor,
+  regenerateMyRecoveryCodes,
+  getTwoFactorPolicy,
+  updateTwoFactorPolicy,
+  resetUserTwoFactor
+} from '../controllers/twoFactor.controller';
+import { listLockouts, clearLockout } from '../controllers/loginLockout.controller';
 import { 
   authenticate, 
+  authenticateWithPendingAccountSetup,
   requireAdmin,
   requireProfile 
 } from '../middlewares/auth.middleware';
@@ -20,8 +44,24 @@ import {
 import { 
   registerSchema, 
   loginSchema, 
-  refreshTokenSchema 
+  refreshTokenSchema,
+  changePasswordSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  twoFactorLoginSchema,
+  twoFactorSetupSchema,
+  twoFactorCodeBodySchema,
+  twoFactorDisableSchema,
+  twoFactorPolicySchema
 } from '../models/schemas/auth.schema';
+import {
+  loginRateLimiter,
+  twoFactorLoginRateLimiter,
+  affiliateRegisterRateLimiter,
+  refreshTokenRateLimiter,
+  forgotPasswordRateLimiter,
+  resetPasswordRateLimiter
+} from '../middlewares/rateLimit.middleware';
 import { Role } from '../models/user.model';
 
 const router = Router();
@@ -30,19 +70,45 @@ const router = Router();
 router.post('/register', authenticate, requireAdmin, validate(registerSchema), register);
 
 // Rota para registro de afiliado (pública - qualquer pessoa pode se registrar como afiliado)
-router.post('/register/affiliate', validate(registerSchema), async (req, res, next) => {
+router.post('/register/affiliate', affiliateRegisterRateLimiter, validate(registerSchema), async (req, res, next) => {
   req.body.role = Role.AFFILIATE;
   next();
 }, register);
 
 // Rota para login
-router.post('/login', validate(loginSchema), login);
+router.post('/login', loginRateLimiter, validate(loginSchema), login);
+
+// Rota para concluir o login com verificação em duas etapas
+router.post('/login/2fa', twoFactorLoginRateLimiter, validate(twoFactorLoginSchema), loginTwoFactor);
 
 // Rota para renovar token
-router.post('/refresh-token', validate(refreshTokenSchema), refreshToken);
+router.post('/refresh-token', refreshTokenRateLimiter, validate(refreshTokenSchema), refreshToken);
 
 // Rota para logout
-router.post('/logout', authenticate, logout);
+router.post('/logout', authenticateWithPendingAccountSetup, logout);
+
+// Rota para troca de senha (permitida mesmo com a troca obrigatória pendente)
+router.post('/change-password', authenticateWithPendingAccountSetup, validate(changePasswordSchema), changePassword);
+
+// Rotas para redefinição de senha por email (públicas)
+router.post('/forgot-password', forgotPasswordRateLimiter, validate(forgotPasswordSchema), forgotPassword);
+router.post('/reset-password', resetPasswordRateLimiter, validate(resetPasswordSchema), resetPassword);
+
+// Rotas para verificação em duas etapas do usuário autenticado
+router.get('/2fa', authenticateWithPendingAccountSetup, getMyTwoFactorStatus);
+router.post('/2fa/setup', authenticateWithPendingAccountSetup, validate(twoFactorSetupSchema), setupTwoFactor);
+router.post('/2fa/enable', authenticateWithPendingAccountSetup, validate(twoFactorCodeBodySchema), confirmTwoFactor);
+router.post('/2fa/disable', authenticate, validate(twoFactorDisableSchema), disableMyTwoFactor);
+router.post('/2fa/recovery-codes', authenticate, validate(twoFactorCodeBodySchema), regenerateMyRecoveryCodes);
+
+// Rotas para política de verificação em duas etapas obrigatória por perfil (apenas admin)
+router.get('/2fa/policy', authenticate, requireAdmin, getTwoFactorPolicy);
+router.put('/2fa/policy', authenticate, requireAdmin, validate(twoFactorPolicySchema), updateTwoFactorPolicy);
+
+// Rotas para sessões ativas do usuário autenticado
+router.get('/sessions', authenticateWithPendingAccountSetup, listMySessions);
+router.delete('/sessions', authenticateWithPendingAccountSetup, revokeAllMySessions);
+router.delete('/sessions/:sessionId', authenticateWithPendingAccountSetup, revokeMySession);
 
 // Rota para listar usuários por perfil (apenas admin)
 router.get('/users', authenticate, requireAdmin, listUsersByRole);
@@ -56,4 +122,20 @@ router.put('/users/:id', authenticate, requireAdmin, updateUser);
 // Rota para excluir usuário (apenas admin)
 router.delete('/users/:id', authenticate, requireAdmin, deleteUser);
 
+// Rota para restaurar usuário removido (apenas admin)
+router.post('/users/:id/restore', authenticate, requireAdmin, restoreUser);
+
+// Rota para listar as sessões ativas de um usuário (apenas admin)
+router.get('/users/:id/sessions', authenticate, requireAdmin, listUserSessions);
+
+// Rota para desconectar um usuário de todas as sessões (apenas admin)
+router.post('/users/:id/logout', authenticate, requireAdmin, forceLogoutUser);
+
+// Rota para remover a verificação em duas etapas de um usuário (apenas admin)
+router.delete('/users/:id/2fa', authenticate, requireAdmin, resetUserTwoFactor);
+
+// Rotas para contas com login bloqueado por excesso de tentativas (apenas admin)
+router.get('/lockouts', authenticate, requireAdmin, listLockouts);
+router.delete('/users/:id/lockout', authenticate, requireAdmin, clearLockout);
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import {
+  listCommissionEntries,
+  listCommissionPayouts,
+  createCommissionPayout
+} from '../controllers/commission.controller';
+import {
+  authenticate,
+  requireAdmin
+} from '../middlewares/auth.middleware';
+import {
+  validate
+} from '../middlewares/validation.middleware';
+import {
+  commissionFiltersSchema,
+  commissionPayoutSchema
+} from '../models/schemas/commission.schema';
+
+const router = Router();
+
+// Todas as rotas de comissões requerem autenticação
+router.use(authenticate);
+
+// Lançamentos e repasses (não administradores veem apenas os próprios)
+router.get('/', validate(commissionFiltersSchema, 'query'), listCommissionEntries);
+router.get('/payouts', validate(commissionFiltersSchema, 'query'), listCommissionPayouts);
+
+// Apenas administradores fecham períodos e registram repasses
+router.post('/payouts', requireAdmin, validate(commissionPayoutSchema), createCommissionPayout);
+
+export default router;
@@ -7,15 +7,18 @@ import {
   specificCouponConfigSchema,
   updateCouponApplicationModeSchema,
   validateCouponSchema,
+  couponRedemptionFiltersSchema,
+  couponPeriodFiltersSchema,
 } from '../schemas/coupon.schema';
 import { authenticate, requireProfile } from '../middlewares/auth.middleware';
+import { couponValidationRateLimiter } from '../middlewares/rateLimit.middleware';
 import { Role } from '../models/user.model';
 
 const router = Router();
 
-// Rotas públicas
-router.get('/validate/:code', couponController.getCouponByCode);
-router.post('/validate', validate(validateCouponSchema), couponController.validateCoupon);
+// Rotas públicas (com limite de requisições por IP)
+router.get('/validate/:code', couponValidationRateLimiter, couponController.getCouponByCode);
+router.post('/validate', couponValidationRateLimiter, validate(validateCouponSchema), couponController.validateCoupon);
 
 // Rotas para administradores
 router.get('/', authenticate, requireProfile([Role.ADMIN]), couponController.listAllCoupons);
@@ -26,6 +29,7 @@ router.post('/config/specific', authenticate, requireProfile([Role.ADMIN]), vali
 router.get('/config/:couponId', authenticate, requireProfile([Role.ADMIN]), couponController.getCouponConfigurations);
 router.delete('/config/:configId', authenticate, requireProfile([Role.ADMIN]), couponController.deleteCouponConfiguration);
 router.patch('/status/:couponId', authenticate, requireProfile([Role.ADMIN]), couponController.toggleCouponStatus);
+router.post('/usage/rebuild', authenticate, requireProfile([Role.ADMIN]), couponController.rebuildCouponUsage);
 
 // Rotas para afiliados
 router.get('/affiliate/:userId', authenticate, couponController.getAffiliateCoupon);
@@ -34,4 +38,8 @@ router.get('/affiliate/:userId/dashboard', authenticate, couponController.getAff
 // Rotas para qualquer usuário (afiliado ou vendedor)
 router.get('/user/:userId', authenticate, couponController.getActiveUserCoupon);
 
+// Histórico e análise de uso (admin ou afiliado dono do cupom)
+router.get('/:couponId/redemptions', authenticate, validate(couponRedemptionFiltersSchema, 'query'), couponController.listCouponRedemptions);
+router.get('/:couponId/analytics', authenticate, validate(couponPeriodFiltersSchema, 'query'), couponController.getCouponAnalytics);
+
 export default router; 
\ No newline at end of file
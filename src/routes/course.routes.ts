@@ -5,11 +5,14 @@ import {
   createCourse,
   updateCourse,
   deleteCourse,
+  restoreCourse,
+  getCoursePriceHistory,
   getAllCourseModalities,
   getCourseModalityById,
   createCourseModality,
   updateCourseModality,
-  deleteCourseModality
+  deleteCourseModality,
+  restoreCourseModality
 } from '../controllers/course.controller';
 import { authenticate, requireAdmin } from '../middlewares/auth.middleware';
 
@@ -21,12 +24,15 @@ router.get('/course-modalities/:id', authenticate, getCourseModalityById);
 router.post('/course-modalities', authenticate, requireAdmin, createCourseModality);
 router.put('/course-modalities/:id', authenticate, requireAdmin, updateCourseModality);
 router.delete('/course-modalities/:id', authenticate, requireAdmin, deleteCourseModality);
+router.post('/course-modalities/:id/restore', authenticate, requireAdmin, restoreCourseModality);
 
 // Rotas para cursos (exigem autenticação de admin para criar, atualizar e excluir)
 router.get('/courses', authenticate, getAllCourses);
 router.get('/courses/:id', authenticate, getCourseById);
+router.get('/courses/:id/prices', authenticate, getCoursePriceHistory);
 router.post('/courses', authenticate, requireAdmin, createCourse);
 router.put('/courses/:id', authenticate, requireAdmin, updateCourse);
 router.delete('/courses/:id', authenticate, requireAdmin, deleteCourse);
+router.post('/courses/:id/restore', authenticate, requireAdmin, restoreCourse);
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import {
+  listSellerGoals,
+  saveSellerGoal,
+  deleteSellerGoal,
+  getRanking,
+  getMyProgress
+} from '../controllers/goal.controller';
+import {
+  authenticate,
+  requireAdmin,
+  requireProfile
+} from '../middlewares/auth.middleware';
+import {
+  validate
+} from '../middlewares/validation.middleware';
+import {
+  sellerGoalSchema,
+  goalPeriodSchema,
+  goalFiltersSchema
+} from '../models/schemas/goal.schema';
+import { Role } from '../models/user.model';
+
+const router = Router();
+
+// Todas as rotas de metas requerem autenticação
+router.use(authenticate);
+
+// Progresso do próprio vendedor/afiliado no mês
+router.get('/me', requireProfile([Role.SELLER, Role.AFFILIATE]), validate(goalPeriodSchema, 'query'), getMyProgress);
+
+// Ranking e cadastro de metas (apenas administradores)
+router.get('/ranking', requireAdmin, validate(goalPeriodSchema, 'query'), getRanking);
+router.get('/', requireAdmin, validate(goalFiltersSchema, 'query'), listSellerGoals);
+router.put('/', requireAdmin, validate(sellerGoalSchema), saveSellerGoal);
+router.delete('/:goalId', requireAdmin, deleteSellerGoal);
+
+export default router;
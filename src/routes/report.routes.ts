@@ -1,19 +1,54 @@
 import { Router } from 'express';
+import { Role } from '../models/user.model';
 import { 
   generateReport, 
   generateStatistics, 
-  exportReport 
+  generateReceivablesForecast,
+  exportReport,
+  getExportSettings,
+  updateExportSettings,
+  createExportJob,
+  listExportJobs,
+  getExportJob,
+  downloadExportJob
 } from '../controllers/report.controller';
+import {
+  listReportSchedules,
+  getReportSchedule,
+  createReportSchedule,
+  updateReportSchedule,
+  deleteReportSchedule,
+  runReportScheduleNow,
+  listOutboxMessages
+} from '../controllers/reportSchedule.controller';
+import {
+  listReportViews,
+  getReportView,
+  createReportView,
+  updateReportView,
+  deleteReportView
+} from '../controllers/reportView.controller';
 import { 
   authenticate, 
-  requireAdmin 
+  requireAdmin,
+  requireProfile
 } from '../middlewares/auth.middleware';
 import { 
   validate 
 } from '../middlewares/validation.middleware';
+import { applyReportView } from '../middlewares/reportView.middleware';
 import { 
   reportFiltersSchema,
-  reportExportSchema
+  reportStatisticsSchema,
+  receivablesForecastSchema,
+  reportExportSchema,
+  reportExportSettingsSchema,
+  exportJobFiltersSchema,
+  createReportScheduleSchema,
+  updateReportScheduleSchema,
+  outboxFiltersSchema,
+  createReportViewSchema,
+  updateReportViewSchema
 } from '../models/schemas/report.schema';
 
 const router = Router();
@@ -21,13 +56,44 @@ const router = Router();
 // Todas as rotas de relatórios requerem autenticação
 router.use(authenticate);
 
-// Rota para geração de relatórios com filtros avançados
-router.get('/', validate(reportFiltersSchema, 'query'), generateReport);
+// Rota para geração de relatórios com filtros avançados (aceita ?viewId= com os filtros de uma visão salva)
+router.get('/', applyReportView, validate(reportFiltersSchema, 'query'), generateReport);
 
-// Rota para geração de estatísticas
-router.get('/statistics', validate(reportFiltersSchema, 'query'), generateStatistics);
+// Rota para geração de estatísticas (com ?compareTo= compara com outro período)
+router.get('/statistics', applyReportView, validate(reportStatisticsSchema, 'query'), generateStatistics);
+
+// Previsão de recebimentos das parcelas em aberto (vendedores veem apenas as próprias vendas)
+router.get('/receivables', requireProfile([Role.SELLER]), validate(receivablesForecastSchema, 'query'), generateReceivablesForecast);
 
 // Rota para exportação de relatórios
-router.get('/export', validate(reportExportSchema, 'query'), exportReport);
+router.get('/export', applyReportView, validate(reportExportSchema, 'query'), exportReport);
+
+// Limite de linhas das exportações (apenas administradores)
+router.get('/export/settings', requireAdmin, getExportSettings);
+router.put('/export/settings', requireAdmin, validate(reportExportSettingsSchema), updateExportSettings);
+
+// Exportações assíncronas: solicitação, acompanhamento e download do arquivo gerado
+router.post('/export/jobs', applyReportView, validate(reportExportSchema, 'query'), createExportJob);
+router.get('/export/jobs', validate(exportJobFiltersSchema, 'query'), listExportJobs);
+router.get('/export/jobs/:jobId', getExportJob);
+router.get('/export/jobs/:jobId/download', downloadExportJob);
+
+// Visões salvas de filtros (as publicadas por administradores ficam disponíveis para todos)
+router.get('/views', listReportViews);
+router.post('/views', validate(createReportViewSchema), createReportView);
+router.get('/views/:viewId', getReportView);
+router.put('/views/:viewId', validate(updateReportViewSchema), updateReportView);
+router.delete('/views/:viewId', deleteReportView);
+
+// Relatórios agendados enviados por email (vendedores gerenciam os próprios, administradores todos)
+router.get('/schedules', requireProfile([Role.SELLER]), listReportSchedules);
+router.post('/schedules', requireProfile([Role.SELLER]), validate(createReportScheduleSchema), createReportSchedule);
+router.get('/schedules/:scheduleId', requireProfile([Role.SELLER]), getReportSchedule);
+router.put('/schedules/:scheduleId', requireProfile([Role.SELLER]), validate(updateReportScheduleSchema), updateReportSchedule);
+router.delete('/schedules/:scheduleId', requireProfile([Role.SELLER]), deleteReportSchedule);
+router.post('/schedules/:scheduleId/run', requireProfile([Role.SELLER]), runReportScheduleNow);
+
+// Caixa de saída dos emails (apenas administradores)
+router.get('/outbox', requireAdmin, validate(outboxFiltersSchema, 'query'), listOutboxMessages);
 
 export default router; 
\ No newline at end of file
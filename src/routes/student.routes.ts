@@ -4,8 +4,15 @@ import {
   getStudents, 
   getStudentById, 
   updateStudent, 
-  deleteStudent 
+  deleteStudent,
+  restoreStudent,
+  importStudents
 } from '../controllers/student.controller';
+import {
+  getInstallments,
+  payInstallment,
+  clearInstallmentPaymentHandler
+} from '../controllers/installment.controller';
 import { 
   authenticate, 
   requireAdmin,
@@ -14,12 +21,15 @@ import {
 import { 
   validate 
 } from '../middlewares/validation.middleware';
+import { uploadCsv } from '../middlewares/upload.middleware';
 import { 
   createStudentSchema, 
   updateStudentSchema, 
   paginationSchema, 
-  filtersSchema 
+  filtersSchema,
+  studentImportQuerySchema
 } from '../models/schemas/student.schema';
+import { installmentPaymentSchema } from '../models/schemas/installment.schema';
 import { Role } from '../models/user.model';
 
 const router = Router();
@@ -31,8 +41,11 @@ router.use(authenticate);
 // Apenas vendedores podem criar alunos
 router.post('/', requireProfile([Role.SELLER]), validate(createStudentSchema), createStudent);
 
+// Importação em lote a partir de CSV (dryRun=true apenas valida)
+router.post('/import', requireProfile([Role.SELLER]), validate(studentImportQuerySchema, 'query'), uploadCsv(), importStudents);
+
 // Vendedores e afiliados podem listar alunos (com filtragem por usuário no controller)
-router.get('/', validate(paginationSchema, 'query'), validate(filtersSchema, 'query'), getStudents);
+router.get('/', validate(paginationSchema.merge(filtersSchema), 'query'), getStudents);
 
 // Vendedores e afiliados podem ver detalhes de alunos (com verificação de propriedade no controller)
 router.get('/:id', getStudentById);
@@ -40,7 +53,15 @@ router.get('/:id', getStudentById);
 // Apenas vendedores podem atualizar alunos
 router.put('/:id', requireProfile([Role.SELLER]), validate(updateStudentSchema), updateStudent);
 
-// Apenas administradores podem excluir alunos
+// Apenas administradores podem excluir e restaurar alunos
 router.delete('/:id', requireAdmin, deleteStudent);
+router.post('/:id/restore', requireAdmin, restoreStudent);
+
+// Parcelas do aluno (com verificação de propriedade no controller)
+router.get('/:id/installments', getInstallments);
+
+// Apenas vendedores podem registrar ou desfazer pagamentos de parcelas
+router.post('/:id/installments/:installmentId/payments', requireProfile([Role.SELLER]), validate(installmentPaymentSchema), payInstallment);
+router.delete('/:id/installments/:installmentId/payments', requireProfile([Role.SELLER]), clearInstallmentPaymentHandler);
 
 export default router; 
\ No newline at end of file
@@ -108,4 +108,42 @@ export const validateCouponSchema = z.object({
   courseId: z.number().int().positive({ message: 'ID de curso inválido' }),
   courseModalityId: z.number().int().positive({ message: 'ID de modalidade inválido' }),
   value: z.number().positive({ message: 'Valor deve ser positivo' }),
-}); 
\ No newline at end of file
+}); 
+// Data opcional no formato YYYY-MM-DD recebida como parâmetro de consulta
+const optionalQueryDate = (label: string) => z.string()
+  .optional()
+  .refine(val => !val || /^\d{4}-\d{2}-\d{2}$/.test(val), {
+    message: `${label} deve estar no formato YYYY-MM-DD`
+  })
+  .transform(val => val ? new Date(val) : undefined)
+  .refine(val => !val || !Number.isNaN(val.getTime()), { message: `${label} inválida` });
+
+// Schema para filtros de período das consultas de uso do cupom
+export const couponPeriodFiltersSchema = z.object({
+  startDate: optionalQueryDate('Data inicial'),
+  endDate: optionalQueryDate('Data final'),
+}).refine(
+  data => !data.startDate || !data.endDate || data.startDate <= data.endDate,
+  { message: 'A data inicial deve ser anterior ou igual à data final', path: ['startDate'] }
+);
+
+// Schema para listagem paginada dos usos do cupom
+export const couponRedemptionFiltersSchema = z.object({
+  startDate: optionalQueryDate('Data inicial'),
+  endDate: optionalQueryDate('Data final'),
+  status: z.enum(['active', 'released'], {
+    errorMap: () => ({ message: 'Status deve ser active ou released' })
+  }).optional(),
+  page: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : 1)
+    .refine(val => !Number.isNaN(val) && val > 0, { message: 'Página deve ser maior que zero' }),
+  limit: z.string().optional()
+    .transform(val => val ? Number.parseInt(val, 10) : 20)
+    .refine(val => !Number.isNaN(val) && val > 0 && val <= 100, { message: 'Limite deve estar entre 1 e 100' }),
+}).refine(
+  data => !data.startDate || !data.endDate || data.startDate <= data.endDate,
+  { message: 'A data inicial deve ser anterior ou igual à data final', path: ['startDate'] }
+);
+
+export type CouponPeriodFilters = z.infer<typeof couponPeriodFiltersSchema>;
+export type CouponRedemptionFilters = z.infer<typeof couponRedemptionFiltersSchema>;
@@ -0,0 +1,127 @@
+import type { Request } from 'express';
+import { AuditAction } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import type { AuditActor, AuditEvent, AuditFieldChange, AuditSnapshot } from '../models/audit.model';
+
+// Campos que nunca são gravados na auditoria; apenas a alteração é sinalizada
+const SENSITIVE_FIELDS = new Set(['password', 'twoFactorSecret']);
+const REDACTED_VALUE = '[PROTEGIDO]';
+
+// Campos que mudam a cada gravação e não representam alteração de negócio
+const IGNORED_FIELDS = new Set(['updatedAt', 'twoFactorLastCounter', 'failedLoginAttempts', 'lastFailedLoginAt', 'lockedUntil']);
+
+/**
+ * Usuário autenticado responsável pela requisição
+ */
+export const getAuditActor = (req: Request): AuditActor | undefined =>
+  req.user ? { userId: req.user.userId, email: req.user.email } : undefined;
+
+/**
+ * Serializa um registro para a auditoria: mantém campos simples (datas em ISO)
+ * e descarta relações carregadas via include
+ */
+export const toAuditSnapshot = (record: object | null | undefined): AuditSnapshot | null => {
+  if (!record) {
+    return null;
+  }
+
+  const snapshot: AuditSnapshot = {};
+
+  for (const [field, value] of Object.entries(record)) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+
+    if (value instanceof Date) {
+      snapshot[field] = value.toISOString();
+    } else if (Array.isArray(value)) {
+      // Listas de valores simples (ex: IDs) são mantidas; listas de relações são descartadas
+      if (value.every(item => item === null || typeof item !== 'object')) {
+        snapshot[field] = value;
+      }
+    } else if (value === null || typeof value !== 'object') {
+      snapshot[field] = value;
+    }
+  }
+
+  return snapshot;
+};
+
+/**
+ * Substitui o valor de campos sensíveis, mantendo apenas a indicação de que existem
+ */
+const redactSnapshot = <T extends Record<string, unknown>>(snapshot: T | null): T | null => {
+  if (!snapshot) {
+    return null;
+  }
+
+  const redacted: Record<string, unknown> = { ...snapshot };
+  for (const field of Object.keys(redacted)) {
+    if (SENSITIVE_FIELDS.has(field)) {
+      redacted[field] = REDACTED_VALUE;
+    }
+  }
+
+  return redacted as T;
+};
+
+/**
+ * Lista os campos que mudaram entre dois estados
+ */
+export const diffSnapshots = (
+  before: AuditSnapshot | null,
+  after: AuditSnapshot | null
+): Record<string, AuditFieldChange> => {
+  const changes: Record<string, AuditFieldChange> = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    const previous = before?.[field] ?? null;
+    const current = after?.[field] ?? null;
+
+    if (JSON.stringify(previous) !== JSON.stringify(current)) {
+      changes[field] = { before: previous, after: current };
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Registra uma alteração na trilha de auditoria.
+ * Deve receber o cliente da transação da alteração para que ambos sejam gravados juntos.
+ */
+export const recordAudit = async (
+  client: Prisma.TransactionClient,
+  actor: AuditActor | undefined,
+  event: AuditEvent
+): Promise<void> => {
+  const before = toAuditSnapshot(event.before);
+  const after = toAuditSnapshot(event.after);
+
+  // A comparação usa os valores reais; só depois os campos sensíveis são protegidos
+  const changes = diffSnapshots(before, after);
+  for (const field of Object.keys(changes)) {
+    if (SENSITIVE_FIELDS.has(field)) {
+      changes[field] = { before: REDACTED_VALUE, after: REDACTED_VALUE };
+    }
+  }
+
+  // Atualizações sem mudança efetiva não geram registro
+  if (event.action === AuditAction.UPDATE && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  await client.auditLog.create({
+    data: {
+      actorId: actor?.userId ?? null,
+      actorEmail: actor?.email ?? null,
+      entity: event.entity,
+      entityId: event.entityId,
+      action: event.action,
+      before: (redactSnapshot(before) ?? undefined) as Prisma.InputJsonObject | undefined,
+      after: (redactSnapshot(after) ?? undefined) as Prisma.InputJsonObject | undefined,
+      changes: event.action === AuditAction.UPDATE ? changes as Prisma.InputJsonObject : undefined
+    }
+  });
+};
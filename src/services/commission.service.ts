@@ -0,0 +1,288 @@
+import { PrismaClient, CommissionStatus, CommissionEntryType } from '@prisma/client';
+import type { CommissionEntry, CommissionPayout, Prisma, Student } from '@prisma/client';
+import type { CommissionPayoutInput, CommissionTotals } from '../models/commission.model';
+import { PaymentStatus } from '../models/installment.model';
+import { AppError } from '../utils/errorHandler';
+import { endOfDayExclusive } from '../utils/date';
+
+const prisma = new PrismaClient();
+
+// Lançamentos que ainda podem ser ajustados (não repassados nem estornados)
+const OPEN_STATUSES: CommissionStatus[] = [CommissionStatus.PENDING, CommissionStatus.APPROVED];
+
+/**
+ * Arredonda um valor monetário para duas casas decimais
+ */
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Tolerância para comparação de valores monetários
+const CENT_TOLERANCE = 0.005;
+
+// Motivos registrados nos lançamentos de ajuste e estorno
+export const CommissionReason = {
+  SALE_CANCELLED: 'Venda cancelada',
+  SALE_DELETED: 'Aluno excluído',
+  COUPON_REMOVED: 'Cupom removido da venda',
+  COUPON_CHANGED: 'Cupom alterado',
+  AMOUNT_CHANGED: 'Valor da comissão alterado'
+} as const;
+
+type SaleWithCoupon = Student & { coupon: { userId: number | null } | null };
+
+/**
+ * Ajusta os lançamentos de um afiliado em uma venda para que o total devido seja `owed`.
+ * Lançamentos em aberto são corrigidos ou anulados; valores já repassados geram complemento ou estorno.
+ */
+const reconcileAffiliateCommission = async (
+  client: Prisma.TransactionClient,
+  student: SaleWithCoupon,
+  entries: CommissionEntry[],
+  affiliateId: number,
+  owed: number,
+  reason: string
+): Promise<void> => {
+  const now = new Date();
+  const settled = entries
+    .filter(entry => entry.status === CommissionStatus.PAID)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  const openEntries = entries.filter(entry => OPEN_STATUSES.includes(entry.status));
+  const remaining = roundCurrency(owed - settled);
+  const hasBalance = Math.abs(remaining) > CENT_TOLERANCE;
+
+  // Um único lançamento em aberto com o mesmo sinal do saldo é corrigido no lugar
+  const [current, ...others] = openEntries;
+  const reusable = current !== undefined
+    && others.length === 0
+    && hasBalance
+    && Math.sign(current.amount) === Math.sign(remaining);
+
+  if (!reusable && openEntries.length > 0) {
+    await client.commissionEntry.updateMany({
+      where: { id: { in: openEntries.map(entry => entry.id) } },
+      data: { status: CommissionStatus.REVERSED, reason, reversedAt: now }
+    });
+  }
+
+  if (!hasBalance) {
+    return;
+  }
+
+  // Estornos são descontados no próximo repasse; comissões positivas aguardam a quitação da venda
+  const approved = remaining < 0 || student.paymentStatus === PaymentStatus.PAID;
+  const status = approved ? CommissionStatus.APPROVED : CommissionStatus.PENDING;
+
+  if (reusable) {
+    if (current.amount !== remaining || current.status !== status) {
+      await client.commissionEntry.update({
+        where: { id: current.id },
+        data: {
+          amount: remaining,
+          status,
+          approvedAt: approved ? current.approvedAt ?? now : null,
+          ...(current.type !== CommissionEntryType.SALE && { reason })
+        }
+      });
+    }
+    return;
+  }
+
+  const type = remaining < 0
+    ? CommissionEntryType.REVERSAL
+    : entries.length === 0 ? CommissionEntryType.SALE : CommissionEntryType.ADJUSTMENT;
+
+  await client.commissionEntry.create({
+    data: {
+      studentId: student.id,
+      couponId: remaining < 0 ? entries[0]?.couponId ?? null : student.couponId,
+      affiliateId,
+      type,
+      amount: remaining,
+      status,
+      saleDate: type === CommissionEntryType.SALE ? student.registrationDate : now,
+      reason: type === CommissionEntryType.SALE ? null : reason,
+      approvedAt: approved ? now : null
+    }
+  });
+};
+
+/**
+ * Mantém os lançamentos de comissão da venda alinhados com o cupom, a comissão e o pagamento do aluno.
+ * A comissão é aprovada quando a venda é quitada. Cancelamento, exclusão ou troca de cupom
+ * anulam o que não foi repassado e estornam o que já foi pago ao afiliado.
+ */
+export const syncSaleCommission = async (
+  client: Prisma.TransactionClient,
+  studentId: number
+): Promise<void> => {
+  const student = await client.student.findUniqueOrThrow({
+    where: { id: studentId },
+    include: { coupon: { select: { userId: true } } }
+  });
+
+  const entries = await client.commissionEntry.findMany({
+    where: { studentId, status: { not: CommissionStatus.REVERSED } },
+    orderBy: { id: 'asc' }
+  });
+
+  const affiliateId = student.coupon?.userId ?? null;
+  const amount = student.affiliateCommission ?? 0;
+  const cancelled = student.paymentStatus === PaymentStatus.CANCELLED;
+  const removal = student.deletedAt ? CommissionReason.SALE_DELETED : undefined;
+  const target = removal === undefined && !cancelled && affiliateId !== null && amount > 0
+    ? { affiliateId, amount }
+    : null;
+
+  const affiliateIds = new Set(entries.map(entry => entry.affiliateId));
+  if (target) {
+    affiliateIds.add(target.affiliateId);
+  }
+
+  for (const currentAffiliateId of affiliateIds) {
+    const isTarget = target?.affiliateId === currentAffiliateId;
+    const reason = isTarget
+      ? CommissionReason.AMOUNT_CHANGED
+      : target
+        ? CommissionReason.COUPON_CHANGED
+        : removal ?? (cancelled ? CommissionReason.SALE_CANCELLED : CommissionReason.COUPON_REMOVED);
+
+    await reconcileAffiliateCommission(
+      client,
+      student,
+      entries.filter(entry => entry.affiliateId === currentAffiliateId),
+      currentAffiliateId,
+      isTarget ? target.amount : 0,
+      reason
+    );
+  }
+};
+
+/**
+ * Soma as comissões de um afiliado por situação, a partir do livro de lançamentos
+ */
+export const getAffiliateCommissionTotals = async (affiliateId: number): Promise<CommissionTotals> => {
+  const [grouped, lastPayout] = await Promise.all([
+    prisma.commissionEntry.groupBy({
+      by: ['status'],
+      where: { affiliateId },
+      _sum: { amount: true }
+    }),
+    prisma.commissionPayout.findFirst({
+      where: { affiliateId },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true }
+    })
+  ]);
+
+  const sumOf = (status: CommissionStatus): number =>
+    roundCurrency(grouped.find(group => group.status === status)?._sum.amount ?? 0);
+
+  return {
+    pending: sumOf(CommissionStatus.PENDING),
+    approved: sumOf(CommissionStatus.APPROVED),
+    paid: sumOf(CommissionStatus.PAID),
+    lastPaymentDate: lastPayout?.createdAt ?? null
+  };
+};
+
+/**
+ * Comissão efetiva de cada venda, a partir do livro de lançamentos
+ * (lançamentos anulados ficam de fora; complementos e estornos são somados)
+ */
+export const getSaleCommissionTotals = async (where: Prisma.StudentWhereInput): Promise<Map<number, number>> => {
+  const grouped = await prisma.commissionEntry.groupBy({
+    by: ['studentId'],
+    where: { student: where, status: { not: CommissionStatus.REVERSED } },
+    _sum: { amount: true }
+  });
+
+  return new Map(grouped
+    .filter((group): group is typeof group & { studentId: number } => group.studentId !== null)
+    .map(group => [group.studentId, roundCurrency(group._sum.amount ?? 0)]));
+};
+
+/**
+ * Fecha o período de um afiliado: agrupa as comissões aprovadas (descontando estornos) em um repasse
+ * e as marca como pagas
+ */
+export const closeCommissionPayout = async (
+  client: Prisma.TransactionClient,
+  input: CommissionPayoutInput,
+  createdById?: number
+): Promise<CommissionPayout> => {
+  const affiliate = await client.user.findUnique({ where: { id: input.affiliateId } });
+
+  if (!affiliate) {
+    throw new AppError('O afiliado especificado não existe', 404, 'affiliateId', 'USER_NOT_FOUND');
+  }
+
+  const entries = await client.commissionEntry.findMany({
+    where: {
+      affiliateId: input.affiliateId,
+      status: CommissionStatus.APPROVED,
+      payoutId: null,
+      saleDate: {
+        ...(input.periodStart && { gte: input.periodStart }),
+        lt: endOfDayExclusive(input.periodEnd)
+      }
+    }
+  });
+
+  if (entries.length === 0) {
+    throw new AppError(
+      'Não há comissões aprovadas para repasse neste período',
+      400,
+      'periodEnd',
+      'NO_COMMISSIONS_TO_PAY'
+    );
+  }
+
+  const totalAmount = roundCurrency(entries.reduce((sum, entry) => sum + entry.amount, 0));
+
+  // Estornos aprovados podem superar as comissões do período; o saldo fica para o próximo repasse
+  if (totalAmount <= 0) {
+    throw new AppError(
+      'O saldo de comissões aprovadas do período não é positivo, pois há estornos a descontar',
+      400,
+      'periodEnd',
+      'NON_POSITIVE_PAYOUT'
+    );
+  }
+
+  const paidAt = new Date();
+  const payout = await client.commissionPayout.create({
+    data: {
+      affiliateId: input.affiliateId,
+      periodStart: input.periodStart ?? null,
+      periodEnd: input.periodEnd,
+      totalAmount,
+      reference: input.reference,
+      notes: input.notes ?? null,
+      createdById: createdById ?? null
+    }
+  });
+
+  // Só marca lançamentos que continuam aprovados; outro repasse simultâneo invalida este
+  const { count } = await client.commissionEntry.updateMany({
+    where: {
+      id: { in: entries.map(entry => entry.id) },
+      status: CommissionStatus.APPROVED,
+      payoutId: null
+    },
+    data: {
+      status: CommissionStatus.PAID,
+      paidAt,
+      payoutId: payout.id
+    }
+  });
+
+  if (count !== entries.length) {
+    throw new AppError(
+      'As comissões do período foram alteradas durante o fechamento. Tente novamente.',
+      409,
+      undefined,
+      'PAYOUT_CONFLICT'
+    );
+  }
+
+  return payout;
+};
@@ -0,0 +1,247 @@
+import type { CouponRedemption, Prisma, Student } from '@prisma/client';
+import type { CouponAnalytics, CouponUsageBucket, CouponUsageCorrection, CouponUsageTotals } from '../models/coupon.model';
+import type { CouponPeriodFilters } from '../schemas/coupon.schema';
+import { AppError } from '../utils/errorHandler';
+import { endOfDayExclusive } from '../utils/date';
+
+/**
+ * Reserva um uso do cupom e registra o uso da venda.
+ * O incremento só acontece se o cupom estiver ativo e abaixo do limite, em uma única instrução,
+ * o que impede que vendas simultâneas ultrapassem o limite de uso.
+ */
+export const redeemCoupon = async (
+  client: Prisma.TransactionClient,
+  student: Pick<Student, 'id' | 'couponId' | 'userId' | 'discountAmount' | 'affiliateCommission'>
+): Promise<CouponRedemption> => {
+  if (!student.couponId) {
+    throw new AppError('A venda não possui cupom para registrar', 400, 'couponCode', 'COUPON_REQUIRED');
+  }
+
+  const reserved = await client.$executeRaw`
+    UPDATE "Coupon"
+    SET "usageCount" = "usageCount" + 1, "updatedAt" = CURRENT_TIMESTAMP
+    WHERE "id" = ${student.couponId}
+      AND "active" = true
+      AND ("usageLimit" IS NULL OR "usageCount" < "usageLimit")
+  `;
+
+  if (reserved === 0) {
+    throw new AppError(
+      'Este cupom já atingiu seu limite máximo de uso ou foi desativado',
+      400,
+      'couponCode',
+      'COUPON_USAGE_LIMIT_REACHED'
+    );
+  }
+
+  return client.couponRedemption.create({
+    data: {
+      couponId: student.couponId,
+      studentId: student.id,
+      sellerId: student.userId,
+      discountAmount: student.discountAmount ?? 0,
+      commissionAmount: student.affiliateCommission ?? 0
+    }
+  });
+};
+
+/**
+ * Libera um uso do cupom (troca de cupom ou remoção da venda)
+ */
+const releaseRedemption = async (
+  client: Prisma.TransactionClient,
+  redemption: CouponRedemption
+): Promise<void> => {
+  await client.couponRedemption.update({
+    where: { id: redemption.id },
+    data: { releasedAt: new Date() }
+  });
+
+  await client.$executeRaw`
+    UPDATE "Coupon"
+    SET "usageCount" = GREATEST("usageCount" - 1, 0), "updatedAt" = CURRENT_TIMESTAMP
+    WHERE "id" = ${redemption.couponId}
+  `;
+};
+
+/**
+ * Mantém o uso de cupom da venda alinhado com o cupom atual do aluno:
+ * libera o uso anterior quando o cupom muda ou a venda é removida, reserva o novo
+ * e atualiza desconto e comissão registrados quando o cupom é o mesmo.
+ */
+export const syncCouponRedemption = async (
+  client: Prisma.TransactionClient,
+  student: Student
+): Promise<void> => {
+  const active = await client.couponRedemption.findFirst({
+    where: { studentId: student.id, releasedAt: null },
+    orderBy: { id: 'desc' }
+  });
+
+  const couponId = student.deletedAt ? null : student.couponId;
+
+  if (active && active.couponId === couponId) {
+    const discountAmount = student.discountAmount ?? 0;
+    const commissionAmount = student.affiliateCommission ?? 0;
+
+    if (active.discountAmount !== discountAmount || active.commissionAmount !== commissionAmount) {
+      await client.couponRedemption.update({
+        where: { id: active.id },
+        data: { discountAmount, commissionAmount }
+      });
+    }
+    return;
+  }
+
+  if (active) {
+    await releaseRedemption(client, active);
+  }
+
+  if (couponId) {
+    await redeemCoupon(client, student);
+  }
+};
+
+/**
+ * Recalcula os contadores de uso a partir dos usos ativos registrados.
+ * Retorna os cupons cujo contador estava divergente.
+ */
+export const rebuildCouponUsageCounts = async (
+  client: Prisma.TransactionClient
+): Promise<CouponUsageCorrection[]> => {
+  const [coupons, activeCounts] = await Promise.all([
+    client.coupon.findMany({ select: { id: true, code: true, usageCount: true } }),
+    client.couponRedemption.groupBy({
+      by: ['couponId'],
+      where: { releasedAt: null },
+      _count: { _all: true }
+    })
+  ]);
+
+  const countByCoupon = new Map(activeCounts.map(group => [group.couponId, group._count._all]));
+  const corrections: CouponUsageCorrection[] = [];
+
+  for (const coupon of coupons) {
+    const usageCount = countByCoupon.get(coupon.id) ?? 0;
+
+    if (usageCount !== coupon.usageCount) {
+      await client.coupon.update({
+        where: { id: coupon.id },
+        data: { usageCount }
+      });
+      corrections.push({ couponId: coupon.id, code: coupon.code, previousCount: coupon.usageCount, usageCount });
+    }
+  }
+
+  return corrections;
+};
+
+/**
+ * Filtro de data de uso para as consultas de histórico e análise do cupom
+ */
+export const buildRedemptionDateFilter = (filters: CouponPeriodFilters): Prisma.DateTimeFilter | undefined => {
+  if (!filters.startDate && !filters.endDate) {
+    return undefined;
+  }
+
+  return {
+    ...(filters.startDate && { gte: filters.startDate }),
+    ...(filters.endDate && { lt: endOfDayExclusive(filters.endDate) })
+  };
+};
+
+/**
+ * Arredonda um valor monetário para duas casas decimais
+ */
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const emptyTotals = (): CouponUsageTotals => ({
+  redemptions: 0,
+  saleValue: 0,
+  discountAmount: 0,
+  commissionAmount: 0,
+  netValue: 0
+});
+
+/**
+ * Soma um uso nos totais informados
+ */
+const addToTotals = (totals: CouponUsageTotals, saleValue: number, discountAmount: number, commissionAmount: number): void => {
+  totals.redemptions += 1;
+  totals.saleValue = roundCurrency(totals.saleValue + saleValue);
+  totals.discountAmount = roundCurrency(totals.discountAmount + discountAmount);
+  totals.commissionAmount = roundCurrency(totals.commissionAmount + commissionAmount);
+  totals.netValue = roundCurrency(totals.saleValue - totals.discountAmount);
+};
+
+/**
+ * Soma um uso no agrupamento da chave informada, criando-o se necessário
+ */
+const addToBucket = (
+  buckets: Map<string | number, CouponUsageBucket>,
+  key: string | number,
+  label: string,
+  saleValue: number,
+  discountAmount: number,
+  commissionAmount: number
+): void => {
+  const bucket = buckets.get(key) ?? { key, label, ...emptyTotals() };
+  addToTotals(bucket, saleValue, discountAmount, commissionAmount);
+  buckets.set(key, bucket);
+};
+
+/**
+ * Consolida os usos ativos de um cupom no período, com totais por curso, modalidade e mês.
+ * Usos liberados (troca de cupom ou venda removida) não entram na análise.
+ */
+export const getCouponAnalytics = async (
+  client: Prisma.TransactionClient,
+  couponId: number,
+  filters: CouponPeriodFilters
+): Promise<CouponAnalytics> => {
+  const redemptions = await client.couponRedemption.findMany({
+    where: {
+      couponId,
+      releasedAt: null,
+      redeemedAt: buildRedemptionDateFilter(filters)
+    },
+    include: {
+      student: {
+        select: {
+          value: true,
+          course: { select: { id: true, name: true } },
+          courseModality: { select: { id: true, name: true } }
+        }
+      }
+    },
+    orderBy: { redeemedAt: 'asc' }
+  });
+
+  const totals = emptyTotals();
+  const byCourse = new Map<string | number, CouponUsageBucket>();
+  const byModality = new Map<string | number, CouponUsageBucket>();
+  const byMonth = new Map<string | number, CouponUsageBucket>();
+
+  for (const redemption of redemptions) {
+    const { student, discountAmount, commissionAmount } = redemption;
+    const saleValue = student?.value ?? 0;
+    const month = redemption.redeemedAt.toISOString().slice(0, 7);
+
+    addToTotals(totals, saleValue, discountAmount, commissionAmount);
+    addToBucket(byMonth, month, month, saleValue, discountAmount, commissionAmount);
+
+    if (student) {
+      addToBucket(byCourse, student.course.id, student.course.name, saleValue, discountAmount, commissionAmount);
+      addToBucket(byModality, student.courseModality.id, student.courseModality.name, saleValue, discountAmount, commissionAmount);
+    }
+  }
+
+  return {
+    couponId,
+    period: { startDate: filters.startDate ?? null, endDate: filters.endDate ?? null },
+    totals,
+    byCourse: [...byCourse.values()].sort((a, b) => b.redemptions - a.redemptions),
+    byModality: [...byModality.values()].sort((a, b) => b.redemptions - a.redemptions),
+    byMonth: [...byMonth.values()]
+  };
+};
@@ -0,0 +1,88 @@
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import type { CoursePriceInput, ResolvedStudentPrice } from '../models/course.model';
+import { AppError } from '../utils/errorHandler';
+
+const prisma = new PrismaClient();
+
+/**
+ * Busca o preço de tabela vigente de um curso em uma modalidade na data informada
+ */
+export const getListPrice = async (
+  courseId: number,
+  courseModalityId: number,
+  at: Date = new Date(),
+  client: Prisma.TransactionClient = prisma
+): Promise<number | null> => {
+  const coursePrice = await client.coursePrice.findFirst({
+    where: {
+      courseId,
+      courseModalityId,
+      effectiveFrom: { lte: at }
+    },
+    orderBy: [{ effectiveFrom: 'desc' }, { id: 'desc' }]
+  });
+
+  return coursePrice ? coursePrice.price : null;
+};
+
+/**
+ * Registra novos preços de tabela no histórico.
+ * Preços iguais ao já vigente na data de início são ignorados para não poluir o histórico.
+ */
+export const recordListPrices = async (
+  client: Prisma.TransactionClient,
+  courseId: number,
+  prices: CoursePriceInput[],
+  userId?: number
+): Promise<void> => {
+  for (const { courseModalityId, price, effectiveFrom = new Date() } of prices) {
+    const currentPrice = await getListPrice(courseId, courseModalityId, effectiveFrom, client);
+
+    if (currentPrice === price) {
+      continue;
+    }
+
+    await client.coursePrice.create({
+      data: {
+        courseId,
+        courseModalityId,
+        price,
+        effectiveFrom,
+        userId
+      }
+    });
+  }
+};
+
+/**
+ * Define o valor de uma venda a partir do catálogo.
+ * Sem valor informado, usa o preço de tabela; com valor diferente do de tabela, marca como alteração manual.
+ */
+export const resolveStudentPrice = async (
+  courseId: number,
+  courseModalityId: number,
+  informedValue?: number,
+  at: Date = new Date()
+): Promise<ResolvedStudentPrice> => {
+  const listPrice = await getListPrice(courseId, courseModalityId, at);
+
+  if (informedValue === undefined) {
+    if (listPrice === null) {
+      throw new AppError(
+        'Não há preço de tabela para este curso/modalidade. Informe o valor do curso.',
+        400,
+        'value',
+        'LIST_PRICE_NOT_FOUND'
+      );
+    }
+
+    return { value: listPrice, listPrice, priceOverridden: false };
+  }
+
+  return {
+    value: informedValue,
+    listPrice,
+    priceOverridden: listPrice !== null && informedValue !== listPrice
+  };
+};
@@ -0,0 +1,262 @@
+import { createWriteStream } from 'fs';
+import { mkdir, rm, stat } from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { finished } from 'stream/promises';
+import { PrismaClient, ExportJobStatus } from '@prisma/client';
+import type { ExportJob, Prisma } from '@prisma/client';
+import type { ReportFilters } from '../models/schemas/report.schema';
+import type { ExportJobResult } from '../models/report.model';
+import { AppError } from '../utils/errorHandler';
+import { buildWhereClause } from './reportQuery.service';
+import { getExportFileType, checkExportRowLimit, writeReportExport } from './reportFile.service';
+
+const prisma = new PrismaClient();
+
+// Diretório onde os arquivos das exportações são gravados
+export const EXPORT_STORAGE_DIR = path.resolve(process.env.EXPORT_STORAGE_DIR || 'storage/exports');
+
+// Tempo (em horas) que o arquivo gerado fica disponível para download
+export const EXPORT_FILE_TTL_HOURS = Number(process.env.EXPORT_FILE_TTL_HOURS) || 24;
+
+// Intervalo entre as verificações de novas exportações na fila
+const WORKER_INTERVAL_MS = 5000;
+
+// Filtros de data gravados como texto no JSON da exportação
+const DATE_FILTERS = ['startDate', 'endDate'] as const;
+
+// Exportação com os dados do usuário que a solicitou
+type ExportJobWithUser = ExportJob & { user: { id: number; name: string; email: string } };
+
+/**
+ * Relação do usuário solicitante carregada junto com a exportação
+ */
+export const exportJobInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true
+    }
+  }
+} satisfies Prisma.ExportJobInclude;
+
+/**
+ * Filtros do relatório no formato gravado na exportação (sem paginação)
+ */
+const toStoredFilters = (filters: ReportFilters): Prisma.InputJsonObject => {
+  const { page: _page, limit: _limit, ...stored } = filters;
+  return JSON.parse(JSON.stringify(stored)) as Prisma.InputJsonObject;
+};
+
+/**
+ * Filtros gravados na exportação convertidos de volta para os filtros do relatório
+ */
+const toReportFilters = (stored: Prisma.JsonValue): ReportFilters => {
+  const filters = { ...(stored as Record<string, unknown>) };
+
+  for (const key of DATE_FILTERS) {
+    if (typeof filters[key] === 'string') {
+      filters[key] = new Date(filters[key] as string);
+    }
+  }
+
+  return filters as unknown as ReportFilters;
+};
+
+/**
+ * Formata a exportação para a resposta da API, com o link de download quando o arquivo está disponível
+ */
+export const toExportJobResult = (job: ExportJobWithUser): ExportJobResult => ({
+  id: job.id,
+  format: job.format,
+  status: job.status,
+  filters: job.filters as Record<string, unknown>,
+  rowCount: job.rowCount,
+  fileName: job.fileName,
+  fileSize: job.fileSize,
+  error: job.error,
+  requestedBy: job.user,
+  createdAt: job.createdAt,
+  startedAt: job.startedAt,
+  completedAt: job.completedAt,
+  expiresAt: job.expiresAt,
+  downloadUrl: job.status === ExportJobStatus.COMPLETED ? `/api/reports/export/jobs/${job.id}/download` : null
+});
+
+/**
+ * Coloca uma exportação na fila. O formato e o limite de linhas são verificados na solicitação
+ * para que o usuário receba o erro imediatamente.
+ */
+export const enqueueExportJob = async (
+  format: string,
+  filters: ReportFilters,
+  where: Prisma.StudentWhereInput,
+  userId: number
+): Promise<ExportJobWithUser> => {
+  getExportFileType(format);
+  await checkExportRowLimit(where);
+
+  return prisma.exportJob.create({
+    data: {
+      userId,
+      format,
+      filters: toStoredFilters(filters)
+    },
+    include: exportJobInclude
+  });
+};
+
+/**
+ * Gera o arquivo de uma exportação já marcada como em processamento.
+ * Os filtros são aplicados com o perfil atual do solicitante.
+ */
+const runExportJob = async (jobId: number): Promise<void> => {
+  const job = await prisma.exportJob.findUniqueOrThrow({
+    where: { id: jobId },
+    include: { user: { select: { id: true, role: true, deletedAt: true } } }
+  });
+
+  const fileType = getExportFileType(job.format);
+  const filePath = path.join(EXPORT_STORAGE_DIR, `${job.id}-${randomUUID()}${path.extname(fileType.fileName)}`);
+  const fileName = fileType.fileName.replace(/(\.\w+)$/, `_${job.id}$1`);
+  let file: ReturnType<typeof createWriteStream> | undefined;
+
+  try {
+    if (job.user.deletedAt) {
+      throw new AppError('O usuário que solicitou a exportação foi removido', 400, undefined, 'USER_REMOVED');
+    }
+
+    const filters = toReportFilters(job.filters);
+    const where = buildWhereClause(filters, job.user.role === 'ADMIN', job.user.id);
+
+    // A quantidade de alunos pode ter mudado desde a solicitação
+    await checkExportRowLimit(where);
+
+    await mkdir(EXPORT_STORAGE_DIR, { recursive: true });
+    file = createWriteStream(filePath);
+
+    const [rowCount] = await Promise.all([
+      writeReportExport(file, job.format, where, filters),
+      finished(file)
+    ]);
+    const { size } = await stat(filePath);
+    const completedAt = new Date();
+
+    await prisma.exportJob.update({
+      where: { id: job.id },
+      data: {
+        status: ExportJobStatus.COMPLETED,
+        rowCount,
+        fileName,
+        filePath,
+        fileSize: size,
+        completedAt,
+        expiresAt: new Date(completedAt.getTime() + EXPORT_FILE_TTL_HOURS * 60 * 60 * 1000)
+      }
+    });
+  } catch (error) {
+    console.error(`Erro ao gerar a exportação ${job.id}:`, error);
+
+    file?.destroy();
+    await rm(filePath, { force: true });
+
+    await prisma.exportJob.update({
+      where: { id: job.id },
+      data: {
+        status: ExportJobStatus.FAILED,
+        error: error instanceof AppError ? error.message : 'Erro interno ao gerar o arquivo da exportação',
+        completedAt: new Date()
+      }
+    });
+  }
+};
+
+/**
+ * Processa a exportação mais antiga da fila. A exportação é reservada com uma atualização
+ * condicional, para que não seja processada duas vezes.
+ * Retorna falso quando a fila está vazia.
+ */
+export const processNextExportJob = async (): Promise<boolean> => {
+  const next = await prisma.exportJob.findFirst({
+    where: { status: ExportJobStatus.QUEUED },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true }
+  });
+
+  if (!next) {
+    return false;
+  }
+
+  const claimed = await prisma.exportJob.updateMany({
+    where: { id: next.id, status: ExportJobStatus.QUEUED },
+    data: { status: ExportJobStatus.PROCESSING, startedAt: new Date() }
+  });
+
+  if (claimed.count > 0) {
+    await runExportJob(next.id);
+  }
+
+  return true;
+};
+
+/**
+ * Remove os arquivos das exportações vencidas e as marca como expiradas
+ */
+export const expireExportJobs = async (now = new Date()): Promise<number> => {
+  const expired = await prisma.exportJob.findMany({
+    where: { status: ExportJobStatus.COMPLETED, expiresAt: { lte: now } },
+    select: { id: true, filePath: true }
+  });
+
+  for (const job of expired) {
+    if (job.filePath) {
+      await rm(job.filePath, { force: true });
+    }
+
+    await prisma.exportJob.update({
+      where: { id: job.id },
+      data: { status: ExportJobStatus.EXPIRED, filePath: null }
+    });
+  }
+
+  return expired.length;
+};
+
+/**
+ * Inicia o processamento das exportações dentro do processo da API.
+ * Exportações interrompidas por uma reinicialização voltam para a fila.
+ */
+export const startExportJobWorker = async (): Promise<NodeJS.Timeout> => {
+  await prisma.exportJob.updateMany({
+    where: { status: ExportJobStatus.PROCESSING },
+    data: { status: ExportJobStatus.QUEUED, startedAt: null }
+  });
+
+  let running = false;
+
+  const tick = async () => {
+    // Um ciclo só começa quando o anterior termina
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await expireExportJobs();
+      while (await processNextExportJob()) {
+        // Processa a fila até esvaziar
+      }
+    } catch (error) {
+      console.error('Erro no processamento das exportações:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, WORKER_INTERVAL_MS);
+  timer.unref();
+  void tick();
+
+  return timer;
+};
@@ -0,0 +1,219 @@
+import { CommissionStatus, InstallmentStatus } from '@prisma/client';
+import type { CommissionEntry, Installment, Prisma, Student } from '@prisma/client';
+import { PaymentStatus } from '../models/installment.model';
+import {
+  buildInstallmentSchedule,
+  derivePaymentStatus,
+  syncStudentPaymentStatus,
+  rebuildInstallmentSchedule,
+  updateInstallmentStatus
+} from './installment.service';
+import { syncSaleCommission } from './commission.service';
+
+const buildInstallment = (overrides: Partial<Installment>): Installment => ({
+  id: 1,
+  studentId: 1,
+  number: 1,
+  dueDate: new Date(2025, 0, 10),
+  amount: 100,
+  paidAmount: 0,
+  paidDate: null,
+  status: InstallmentStatus.PENDING,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+describe('buildInstallmentSchedule', () => {
+  it('divide o valor em parcelas mensais com o resíduo de centavos na última', () => {
+    const schedule = buildInstallmentSchedule(100, 3, new Date(2025, 0, 10));
+
+    expect(schedule.map(item => item.amount)).toEqual([33.33, 33.33, 33.34]);
+    expect(schedule.map(item => item.number)).toEqual([1, 2, 3]);
+    expect(schedule.map(item => item.dueDate)).toEqual([
+      new Date(2025, 0, 10),
+      new Date(2025, 1, 10),
+      new Date(2025, 2, 10)
+    ]);
+  });
+
+  it('mantém o vencimento no último dia dos meses mais curtos', () => {
+    const schedule = buildInstallmentSchedule(300, 3, new Date(2025, 0, 31));
+
+    expect(schedule.map(item => item.dueDate)).toEqual([
+      new Date(2025, 0, 31),
+      new Date(2025, 1, 28),
+      new Date(2025, 2, 31)
+    ]);
+  });
+
+  it('gera ao menos uma parcela e continua a numeração informada', () => {
+    expect(buildInstallmentSchedule(250, 0, new Date(2025, 0, 10))).toEqual([
+      { number: 1, dueDate: new Date(2025, 0, 10), amount: 250 }
+    ]);
+    expect(buildInstallmentSchedule(200, 2, new Date(2025, 0, 10), 3).map(item => item.number)).toEqual([3, 4]);
+  });
+});
+
+describe('derivePaymentStatus', () => {
+  it('retorna Pago quando todas as parcelas ativas estão quitadas', () => {
+    expect(derivePaymentStatus([
+      buildInstallment({ status: InstallmentStatus.PAID, paidAmount: 100 }),
+      buildInstallment({ status: InstallmentStatus.CANCELLED })
+    ])).toBe(PaymentStatus.PAID);
+  });
+
+  it('retorna Parcial quando há pagamento em alguma parcela ativa', () => {
+    expect(derivePaymentStatus([
+      buildInstallment({ status: InstallmentStatus.PAID, paidAmount: 100 }),
+      buildInstallment({})
+    ])).toBe(PaymentStatus.PARTIAL);
+    expect(derivePaymentStatus([buildInstallment({ paidAmount: 20 })])).toBe(PaymentStatus.PARTIAL);
+  });
+
+  it('retorna Cancelado quando todas as parcelas estão canceladas', () => {
+    expect(derivePaymentStatus([buildInstallment({ status: InstallmentStatus.CANCELLED })])).toBe(PaymentStatus.CANCELLED);
+  });
+
+  it('retorna Pendente sem pagamentos ou sem parcelas', () => {
+    expect(derivePaymentStatus([buildInstallment({})])).toBe(PaymentStatus.PENDING);
+    expect(derivePaymentStatus([])).toBe(PaymentStatus.PENDING);
+  });
+});
+
+describe('syncStudentPaymentStatus', () => {
+  const buildClient = (installments: Installment[]) => {
+    const update = jest.fn(async ({ data }) => data);
+    const client = {
+      installment: { findMany: jest.fn(async () => installments) },
+      student: { update }
+    } as unknown as Prisma.TransactionClient;
+
+    return { client, update };
+  };
+
+  it('deriva a previsão de pagamento da próxima parcela pendente', async () => {
+    const { client, update } = buildClient([
+      buildInstallment({ status: InstallmentStatus.PAID, paidAmount: 100, paidDate: new Date(2025, 0, 5) }),
+      buildInstallment({ id: 2, number: 2, dueDate: new Date(2025, 1, 10) })
+    ]);
+
+    await syncStudentPaymentStatus(client, 1);
+
+    expect(update.mock.calls[0][0].data).toEqual({
+      paymentStatus: PaymentStatus.PARTIAL,
+      paymentDate: undefined,
+      paymentForecastDate: new Date(2025, 1, 10)
+    });
+  });
+
+  it('usa a data do último pagamento quando a venda é quitada', async () => {
+    const { client, update } = buildClient([
+      buildInstallment({ status: InstallmentStatus.PAID, paidAmount: 100, paidDate: new Date(2025, 0, 5) }),
+      buildInstallment({ id: 2, number: 2, status: InstallmentStatus.PAID, paidAmount: 100, paidDate: new Date(2025, 1, 8) })
+    ]);
+
+    await syncStudentPaymentStatus(client, 1);
+
+    expect(update.mock.calls[0][0].data).toMatchObject({
+      paymentStatus: PaymentStatus.PAID,
+      paymentDate: new Date(2025, 1, 8)
+    });
+  });
+
+  it('mantém a data de pagamento informada pelo vendedor em vendas não quitadas', async () => {
+    const { client, update } = buildClient([buildInstallment({})]);
+
+    await syncStudentPaymentStatus(client, 1);
+
+    expect(update.mock.calls[0][0].data).toHaveProperty('paymentStatus', PaymentStatus.PENDING);
+    expect(update.mock.calls[0][0].data.paymentDate).toBeUndefined();
+  });
+
+  it('mantém as datas informadas pelo vendedor quando as parcelas não as têm', async () => {
+    const { client, update } = buildClient([
+      buildInstallment({ status: InstallmentStatus.PAID, paidAmount: 100 })
+    ]);
+
+    await syncStudentPaymentStatus(client, 1);
+
+    expect(update.mock.calls[0][0].data).toEqual({
+      paymentStatus: PaymentStatus.PAID,
+      paymentDate: undefined,
+      paymentForecastDate: undefined
+    });
+  });
+});
+
+describe('rebuildInstallmentSchedule', () => {
+  /**
+   * Transação em memória com o aluno, as parcelas e os lançamentos de comissão da venda
+   */
+  const buildSaleClient = (student: Student, installments: Installment[], entries: CommissionEntry[]) => {
+    const state = { student, installments, entries };
+    let nextInstallmentId = 100;
+
+    const client = {
+      installment: {
+        findMany: jest.fn(async () => [...state.installments].sort((a, b) => a.number - b.number)),
+        deleteMany: jest.fn(async ({ where }) => {
+          state.installments = state.installments.filter(installment => where.id.notIn.includes(installment.id));
+        }),
+        createMany: jest.fn(async ({ data }) => {
+          state.installments.push(...data.map((item: Partial<Installment>) => buildInstallment({ ...item, id: nextInstallmentId++ })));
+        }),
+        updateMany: jest.fn()
+      },
+      student: {
+        update: jest.fn(async ({ data }) => {
+          const changes = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+          state.student = { ...state.student, ...changes };
+          return state.student;
+        }),
+        findUniqueOrThrow: jest.fn(async () => ({ ...state.student, coupon: { userId: 7 } }))
+      },
+      commissionEntry: {
+        findMany: jest.fn(async ({ where }) => state.entries.filter(entry => entry.status !== where.status.not)),
+        updateMany: jest.fn(),
+        update: jest.fn(),
+        create: jest.fn()
+      }
+    };
+
+    return { state, client: client as unknown as Prisma.TransactionClient, commissionEntry: client.commissionEntry };
+  };
+
+  it('mantém cancelada a venda editada, sem reativar a comissão estornada', async () => {
+    const student = {
+      id: 1,
+      value: 300,
+      discountAmount: 0,
+      installments: 3,
+      paymentStatus: PaymentStatus.CANCELLED,
+      paymentDate: null,
+      paymentForecastDate: null,
+      registrationDate: new Date(2025, 0, 10),
+      couponId: 3,
+      affiliateCommission: 30,
+      deletedAt: null
+    } as unknown as Student;
+    const { state, client, commissionEntry } = buildSaleClient(
+      student,
+      [1, 2, 3].map(number => buildInstallment({ id: number, number, status: InstallmentStatus.CANCELLED })),
+      [{ id: 1, studentId: 1, affiliateId: 7, amount: 30, status: CommissionStatus.REVERSED } as CommissionEntry]
+    );
+
+    // Edição do valor e da quantidade de parcelas, sem informar o status de pagamento
+    const edited = { ...student, value: 400, installments: 4 };
+    await rebuildInstallmentSchedule(client, edited);
+    await updateInstallmentStatus(client, edited.id, undefined, null);
+    await syncSaleCommission(client, edited.id);
+
+    expect(state.installments).toHaveLength(4);
+    expect(state.installments.every(installment => installment.status === InstallmentStatus.CANCELLED)).toBe(true);
+    expect(state.student.paymentStatus).toBe(PaymentStatus.CANCELLED);
+    expect(state.entries.map(entry => entry.status)).toEqual([CommissionStatus.REVERSED]);
+    expect(commissionEntry.create).not.toHaveBeenCalled();
+    expect(commissionEntry.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,308 @@
+import { InstallmentStatus } from '@prisma/client';
+import type { Installment, Prisma, Student } from '@prisma/client';
+import type { InstallmentPaymentInput, InstallmentScheduleItem } from '../models/installment.model';
+import { PaymentStatus } from '../models/installment.model';
+import { AppError } from '../utils/errorHandler';
+
+// Tolerância para comparação de valores monetários
+const CENT_TOLERANCE = 0.005;
+
+/**
+ * Arredonda um valor monetário para duas casas decimais
+ */
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Soma meses a uma data mantendo o dia quando possível (31/01 + 1 mês = 28 ou 29/02)
+ */
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDayOfMonth = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, lastDayOfMonth));
+  return result;
+};
+
+/**
+ * Valor líquido da venda (valor do curso menos o desconto do cupom)
+ */
+export const getNetSaleValue = (student: Pick<Student, 'value' | 'discountAmount'>): number =>
+  roundCurrency(student.value - (student.discountAmount ?? 0));
+
+/**
+ * Monta o cronograma de parcelas com vencimentos mensais.
+ * O resíduo de centavos da divisão fica na última parcela.
+ */
+export const buildInstallmentSchedule = (
+  total: number,
+  count: number,
+  firstDueDate: Date,
+  firstNumber = 1
+): InstallmentScheduleItem[] => {
+  const parcels = Math.max(1, count);
+  const baseAmount = roundCurrency(total / parcels);
+
+  return Array.from({ length: parcels }, (_, index) => ({
+    number: firstNumber + index,
+    dueDate: addMonths(firstDueDate, index),
+    amount: index === parcels - 1
+      ? roundCurrency(total - baseAmount * (parcels - 1))
+      : baseAmount
+  }));
+};
+
+/**
+ * Deriva o status de pagamento do aluno a partir das parcelas
+ */
+export const derivePaymentStatus = (installments: Pick<Installment, 'status' | 'paidAmount'>[]): PaymentStatus => {
+  const active = installments.filter(installment => installment.status !== InstallmentStatus.CANCELLED);
+
+  if (installments.length > 0 && active.length === 0) {
+    return PaymentStatus.CANCELLED;
+  }
+
+  if (active.length > 0 && active.every(installment => installment.status === InstallmentStatus.PAID)) {
+    return PaymentStatus.PAID;
+  }
+
+  if (active.some(installment => installment.paidAmount > 0)) {
+    return PaymentStatus.PARTIAL;
+  }
+
+  return PaymentStatus.PENDING;
+};
+
+/**
+ * Atualiza status, data de pagamento e previsão de pagamento do aluno com base nas parcelas.
+ * As datas só são substituídas quando as parcelas as informam; caso contrário, as datas
+ * preenchidas pelo vendedor são mantidas.
+ */
+export const syncStudentPaymentStatus = async (
+  client: Prisma.TransactionClient,
+  studentId: number
+): Promise<Student> => {
+  const installments = await client.installment.findMany({
+    where: { studentId },
+    orderBy: { number: 'asc' }
+  });
+
+  const paymentStatus = derivePaymentStatus(installments);
+  const nextPending = installments.find(installment => installment.status === InstallmentStatus.PENDING);
+  const lastPaidDate = installments
+    .map(installment => installment.paidDate)
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+
+  return client.student.update({
+    where: { id: studentId },
+    data: {
+      paymentStatus,
+      paymentDate: paymentStatus === PaymentStatus.PAID ? lastPaidDate : undefined,
+      paymentForecastDate: nextPending?.dueDate
+    }
+  });
+};
+
+/**
+ * Marca parcelas conforme o status informado manualmente no cadastro/edição do aluno.
+ * Pago quita as parcelas pendentes, Parcial quita a primeira (entrada) e Cancelado cancela as pendentes.
+ */
+const applyInformedStatus = async (
+  client: Prisma.TransactionClient,
+  studentId: number,
+  paymentStatus: string,
+  paymentDate: Date | null
+): Promise<void> => {
+  const paidDate = paymentDate ?? new Date();
+
+  if (paymentStatus === PaymentStatus.CANCELLED) {
+    await client.installment.updateMany({
+      where: { studentId, status: InstallmentStatus.PENDING },
+      data: { status: InstallmentStatus.CANCELLED }
+    });
+    return;
+  }
+
+  // Reabre parcelas de uma venda que estava cancelada
+  await client.installment.updateMany({
+    where: { studentId, status: InstallmentStatus.CANCELLED },
+    data: { status: InstallmentStatus.PENDING }
+  });
+
+  const pending = await client.installment.findMany({
+    where: { studentId, status: InstallmentStatus.PENDING },
+    orderBy: { number: 'asc' }
+  });
+
+  const toPay = paymentStatus === PaymentStatus.PAID
+    ? pending
+    : paymentStatus === PaymentStatus.PARTIAL && !pending.some(installment => installment.paidAmount > 0)
+      ? pending.slice(0, 1)
+      : [];
+
+  for (const installment of toPay) {
+    await client.installment.update({
+      where: { id: installment.id },
+      data: {
+        paidAmount: installment.amount,
+        paidDate,
+        status: InstallmentStatus.PAID
+      }
+    });
+  }
+};
+
+/**
+ * Cria as parcelas de um aluno recém-cadastrado e sincroniza o status de pagamento
+ */
+export const createInstallmentSchedule = async (
+  client: Prisma.TransactionClient,
+  student: Student,
+  informedStatus: string = PaymentStatus.PENDING
+): Promise<Student> => {
+  const firstDueDate = student.paymentForecastDate ?? student.paymentDate ?? student.registrationDate;
+  const schedule = buildInstallmentSchedule(getNetSaleValue(student), student.installments, firstDueDate);
+
+  await client.installment.createMany({
+    data: schedule.map(item => ({ ...item, studentId: student.id }))
+  });
+
+  await applyInformedStatus(client, student.id, informedStatus, student.paymentDate);
+  return syncStudentPaymentStatus(client, student.id);
+};
+
+/**
+ * Refaz as parcelas em aberto após mudança de valor, desconto ou quantidade de parcelas.
+ * Parcelas com pagamento registrado são mantidas; o saldo é redistribuído nas demais.
+ * Em uma venda cancelada, as novas parcelas já são criadas canceladas.
+ */
+export const rebuildInstallmentSchedule = async (
+  client: Prisma.TransactionClient,
+  student: Student
+): Promise<void> => {
+  const installments = await client.installment.findMany({
+    where: { studentId: student.id },
+    orderBy: { number: 'asc' }
+  });
+
+  const kept = installments.filter(installment => installment.paidAmount > 0);
+  const keptTotal = kept.reduce((sum, installment) => sum + installment.amount, 0);
+  const remaining = roundCurrency(getNetSaleValue(student) - keptTotal);
+  const remainingCount = student.installments - kept.length;
+
+  if (remaining > CENT_TOLERANCE && remainingCount <= 0) {
+    throw new AppError(
+      'O número de parcelas não comporta o saldo restante, pois há parcelas com pagamento registrado',
+      400,
+      'installments',
+      'INSTALLMENTS_CONFLICT'
+    );
+  }
+
+  await client.installment.deleteMany({
+    where: {
+      studentId: student.id,
+      id: { notIn: kept.map(installment => installment.id) }
+    }
+  });
+
+  if (remaining <= CENT_TOLERANCE) {
+    return;
+  }
+
+  const lastKept = kept[kept.length - 1];
+  const firstDueDate = lastKept
+    ? addMonths(lastKept.dueDate, 1)
+    : student.paymentForecastDate ?? student.registrationDate;
+  const firstNumber = lastKept ? lastKept.number + 1 : 1;
+
+  const status = student.paymentStatus === PaymentStatus.CANCELLED
+    ? InstallmentStatus.CANCELLED
+    : InstallmentStatus.PENDING;
+
+  await client.installment.createMany({
+    data: buildInstallmentSchedule(remaining, remainingCount, firstDueDate, firstNumber)
+      .map(item => ({ ...item, studentId: student.id, status }))
+  });
+};
+
+/**
+ * Aplica o status informado na edição do aluno e sincroniza o status derivado das parcelas
+ */
+export const updateInstallmentStatus = async (
+  client: Prisma.TransactionClient,
+  studentId: number,
+  informedStatus: string | undefined,
+  paymentDate: Date | null
+): Promise<Student> => {
+  if (informedStatus) {
+    await applyInformedStatus(client, studentId, informedStatus, paymentDate);
+  }
+
+  return syncStudentPaymentStatus(client, studentId);
+};
+
+/**
+ * Registra o pagamento (total ou parcial) de uma parcela
+ */
+export const recordInstallmentPayment = async (
+  client: Prisma.TransactionClient,
+  installment: Installment,
+  payment: InstallmentPaymentInput
+): Promise<Installment> => {
+  if (installment.status === InstallmentStatus.CANCELLED) {
+    throw new AppError('Não é possível registrar pagamento em uma parcela cancelada', 400, 'installmentId', 'INSTALLMENT_CANCELLED');
+  }
+
+  const outstanding = roundCurrency(installment.amount - installment.paidAmount);
+
+  if (installment.status === InstallmentStatus.PAID || outstanding <= CENT_TOLERANCE) {
+    throw new AppError('Esta parcela já está quitada', 400, 'installmentId', 'INSTALLMENT_ALREADY_PAID');
+  }
+
+  const amount = payment.amount ?? outstanding;
+
+  if (amount - outstanding > CENT_TOLERANCE) {
+    throw new AppError(
+      `O valor informado excede o saldo da parcela (R$ ${outstanding.toFixed(2)})`,
+      400,
+      'amount',
+      'PAYMENT_EXCEEDS_INSTALLMENT'
+    );
+  }
+
+  const paidAmount = roundCurrency(installment.paidAmount + amount);
+  const fullyPaid = installment.amount - paidAmount <= CENT_TOLERANCE;
+
+  return client.installment.update({
+    where: { id: installment.id },
+    data: {
+      paidAmount,
+      paidDate: payment.paidDate ?? new Date(),
+      status: fullyPaid ? InstallmentStatus.PAID : InstallmentStatus.PENDING
+    }
+  });
+};
+
+/**
+ * Desfaz os pagamentos registrados em uma parcela
+ */
+export const clearInstallmentPayment = async (
+  client: Prisma.TransactionClient,
+  installment: Installment
+): Promise<Installment> => {
+  if (installment.paidAmount <= 0) {
+    throw new AppError('Esta parcela não possui pagamento registrado', 400, 'installmentId', 'INSTALLMENT_NOT_PAID');
+  }
+
+  return client.installment.update({
+    where: { id: installment.id },
+    data: {
+      paidAmount: 0,
+      paidDate: null,
+      status: InstallmentStatus.PENDING
+    }
+  });
+};
@@ -0,0 +1,105 @@
+import type { Prisma, User } from '@prisma/client';
+import { mockPrismaClients } from '../test/prisma';
+import { clearFailedLogins, ensureLoginAllowed, getRetryDelaySeconds, recordFailedLogin } from './loginAttempt.service';
+
+const now = new Date('2025-06-05T12:00:00.000Z');
+
+const buildUser = (overrides: Partial<User> = {}) => ({
+  id: 1,
+  failedLoginAttempts: 0,
+  lastFailedLoginAt: null,
+  lockedUntil: null,
+  ...overrides
+} as User);
+
+const secondsAgo = (seconds: number) => new Date(now.getTime() - seconds * 1000);
+
+const prisma = {
+  user: { update: jest.fn() }
+};
+
+beforeAll(() => mockPrismaClients(prisma));
+
+beforeEach(() => jest.clearAllMocks());
+
+describe('getRetryDelaySeconds', () => {
+  it('dobra a espera a partir da segunda falha', () => {
+    expect([0, 1, 2, 3, 4, 5].map(getRetryDelaySeconds)).toEqual([0, 0, 2, 4, 8, 16]);
+  });
+});
+
+describe('ensureLoginAllowed', () => {
+  it('permite o login sem falhas recentes ou após a espera', () => {
+    expect(() => ensureLoginAllowed(buildUser(), now)).not.toThrow();
+    expect(() => ensureLoginAllowed(buildUser({ failedLoginAttempts: 3, lastFailedLoginAt: secondsAgo(5) }), now)).not.toThrow();
+  });
+
+  it('responde como credenciais incorretas durante a espera, sem revelar a conta', () => {
+    const user = buildUser({ failedLoginAttempts: 3, lastFailedLoginAt: secondsAgo(1) });
+
+    expect(() => ensureLoginAllowed(user, now)).toThrow(expect.objectContaining({
+      statusCode: 401,
+      code: 'INVALID_CREDENTIALS',
+      details: undefined
+    }));
+  });
+
+  it('responde como credenciais incorretas enquanto a conta está bloqueada', () => {
+    const user = buildUser({ failedLoginAttempts: 5, lockedUntil: new Date(now.getTime() + 60 * 1000) });
+
+    expect(() => ensureLoginAllowed(user, now)).toThrow(expect.objectContaining({
+      statusCode: 401,
+      code: 'INVALID_CREDENTIALS',
+      details: undefined
+    }));
+  });
+
+  it('permite o login após o fim do bloqueio', () => {
+    const user = buildUser({ failedLoginAttempts: 5, lastFailedLoginAt: secondsAgo(1), lockedUntil: secondsAgo(1) });
+
+    expect(() => ensureLoginAllowed(user, now)).not.toThrow();
+  });
+});
+
+describe('recordFailedLogin', () => {
+  it('bloqueia a conta ao atingir o limite de tentativas', async () => {
+    prisma.user.update.mockResolvedValueOnce({ failedLoginAttempts: 5 });
+
+    await recordFailedLogin(buildUser({ failedLoginAttempts: 4 }), now);
+
+    expect(prisma.user.update).toHaveBeenLastCalledWith({
+      where: { id: 1 },
+      data: { lockedUntil: new Date(now.getTime() + 15 * 60 * 1000) }
+    });
+  });
+
+  it('recomeça a contagem após um bloqueio vencido', async () => {
+    prisma.user.update.mockResolvedValueOnce({ failedLoginAttempts: 1 });
+
+    await recordFailedLogin(buildUser({ failedLoginAttempts: 5, lockedUntil: secondsAgo(1) }), now);
+
+    expect(prisma.user.update).toHaveBeenCalledTimes(1);
+    expect(prisma.user.update.mock.calls[0][0].data).toEqual({ failedLoginAttempts: 1, lastFailedLoginAt: now, lockedUntil: null });
+  });
+});
+
+describe('clearFailedLogins', () => {
+  it('desbloqueia a conta na transação informada', async () => {
+    const tx = { user: { update: jest.fn(async ({ data }) => ({ ...buildUser(), ...data })) } };
+
+    const updated = await clearFailedLogins(
+      buildUser({ failedLoginAttempts: 5, lockedUntil: new Date(now.getTime() + 60 * 1000) }),
+      tx as unknown as Prisma.TransactionClient
+    );
+
+    expect(updated).toMatchObject({ failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null });
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('não grava nada quando não há tentativas a zerar', async () => {
+    const user = buildUser();
+
+    await expect(clearFailedLogins(user)).resolves.toBe(user);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+});
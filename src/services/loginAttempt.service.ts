@@ -0,0 +1,103 @@
+import { PrismaClient } from '@prisma/client';
+import type { Prisma, User } from '@prisma/client';
+import type { LoginLockout } from '../models/user.model';
+import { AppError } from '../utils/errorHandler';
+
+const prisma = new PrismaClient();
+
+// Tentativas malsucedidas consecutivas que bloqueiam a conta
+const LOGIN_MAX_FAILED_ATTEMPTS = Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS) || 5;
+
+// Duração do bloqueio temporário da conta
+const LOGIN_LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15;
+
+/**
+ * Espera exigida antes da próxima tentativa: a partir da segunda falha, dobra a cada tentativa (2s, 4s, 8s...)
+ */
+export const getRetryDelaySeconds = (failedAttempts: number): number =>
+  failedAttempts < 2 ? 0 : 2 ** (failedAttempts - 1);
+
+/**
+ * Impede o login de contas bloqueadas ou que ainda precisam aguardar após uma falha recente.
+ * A resposta é a mesma das credenciais incorretas, sem a data de desbloqueio, para não revelar
+ * quais emails têm conta cadastrada.
+ */
+export const ensureLoginAllowed = (user: User, now = new Date()): void => {
+  const notAllowed = new AppError('Email ou senha incorretos', 401, undefined, 'INVALID_CREDENTIALS');
+
+  if (user.lockedUntil && user.lockedUntil > now) {
+    throw notAllowed;
+  }
+
+  if (user.lockedUntil || !user.lastFailedLoginAt) {
+    return;
+  }
+
+  const retryAt = user.lastFailedLoginAt.getTime() + getRetryDelaySeconds(user.failedLoginAttempts) * 1000;
+
+  if (retryAt > now.getTime()) {
+    throw notAllowed;
+  }
+};
+
+/**
+ * Registra uma tentativa de login malsucedida (senha ou código de verificação incorretos)
+ * e bloqueia a conta ao atingir o limite. Após um bloqueio vencido, a contagem recomeça.
+ */
+export const recordFailedLogin = async (user: User, now = new Date()): Promise<void> => {
+  const lockExpired = !!user.lockedUntil && user.lockedUntil <= now;
+
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data: lockExpired
+      ? { failedLoginAttempts: 1, lastFailedLoginAt: now, lockedUntil: null }
+      : { failedLoginAttempts: { increment: 1 }, lastFailedLoginAt: now },
+    select: { failedLoginAttempts: true }
+  });
+
+  if (updated.failedLoginAttempts >= LOGIN_MAX_FAILED_ATTEMPTS) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lockedUntil: new Date(now.getTime() + LOGIN_LOCKOUT_MINUTES * 60 * 1000) }
+    });
+  }
+};
+
+/**
+ * Zera as tentativas malsucedidas (após um login bem-sucedido ou pelo desbloqueio de um admin).
+ * Retorna o usuário atualizado.
+ */
+export const clearFailedLogins = async (user: User, client: Prisma.TransactionClient = prisma): Promise<User> => {
+  if (user.failedLoginAttempts === 0 && !user.lockedUntil) {
+    return user;
+  }
+
+  return client.user.update({
+    where: { id: user.id },
+    data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null }
+  });
+};
+
+/**
+ * Contas bloqueadas ou com tentativas malsucedidas recentes, das mais afetadas para as menos
+ */
+export const listLoginLockouts = async (now = new Date()): Promise<LoginLockout[]> => {
+  const users = await prisma.user.findMany({
+    where: {
+      deletedAt: null,
+      OR: [{ lockedUntil: { gt: now } }, { failedLoginAttempts: { gt: 0 }, lockedUntil: null }]
+    },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+      failedLoginAttempts: true,
+      lastFailedLoginAt: true,
+      lockedUntil: true
+    },
+    orderBy: [{ lockedUntil: { sort: 'desc', nulls: 'last' } }, { failedLoginAttempts: 'desc' }]
+  });
+
+  return users.map(user => ({ ...user, locked: !!user.lockedUntil }));
+};
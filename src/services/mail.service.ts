@@ -0,0 +1,88 @@
+import nodemailer from 'nodemailer';
+
+// Remetente dos emails enviados pelo sistema
+export const MAIL_FROM = process.env.MAIL_FROM || 'Controle de Vendas <nao-responda@localhost>';
+
+// Anexo de um email
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+// Email a ser enviado pelo transporte
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+// Transporte de email: qualquer implementação pode ser registrada com setMailTransport
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Transporte SMTP. Para testes, SMTP_HOST/SMTP_PORT podem apontar para um servidor local
+ * que apenas captura as mensagens (ex: MailHog ou Mailpit em localhost:1025)
+ */
+export const createSmtpTransport = (): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT) || 1025,
+    secure: process.env.SMTP_SECURE === 'true',
+    ...(process.env.SMTP_USER && {
+      auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+    })
+  });
+
+  return {
+    send: async (message) => {
+      await transporter.sendMail({
+        from: MAIL_FROM,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments: message.attachments
+      });
+    }
+  };
+};
+
+/**
+ * Transporte que apenas registra o email no log (padrão quando não há SMTP configurado)
+ */
+export const createLogTransport = (): MailTransport => ({
+  send: async (message) => {
+    const attachments = (message.attachments ?? []).map(attachment => attachment.filename);
+
+    console.log(
+      `[email] Para: ${message.to.join(', ')} | Assunto: ${message.subject}` +
+      (attachments.length > 0 ? ` | Anexos: ${attachments.join(', ')}` : '')
+    );
+  }
+});
+
+let transport: MailTransport | undefined;
+
+/**
+ * Transporte de email em uso: SMTP quando MAIL_TRANSPORT=smtp ou SMTP_HOST estiver definido, log nos demais casos
+ */
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    const useSmtp = process.env.MAIL_TRANSPORT === 'smtp' || (!process.env.MAIL_TRANSPORT && !!process.env.SMTP_HOST);
+    transport = useSmtp ? createSmtpTransport() : createLogTransport();
+  }
+
+  return transport;
+};
+
+/**
+ * Substitui o transporte de email (ex: integração com outro provedor)
+ */
+export const setMailTransport = (custom: MailTransport): void => {
+  transport = custom;
+};
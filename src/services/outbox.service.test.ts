@@ -0,0 +1,69 @@
+import { OutboxStatus } from '@prisma/client';
+import type { OutboxMessage } from '@prisma/client';
+import { mockPrismaClients } from '../test/prisma';
+import { setMailTransport } from './mail.service';
+import { MAX_SEND_ATTEMPTS, dispatchOutbox } from './outbox.service';
+
+const buildMessage = (overrides: Partial<OutboxMessage> = {}): OutboxMessage => ({
+  id: 1,
+  scheduleId: null,
+  recipients: ['aluno@example.com'],
+  subject: 'Redefinição de senha',
+  text: 'Acesse o link: https://example.com/redefinir-senha?token=abc',
+  html: null,
+  attachmentName: null,
+  attachmentType: null,
+  attachment: null,
+  status: OutboxStatus.PENDING,
+  attempts: 0,
+  error: null,
+  sentAt: null,
+  createdAt: new Date(),
+  ...overrides
+});
+
+const prisma = {
+  outboxMessage: {
+    findMany: jest.fn(),
+    update: jest.fn()
+  }
+};
+
+const send = jest.fn();
+
+beforeAll(() => {
+  mockPrismaClients(prisma);
+  setMailTransport({ send });
+});
+
+beforeEach(() => jest.clearAllMocks());
+
+describe('dispatchOutbox', () => {
+  it('remove o corpo da mensagem após o envio', async () => {
+    prisma.outboxMessage.findMany.mockResolvedValue([buildMessage()]);
+    send.mockResolvedValue(undefined);
+
+    await expect(dispatchOutbox()).resolves.toBe(1);
+    expect(prisma.outboxMessage.update.mock.calls[0][0].data).toMatchObject({
+      status: OutboxStatus.SENT,
+      text: '',
+      html: null
+    });
+  });
+
+  it('mantém o corpo para novas tentativas e o remove na falha definitiva', async () => {
+    prisma.outboxMessage.findMany.mockResolvedValue([
+      buildMessage({ id: 1 }),
+      buildMessage({ id: 2, attempts: MAX_SEND_ATTEMPTS - 1 })
+    ]);
+    send.mockRejectedValue(new Error('SMTP indisponível'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(dispatchOutbox()).resolves.toBe(0);
+
+    const [retry, failed] = prisma.outboxMessage.update.mock.calls.map(([args]) => args.data);
+    expect(retry).toMatchObject({ status: OutboxStatus.PENDING });
+    expect(retry).not.toHaveProperty('text');
+    expect(failed).toMatchObject({ status: OutboxStatus.FAILED, text: '', html: null });
+  });
+});
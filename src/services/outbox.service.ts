@@ -0,0 +1,106 @@
+import { PrismaClient, OutboxStatus } from '@prisma/client';
+import type { OutboxMessage, Prisma } from '@prisma/client';
+import type { MailMessage } from './mail.service';
+import { getMailTransport } from './mail.service';
+
+const prisma = new PrismaClient();
+
+// Tentativas de envio antes de a mensagem ser marcada como falha
+export const MAX_SEND_ATTEMPTS = 5;
+
+// Quantidade de mensagens despachadas por ciclo
+const DISPATCH_BATCH_SIZE = 20;
+
+/**
+ * Grava um email na caixa de saída (suporta apenas um anexo por mensagem)
+ */
+export const enqueueMail = (
+  client: Prisma.TransactionClient,
+  message: MailMessage,
+  scheduleId?: number
+): Promise<OutboxMessage> => {
+  const attachment = message.attachments?.[0];
+
+  return client.outboxMessage.create({
+    data: {
+      scheduleId,
+      recipients: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachmentName: attachment?.filename,
+      attachmentType: attachment?.contentType,
+      attachment: attachment?.content
+    }
+  });
+};
+
+/**
+ * Converte a mensagem gravada para o formato do transporte de email
+ */
+const toMailMessage = (message: OutboxMessage): MailMessage => ({
+  to: message.recipients,
+  subject: message.subject,
+  text: message.text,
+  html: message.html ?? undefined,
+  attachments: message.attachment && message.attachmentName
+    ? [{
+      filename: message.attachmentName,
+      content: message.attachment,
+      contentType: message.attachmentType ?? undefined
+    }]
+    : undefined
+});
+
+// Remove o corpo da mensagem após o envio ou a falha definitiva: o texto pode conter
+// links de uso único (como o de redefinição de senha) que não devem ficar guardados
+const REDACTED_BODY = { text: '', html: null };
+
+/**
+ * Envia as mensagens pendentes da caixa de saída pelo transporte configurado.
+ * Em caso de falha a mensagem volta para a fila até esgotar as tentativas.
+ * Retorna a quantidade de mensagens enviadas.
+ */
+export const dispatchOutbox = async (): Promise<number> => {
+  const pending = await prisma.outboxMessage.findMany({
+    where: { status: OutboxStatus.PENDING },
+    orderBy: { createdAt: 'asc' },
+    take: DISPATCH_BATCH_SIZE
+  });
+
+  let sent = 0;
+
+  for (const message of pending) {
+    try {
+      await getMailTransport().send(toMailMessage(message));
+
+      await prisma.outboxMessage.update({
+        where: { id: message.id },
+        data: {
+          ...REDACTED_BODY,
+          status: OutboxStatus.SENT,
+          attempts: { increment: 1 },
+          error: null,
+          sentAt: new Date()
+        }
+      });
+      sent++;
+    } catch (error) {
+      const attempts = message.attempts + 1;
+      const failed = attempts >= MAX_SEND_ATTEMPTS;
+      console.error(`Erro ao enviar o email ${message.id} (tentativa ${attempts}):`, error);
+
+      await prisma.outboxMessage.update({
+        where: { id: message.id },
+        data: {
+          ...(failed && REDACTED_BODY),
+          status: failed ? OutboxStatus.FAILED : OutboxStatus.PENDING,
+          attempts,
+          error: error instanceof Error ? error.message : String(error)
+        }
+      });
+    }
+  }
+
+  return sent;
+};
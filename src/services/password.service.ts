@@ -0,0 +1,147 @@
+import { PrismaClient, AuditAction, AuditEntity, SessionRevocationReason } from '@prisma/client';
+import type { AuditActor } from '../models/audit.model';
+import { hashPassword, comparePassword } from '../utils/password';
+import { generateOpaqueToken, hashToken } from '../utils/token';
+import { AppError } from '../utils/errorHandler';
+import { recordAudit } from './audit.service';
+import { revokeUserSessions } from './session.service';
+import { enqueueMail } from './outbox.service';
+
+const prisma = new PrismaClient();
+
+// Validade do link de redefinição de senha
+const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60;
+
+// Página do frontend que recebe o token de redefinição
+const PASSWORD_RESET_URL = process.env.PASSWORD_RESET_URL || 'http://localhost:3000/redefinir-senha';
+
+/**
+ * Troca a senha do usuário autenticado após conferir a senha atual.
+ * As demais sessões do usuário são encerradas; a sessão atual continua válida.
+ */
+export const changeUserPassword = async (
+  actor: AuditActor,
+  currentSessionId: number | undefined,
+  currentPassword: string,
+  newPassword: string
+): Promise<void> => {
+  const user = await prisma.user.findUnique({ where: { id: actor.userId } });
+
+  if (!user || user.deletedAt) {
+    throw new AppError('Usuário não encontrado.', 404, undefined, 'USER_NOT_FOUND');
+  }
+
+  if (!(await comparePassword(currentPassword, user.password))) {
+    throw new AppError('A senha atual está incorreta', 400, 'currentPassword', 'INVALID_CURRENT_PASSWORD');
+  }
+
+  const password = await hashPassword(newPassword);
+
+  await prisma.$transaction(async (tx) => {
+    const updatedUser = await tx.user.update({
+      where: { id: user.id },
+      data: { password, mustChangePassword: false }
+    });
+
+    await revokeUserSessions(tx, user.id, SessionRevocationReason.PASSWORD_CHANGED, currentSessionId);
+
+    await recordAudit(tx, actor, {
+      entity: AuditEntity.USER,
+      entityId: user.id,
+      action: AuditAction.UPDATE,
+      before: user,
+      after: updatedUser
+    });
+  });
+};
+
+/**
+ * Gera um link de redefinição de senha e o coloca na caixa de saída de emails.
+ * Emails desconhecidos são ignorados sem erro, para não revelar quais contas existem.
+ * Solicitações anteriores ainda não utilizadas deixam de valer.
+ */
+export const requestPasswordReset = async (email: string, now = new Date()): Promise<void> => {
+  const user = await prisma.user.findUnique({ where: { email } });
+
+  if (!user || user.deletedAt) {
+    return;
+  }
+
+  const token = generateOpaqueToken();
+  const link = `${PASSWORD_RESET_URL}?token=${token}`;
+
+  await prisma.$transaction(async (tx) => {
+    await tx.passwordResetToken.updateMany({
+      where: { userId: user.id, usedAt: null },
+      data: { usedAt: now }
+    });
+
+    await tx.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000)
+      }
+    });
+
+    await enqueueMail(tx, {
+      to: [user.email],
+      subject: 'Redefinição de senha',
+      text: [
+        `Olá, ${user.name}.`,
+        '',
+        'Recebemos uma solicitação para redefinir a sua senha. Para criar uma nova senha, acesse o link abaixo:',
+        link,
+        '',
+        `O link é válido por ${PASSWORD_RESET_TTL_MINUTES} minutos e pode ser usado apenas uma vez.`,
+        'Se você não fez esta solicitação, ignore este email; a sua senha continua a mesma.'
+      ].join('\n')
+    });
+  });
+};
+
+/**
+ * Redefine a senha com o token recebido por email. O token é de uso único e
+ * todas as sessões do usuário são encerradas.
+ */
+export const resetUserPassword = async (token: string, newPassword: string, now = new Date()): Promise<void> => {
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true }
+  });
+
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= now || resetToken.user.deletedAt) {
+    throw new AppError('O link de redefinição de senha é inválido ou expirou. Solicite um novo link.', 400, 'token', 'INVALID_RESET_TOKEN');
+  }
+
+  const { user } = resetToken;
+  const password = await hashPassword(newPassword);
+
+  await prisma.$transaction(async (tx) => {
+    // Marca o token como utilizado apenas se outra requisição ainda não o fez
+    const { count } = await tx.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: now }
+    });
+
+    if (count === 0) {
+      throw new AppError('O link de redefinição de senha é inválido ou expirou. Solicite um novo link.', 400, 'token', 'INVALID_RESET_TOKEN');
+    }
+
+    // A redefinição pelo email também desbloqueia o login da conta
+    const updatedUser = await tx.user.update({
+      where: { id: user.id },
+      data: { password, mustChangePassword: false, failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null }
+    });
+
+    await revokeUserSessions(tx, user.id, SessionRevocationReason.PASSWORD_RESET);
+
+    await recordAudit(tx, { userId: user.id, email: user.email }, {
+      entity: AuditEntity.USER,
+      entityId: user.id,
+      action: AuditAction.UPDATE,
+      before: user,
+      after: updatedUser
+    });
+  });
+};
@@ -0,0 +1,103 @@
+import { CouponApplicationMode } from '@prisma/client';
+import type { Coupon, CouponConfiguration } from '@prisma/client';
+import { calculateCouponPricing } from './pricing.service';
+
+const buildConfiguration = (overrides: Partial<CouponConfiguration>): CouponConfiguration => ({
+  id: 1,
+  couponId: 1,
+  courseId: null,
+  courseModalityId: null,
+  discountValue: null,
+  discountPercent: null,
+  commissionValue: null,
+  commissionPercent: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const buildCoupon = (applicationMode: CouponApplicationMode, configurations: CouponConfiguration[]) => ({
+  id: 1,
+  applicationMode,
+  configurations
+} as unknown as Coupon & { configurations: CouponConfiguration[] });
+
+describe('calculateCouponPricing', () => {
+  it('aplica desconto e comissão percentuais da modalidade no modo GENERAL', () => {
+    const coupon = buildCoupon(CouponApplicationMode.GENERAL, [
+      buildConfiguration({ id: 1, courseModalityId: 2, discountPercent: 10, commissionPercent: 5 }),
+      buildConfiguration({ id: 2, courseModalityId: 3, discountPercent: 50 })
+    ]);
+
+    const result = calculateCouponPricing({ coupon, courseId: 7, courseModalityId: 2, baseValue: 1000 });
+
+    expect(result).toMatchObject({
+      applicable: true,
+      originalValue: 1000,
+      discountAmount: 100,
+      commissionAmount: 50,
+      finalValue: 900
+    });
+    expect(result.configuration?.id).toBe(1);
+  });
+
+  it('prioriza valores fixos sobre percentuais', () => {
+    const coupon = buildCoupon(CouponApplicationMode.GENERAL, [
+      buildConfiguration({ courseModalityId: 2, discountValue: 150, discountPercent: 10, commissionValue: 30, commissionPercent: 5 })
+    ]);
+
+    const result = calculateCouponPricing({ coupon, courseId: 7, courseModalityId: 2, baseValue: 1000 });
+
+    expect(result.discountAmount).toBe(150);
+    expect(result.commissionAmount).toBe(30);
+    expect(result.finalValue).toBe(850);
+  });
+
+  it('limita o desconto ao valor do curso', () => {
+    const coupon = buildCoupon(CouponApplicationMode.GENERAL, [
+      buildConfiguration({ courseModalityId: 2, discountValue: 500 })
+    ]);
+
+    const result = calculateCouponPricing({ coupon, courseId: 7, courseModalityId: 2, baseValue: 300 });
+
+    expect(result.discountAmount).toBe(300);
+    expect(result.finalValue).toBe(0);
+  });
+
+  it('arredonda os valores para duas casas decimais', () => {
+    const coupon = buildCoupon(CouponApplicationMode.GENERAL, [
+      buildConfiguration({ courseModalityId: 2, discountPercent: 33.333, commissionPercent: 12.345 })
+    ]);
+
+    const result = calculateCouponPricing({ coupon, courseId: 7, courseModalityId: 2, baseValue: 99.99 });
+
+    expect(result.discountAmount).toBe(33.33);
+    expect(result.commissionAmount).toBe(12.34);
+    expect(result.finalValue).toBe(66.66);
+  });
+
+  it('usa a configuração do curso no modo SPECIFIC, com a primeira como alternativa', () => {
+    const coupon = buildCoupon(CouponApplicationMode.SPECIFIC, [
+      buildConfiguration({ id: 1, courseId: 4, discountValue: 10 }),
+      buildConfiguration({ id: 2, courseId: 7, discountValue: 20 })
+    ]);
+
+    expect(calculateCouponPricing({ coupon, courseId: 7, courseModalityId: 2, baseValue: 100 }).configuration?.id).toBe(2);
+    expect(calculateCouponPricing({ coupon, courseId: 9, courseModalityId: 2, baseValue: 100 }).configuration?.id).toBe(1);
+  });
+
+  it('retorna o valor original quando o cupom não se aplica à modalidade', () => {
+    const coupon = buildCoupon(CouponApplicationMode.GENERAL, [
+      buildConfiguration({ courseModalityId: 3, discountPercent: 10 })
+    ]);
+
+    expect(calculateCouponPricing({ coupon, courseId: 7, courseModalityId: 2, baseValue: 500 })).toEqual({
+      applicable: false,
+      configuration: null,
+      originalValue: 500,
+      discountAmount: 0,
+      commissionAmount: 0,
+      finalValue: 500
+    });
+  });
+});
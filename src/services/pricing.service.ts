@@ -0,0 +1,138 @@
+import { PrismaClient, CouponApplicationMode } from '@prisma/client';
+import type { Coupon, CouponConfiguration } from '@prisma/client';
+import type { CouponPricingInput, CouponPricingResult } from '../models/coupon.model';
+
+const prisma = new PrismaClient();
+
+// Relações carregadas junto com o cupom para validação e cálculo de preço
+const couponPricingInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+    },
+  },
+  configurations: true,
+} as const;
+
+/**
+ * Busca um cupom pelo código ou, se não encontrar, pelo nome personalizado (case-insensitive)
+ */
+export const findCouponByCodeOrName = async (code: string) => {
+  const coupon = await prisma.coupon.findUnique({
+    where: { code },
+    include: couponPricingInclude,
+  });
+
+  if (coupon) {
+    return coupon;
+  }
+
+  console.log(`Cupom não encontrado pelo código "${code}", tentando buscar por nome personalizado`);
+
+  const couponsWithCustomName = await prisma.coupon.findMany({
+    where: {
+      customName: {
+        equals: code,
+        mode: 'insensitive',
+      },
+      active: true,
+    },
+    include: couponPricingInclude,
+  });
+
+  // Se houver mais de um cupom com o mesmo nome, usa o primeiro encontrado
+  return couponsWithCustomName[0] ?? null;
+};
+
+/**
+ * Motivo pelo qual um cupom não pode ser usado em uma nova venda (inativo, expirado ou sem usos disponíveis).
+ * A verificação de limite é antecipada: a reserva definitiva do uso é feita junto com a gravação da venda.
+ */
+export const getCouponUnavailableReason = (
+  coupon: Pick<Coupon, 'active' | 'expirationDate' | 'usageLimit' | 'usageCount'>
+): { error: string; message: string } | null => {
+  if (!coupon.active) {
+    return { error: 'Cupom inativo', message: 'Este cupom não está ativo' };
+  }
+
+  if (coupon.expirationDate && new Date() > new Date(coupon.expirationDate)) {
+    return { error: 'Cupom expirado', message: 'Este cupom já expirou' };
+  }
+
+  if (coupon.usageLimit !== null && coupon.usageCount >= coupon.usageLimit) {
+    return { error: 'Limite de uso excedido', message: 'Este cupom já atingiu seu limite máximo de uso' };
+  }
+
+  return null;
+};
+
+/**
+ * Arredonda um valor monetário para duas casas decimais
+ */
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Seleciona a configuração do cupom aplicável ao curso/modalidade
+ */
+const findApplicableConfiguration = (input: CouponPricingInput): CouponConfiguration | null => {
+  const { coupon, courseId, courseModalityId } = input;
+
+  if (coupon.applicationMode === CouponApplicationMode.GENERAL) {
+    return coupon.configurations.find(cfg => cfg.courseModalityId === courseModalityId) ?? null;
+  }
+
+  // Modo SPECIFIC: usa a configuração do curso ou, na falta dela, a primeira disponível
+  return coupon.configurations.find(cfg => cfg.courseId === courseId)
+    ?? coupon.configurations[0]
+    ?? null;
+};
+
+/**
+ * Calcula desconto, comissão e valor final de uma venda com cupom.
+ * É a única fonte desses valores: validação de cupom, cadastro e edição de aluno usam este cálculo.
+ */
+export const calculateCouponPricing = (input: CouponPricingInput): CouponPricingResult => {
+  const baseValue = input.baseValue;
+  const configuration = findApplicableConfiguration(input);
+
+  if (!configuration) {
+    return {
+      applicable: false,
+      configuration: null,
+      originalValue: baseValue,
+      discountAmount: 0,
+      commissionAmount: 0,
+      finalValue: baseValue,
+    };
+  }
+
+  let discountAmount = 0;
+  if (configuration.discountValue) {
+    discountAmount = configuration.discountValue;
+  } else if (configuration.discountPercent) {
+    discountAmount = (baseValue * configuration.discountPercent) / 100;
+  }
+
+  let commissionAmount = 0;
+  if (configuration.commissionValue) {
+    commissionAmount = configuration.commissionValue;
+  } else if (configuration.commissionPercent) {
+    commissionAmount = (baseValue * configuration.commissionPercent) / 100;
+  }
+
+  // O desconto nunca ultrapassa o valor do curso
+  discountAmount = roundCurrency(Math.min(discountAmount, baseValue));
+  commissionAmount = roundCurrency(commissionAmount);
+
+  return {
+    applicable: true,
+    configuration,
+    originalValue: baseValue,
+    discountAmount,
+    commissionAmount,
+    finalValue: roundCurrency(baseValue - discountAmount),
+  };
+};
@@ -0,0 +1,191 @@
+import { PrismaClient, InstallmentStatus } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import type { ReceivableItem, ReceivablesBucket, ReceivablesForecast } from '../models/report.model';
+import type { ReceivablesForecastFilters } from '../models/schemas/report.schema';
+import { PaymentStatus } from '../models/installment.model';
+import { endOfDayExclusive } from '../utils/date';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Horizonte padrão da previsão a partir de hoje
+const DEFAULT_FORECAST_DAYS = 90;
+
+// Vendedor carregado junto com o aluno dos valores a receber
+const receivableStudentSelect = {
+  id: true,
+  fullName: true,
+  paymentType: true,
+  paymentStatus: true,
+  createdBy: { select: { id: true, name: true } }
+} satisfies Prisma.StudentSelect;
+
+/**
+ * Arredonda um valor monetário para duas casas decimais
+ */
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Data no formato YYYY-MM-DD
+ */
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Chave do período da data conforme o agrupamento (semanas começam na segunda-feira)
+ */
+const toPeriodKey = (date: Date, groupBy: ReceivablesForecast['groupBy']): string => {
+  switch (groupBy) {
+    case 'day':
+      return toDateString(date);
+    case 'week':
+      return toDateString(new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS));
+    case 'month':
+      return toDateString(date).slice(0, 7);
+  }
+};
+
+/**
+ * Previsão de recebimentos: parcelas em aberto (saldo ainda não pago) agrupadas pela data de vencimento
+ * e vendas pendentes sem cronograma de parcelas pela data de previsão de pagamento.
+ * Valores com data prevista anterior a hoje são sinalizados como vencidos.
+ */
+export const getReceivablesForecast = async (
+  filters: ReceivablesForecastFilters,
+  isAdmin: boolean,
+  userId: number,
+  now = new Date()
+): Promise<ReceivablesForecast> => {
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const startDate = filters.startDate ?? today;
+  const endDate = filters.endDate ?? new Date(today.getTime() + DEFAULT_FORECAST_DAYS * DAY_MS);
+  const endExclusive = endOfDayExclusive(endDate);
+
+  // Vendedores veem apenas as próprias vendas
+  const studentWhere: Prisma.StudentWhereInput = {
+    deletedAt: null,
+    ...(!isAdmin ? { userId } : filters.userId && { userId: filters.userId }),
+    ...(filters.paymentType && { paymentType: filters.paymentType }),
+    ...(filters.courseId && { courseId: filters.courseId }),
+    ...(filters.courseModalityId && { courseModalityId: filters.courseModalityId })
+  };
+
+  const [installments, studentsWithoutSchedule] = await Promise.all([
+    prisma.installment.findMany({
+      where: {
+        status: InstallmentStatus.PENDING,
+        dueDate: { lt: endExclusive },
+        student: studentWhere
+      },
+      select: {
+        id: true,
+        number: true,
+        dueDate: true,
+        amount: true,
+        paidAmount: true,
+        student: { select: receivableStudentSelect }
+      },
+      orderBy: [{ dueDate: 'asc' }, { id: 'asc' }]
+    }),
+    // Vendas anteriores ao cronograma de parcelas
+    prisma.student.findMany({
+      where: {
+        ...studentWhere,
+        paymentStatus: { in: [PaymentStatus.PENDING, PaymentStatus.PARTIAL] },
+        paymentForecastDate: { lt: endExclusive },
+        installmentSchedule: { none: {} }
+      },
+      select: { ...receivableStudentSelect, value: true, discountAmount: true, paymentForecastDate: true },
+      orderBy: [{ paymentForecastDate: 'asc' }, { id: 'asc' }]
+    })
+  ]);
+
+  const toItem = (
+    student: Prisma.StudentGetPayload<{ select: typeof receivableStudentSelect }>,
+    dueDate: Date,
+    amount: number,
+    installment?: { id: number; number: number }
+  ): ReceivableItem => {
+    const daysOverdue = Math.max(0, Math.floor((today.getTime() - dueDate.getTime()) / DAY_MS));
+
+    return {
+      studentId: student.id,
+      fullName: student.fullName,
+      installmentId: installment?.id ?? null,
+      installmentNumber: installment?.number ?? null,
+      dueDate: toDateString(dueDate),
+      amount: roundCurrency(amount),
+      paymentType: student.paymentType,
+      paymentStatus: student.paymentStatus,
+      seller: student.createdBy,
+      overdue: daysOverdue > 0,
+      daysOverdue
+    };
+  };
+
+  const items = [
+    ...installments.map(installment => toItem(
+      installment.student,
+      installment.dueDate,
+      installment.amount - installment.paidAmount,
+      installment
+    )),
+    ...studentsWithoutSchedule.map(student => toItem(
+      student,
+      student.paymentForecastDate as Date,
+      student.value - (student.discountAmount ?? 0)
+    ))
+  ].filter(item => item.amount > 0);
+
+  const buckets = new Map<string, ReceivablesBucket>();
+  const totals: ReceivablesForecast['totals'] = { expected: 0, overdue: 0, byPaymentType: {} };
+  const startKey = toDateString(startDate);
+
+  for (const item of items) {
+    if (item.overdue) {
+      totals.overdue += item.amount;
+    }
+
+    // Valores anteriores ao intervalo entram apenas na lista de vencidos
+    if (item.dueDate < startKey) {
+      continue;
+    }
+
+    const period = toPeriodKey(new Date(item.dueDate), filters.groupBy);
+    const bucket = buckets.get(period) ?? { period, expected: 0, overdue: 0, count: 0, byPaymentType: {} };
+
+    bucket.expected += item.amount;
+    bucket.overdue += item.overdue ? item.amount : 0;
+    bucket.count += 1;
+    bucket.byPaymentType[item.paymentType] = (bucket.byPaymentType[item.paymentType] ?? 0) + item.amount;
+    buckets.set(period, bucket);
+
+    totals.expected += item.amount;
+    totals.byPaymentType[item.paymentType] = (totals.byPaymentType[item.paymentType] ?? 0) + item.amount;
+  }
+
+  const roundValues = (values: Record<string, number>) =>
+    Object.fromEntries(Object.entries(values).map(([key, value]) => [key, roundCurrency(value)]));
+
+  return {
+    groupBy: filters.groupBy,
+    startDate: startKey,
+    endDate: toDateString(endDate),
+    totals: {
+      expected: roundCurrency(totals.expected),
+      overdue: roundCurrency(totals.overdue),
+      byPaymentType: roundValues(totals.byPaymentType)
+    },
+    buckets: [...buckets.values()]
+      .sort((a, b) => a.period.localeCompare(b.period))
+      .map(bucket => ({
+        ...bucket,
+        expected: roundCurrency(bucket.expected),
+        overdue: roundCurrency(bucket.overdue),
+        byPaymentType: roundValues(bucket.byPaymentType)
+      })),
+    overdueItems: items
+      .filter(item => item.overdue)
+      .sort((a, b) => b.daysOverdue - a.daysOverdue)
+  };
+};
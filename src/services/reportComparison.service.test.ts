@@ -0,0 +1,40 @@
+import type { ReportStatisticsFilters } from '../models/schemas/report.schema';
+import { resolveComparisonRange } from './reportComparison.service';
+
+const buildFilters = (overrides: Partial<ReportStatisticsFilters>) => overrides as ReportStatisticsFilters;
+
+const utc = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+describe('resolveComparisonRange', () => {
+  const current = { startDate: utc('2025-03-01'), endDate: utc('2025-03-31') };
+
+  it('usa o período anterior com a mesma quantidade de dias por padrão', () => {
+    expect(resolveComparisonRange(buildFilters({}), current)).toEqual({
+      startDate: utc('2025-01-29'),
+      endDate: utc('2025-02-28')
+    });
+  });
+
+  it('usa as mesmas datas no ano anterior, ajustando 29/02', () => {
+    expect(resolveComparisonRange(buildFilters({ compareTo: 'lastYear' }), {
+      startDate: utc('2024-02-01'),
+      endDate: utc('2024-02-29')
+    })).toEqual({
+      startDate: utc('2023-02-01'),
+      endDate: utc('2023-02-28')
+    });
+  });
+
+  it('usa o intervalo informado no modo personalizado', () => {
+    const filters = buildFilters({
+      compareTo: 'custom',
+      compareStartDate: utc('2024-06-01'),
+      compareEndDate: utc('2024-06-15')
+    });
+
+    expect(resolveComparisonRange(filters, current)).toEqual({
+      startDate: utc('2024-06-01'),
+      endDate: utc('2024-06-15')
+    });
+  });
+});
@@ -0,0 +1,263 @@
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import type {
+  ComparisonMetrics,
+  MetricDelta,
+  ComparisonBreakdownItem,
+  StatisticsComparison
+} from '../models/report.model';
+import type { ReportStatisticsFilters } from '../models/schemas/report.schema';
+import { PaymentStatus } from '../models/installment.model';
+import { endOfDayExclusive } from '../utils/date';
+import { buildWhereClause } from './reportQuery.service';
+import { getSaleCommissionTotals } from './commission.service';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Intervalo de datas (inclusivo) de um dos períodos comparados
+interface DateRange {
+  startDate: Date;
+  endDate: Date;
+}
+
+// Campos agrupados no detalhamento da comparação
+type BreakdownField = 'courseId' | 'courseModalityId' | 'userId';
+
+// Somas de um período usadas para calcular os indicadores
+interface PeriodSums {
+  count: number;
+  value: number;
+  discount: number;
+  commission: number;
+}
+
+/**
+ * Data no formato YYYY-MM-DD
+ */
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Mesma data no ano anterior (29/02 vira 28/02)
+ */
+const shiftYear = (date: Date): Date => {
+  const year = date.getUTCFullYear() - 1;
+  const lastDay = new Date(Date.UTC(year, date.getUTCMonth() + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, date.getUTCMonth(), Math.min(date.getUTCDate(), lastDay)));
+};
+
+/**
+ * Intervalo do período de comparação conforme o modo solicitado
+ */
+export const resolveComparisonRange = (filters: ReportStatisticsFilters, current: DateRange): DateRange => {
+  switch (filters.compareTo) {
+    case 'lastYear':
+      return { startDate: shiftYear(current.startDate), endDate: shiftYear(current.endDate) };
+
+    case 'custom':
+      return { startDate: filters.compareStartDate as Date, endDate: filters.compareEndDate as Date };
+
+    case 'previousPeriod':
+    default: {
+      // Mesma quantidade de dias, terminando no dia anterior ao início do período atual
+      const days = Math.round((current.endDate.getTime() - current.startDate.getTime()) / DAY_MS) + 1;
+      const endDate = new Date(current.startDate.getTime() - DAY_MS);
+      return { startDate: new Date(endDate.getTime() - (days - 1) * DAY_MS), endDate };
+    }
+  }
+};
+
+/**
+ * Condições de busca das vendas não canceladas no intervalo de datas de registro
+ */
+const withRange = (where: Prisma.StudentWhereInput, range: DateRange): Prisma.StudentWhereInput => ({
+  AND: [where, { paymentStatus: { not: PaymentStatus.CANCELLED } }],
+  registrationDate: { gte: range.startDate, lt: endOfDayExclusive(range.endDate) }
+});
+
+/**
+ * Comissões do período (livro de lançamentos) somadas por valor do campo agrupado
+ */
+const getGroupedCommissions = async (
+  where: Prisma.StudentWhereInput,
+  field: BreakdownField
+): Promise<Map<number, number>> => {
+  const commissions = await getSaleCommissionTotals(where);
+
+  const students = await prisma.student.findMany({
+    where: { id: { in: [...commissions.keys()] } },
+    select: { id: true, courseId: true, courseModalityId: true, userId: true }
+  });
+
+  const result = new Map<number, number>();
+
+  for (const student of students) {
+    result.set(student[field], (result.get(student[field]) ?? 0) + (commissions.get(student.id) ?? 0));
+  }
+
+  return result;
+};
+
+/**
+ * Somas do período por valor do campo agrupado
+ */
+const getGroupedSums = async (
+  where: Prisma.StudentWhereInput,
+  field: BreakdownField
+): Promise<Map<number, PeriodSums>> => {
+  const [groups, commissions] = await Promise.all([
+    prisma.student.groupBy({
+      by: [field],
+      where,
+      _count: { _all: true },
+      _sum: { value: true, discountAmount: true }
+    }),
+    getGroupedCommissions(where, field)
+  ]);
+
+  return new Map(groups.map(group => [group[field], {
+    count: group._count._all,
+    value: group._sum.value ?? 0,
+    discount: group._sum.discountAmount ?? 0,
+    commission: commissions.get(group[field]) ?? 0
+  }]));
+};
+
+/**
+ * Somas totais do período
+ */
+const getTotalSums = async (where: Prisma.StudentWhereInput): Promise<PeriodSums> => {
+  const [aggregate, commissions] = await Promise.all([
+    prisma.student.aggregate({
+      where,
+      _count: { _all: true },
+      _sum: { value: true, discountAmount: true }
+    }),
+    getSaleCommissionTotals(where)
+  ]);
+
+  return {
+    count: aggregate._count._all,
+    value: aggregate._sum.value ?? 0,
+    discount: aggregate._sum.discountAmount ?? 0,
+    commission: [...commissions.values()].reduce((sum, amount) => sum + amount, 0)
+  };
+};
+
+/**
+ * Indicadores calculados a partir das somas do período
+ */
+const toMetrics = (sums?: PeriodSums): ComparisonMetrics => ({
+  revenue: sums?.value ?? 0,
+  students: sums?.count ?? 0,
+  avgTicket: sums && sums.count > 0 ? sums.value / sums.count : 0,
+  discount: sums?.discount ?? 0,
+  commission: sums?.commission ?? 0
+});
+
+/**
+ * Diferença e crescimento percentual (com duas casas decimais) de cada indicador
+ */
+const compareMetrics = (current: ComparisonMetrics, previous: ComparisonMetrics): Record<keyof ComparisonMetrics, MetricDelta> => {
+  const result = {} as Record<keyof ComparisonMetrics, MetricDelta>;
+
+  for (const key of Object.keys(current) as (keyof ComparisonMetrics)[]) {
+    const delta = current[key] - previous[key];
+
+    result[key] = {
+      current: current[key],
+      previous: previous[key],
+      delta,
+      growth: previous[key] !== 0 ? Math.round((delta / previous[key]) * 10000) / 100 : null
+    };
+  }
+
+  return result;
+};
+
+/**
+ * Detalhamento da comparação por curso, modalidade ou vendedor, ordenado pelo valor atual
+ */
+const compareBreakdown = async (
+  field: BreakdownField,
+  currentWhere: Prisma.StudentWhereInput,
+  previousWhere: Prisma.StudentWhereInput,
+  getNames: (ids: number[]) => Promise<Map<number, string>>
+): Promise<ComparisonBreakdownItem[]> => {
+  const [current, previous] = await Promise.all([
+    getGroupedSums(currentWhere, field),
+    getGroupedSums(previousWhere, field)
+  ]);
+
+  const ids = [...new Set([...current.keys(), ...previous.keys()])];
+  const names = await getNames(ids);
+
+  return ids
+    .map(id => ({
+      id,
+      name: names.get(id) ?? `ID ${id}`,
+      metrics: compareMetrics(toMetrics(current.get(id)), toMetrics(previous.get(id)))
+    }))
+    .sort((a, b) => b.metrics.revenue.current - a.metrics.revenue.current);
+};
+
+/**
+ * Nomes dos cursos do detalhamento
+ */
+const getCourseNames = async (ids: number[]): Promise<Map<number, string>> => {
+  const courses = await prisma.course.findMany({ where: { id: { in: ids } }, select: { id: true, name: true } });
+  return new Map(courses.map(course => [course.id, course.name]));
+};
+
+/**
+ * Nomes das modalidades do detalhamento
+ */
+const getModalityNames = async (ids: number[]): Promise<Map<number, string>> => {
+  const modalities = await prisma.courseModality.findMany({ where: { id: { in: ids } }, select: { id: true, name: true } });
+  return new Map(modalities.map(modality => [modality.id, modality.name]));
+};
+
+/**
+ * Nomes dos vendedores do detalhamento
+ */
+const getSellerNames = async (ids: number[]): Promise<Map<number, string>> => {
+  const sellers = await prisma.user.findMany({ where: { id: { in: ids } }, select: { id: true, name: true } });
+  return new Map(sellers.map(seller => [seller.id, seller.name]));
+};
+
+/**
+ * Compara o período filtrado com o período de comparação: faturamento, alunos, ticket médio,
+ * descontos e comissões, no total e por curso, modalidade e vendedor (apenas administradores).
+ * Vendas canceladas ficam de fora; os demais filtros do relatório valem para os dois períodos.
+ */
+export const getStatisticsComparison = async (
+  filters: ReportStatisticsFilters,
+  isAdmin: boolean,
+  userId: number
+): Promise<StatisticsComparison> => {
+  const current: DateRange = { startDate: filters.startDate as Date, endDate: filters.endDate as Date };
+  const previous = resolveComparisonRange(filters, current);
+
+  const baseWhere = buildWhereClause({ ...filters, startDate: undefined, endDate: undefined }, isAdmin, userId);
+  const currentWhere = withRange(baseWhere, current);
+  const previousWhere = withRange(baseWhere, previous);
+
+  const [currentTotals, previousTotals, byCourse, byModality, bySeller] = await Promise.all([
+    getTotalSums(currentWhere),
+    getTotalSums(previousWhere),
+    compareBreakdown('courseId', currentWhere, previousWhere, getCourseNames),
+    compareBreakdown('courseModalityId', currentWhere, previousWhere, getModalityNames),
+    isAdmin ? compareBreakdown('userId', currentWhere, previousWhere, getSellerNames) : Promise.resolve(undefined)
+  ]);
+
+  return {
+    mode: filters.compareTo ?? 'previousPeriod',
+    currentPeriod: { startDate: toDateString(current.startDate), endDate: toDateString(current.endDate) },
+    previousPeriod: { startDate: toDateString(previous.startDate), endDate: toDateString(previous.endDate) },
+    overall: compareMetrics(toMetrics(currentTotals), toMetrics(previousTotals)),
+    byCourse,
+    byModality,
+    ...(bySeller && { bySeller })
+  };
+};
@@ -0,0 +1,36 @@
+import { Writable } from 'stream';
+import { streamReportCsv } from './reportExport.service';
+
+describe('streamReportCsv', () => {
+  it('encerra a exportação quando o cliente desconecta enquanto o buffer está cheio', async () => {
+    // Destino que nunca esvazia o buffer, como uma conexão lenta
+    const destination = new Writable({ highWaterMark: 1, write: () => undefined });
+
+    async function* batches() {
+      yield [{ fullName: 'Aluno 1' }];
+      yield [{ fullName: 'Aluno 2' }];
+    }
+
+    const exporting = streamReportCsv(destination, batches());
+    setImmediate(() => destination.destroy());
+
+    await expect(exporting).resolves.toBe(0);
+  });
+
+  it('escreve o cabeçalho e uma linha por aluno', async () => {
+    const chunks: string[] = [];
+    const destination = new Writable({
+      write: (chunk, _encoding, callback) => {
+        chunks.push(chunk.toString());
+        callback();
+      }
+    });
+
+    async function* batches() {
+      yield [{ fullName: 'Aluno 1' }, { fullName: 'Aluno 2' }];
+    }
+
+    await expect(streamReportCsv(destination, batches())).resolves.toBe(2);
+    expect(chunks.join('').trim().split('\n')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,357 @@
+import type { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import type {
+  ColumnDefinition,
+  ColumnType,
+  GroupedReportResult,
+  StatisticsResult
+} from '../models/report.model';
+
+// Formatos numéricos das células da planilha
+const CURRENCY_FORMAT = '"R$" #,##0.00';
+const DATE_FORMAT = 'dd/mm/yyyy';
+const TEXT_FORMAT = '@';
+
+// Limite de caracteres do nome de uma aba no Excel
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * Colunas da listagem de alunos, compartilhadas por todos os formatos de exportação
+ */
+export const studentExportColumns: ColumnDefinition[] = [
+  { field: 'id', header: 'ID', type: 'number', width: 8 },
+  { field: 'registrationDate', header: 'Data de Registro', type: 'date', format: (value) => new Date(value as string).toLocaleDateString('pt-BR') },
+  { field: 'fullName', header: 'Nome Completo', width: 32 },
+  { field: 'cpf', header: 'CPF', format: (value) => formatCPF(value as string) },
+  { field: 'ddd', header: 'DDD', width: 6 },
+  { field: 'phone', header: 'Telefone' },
+  { field: 'email', header: 'Email', width: 28 },
+  { field: 'birthDate', header: 'Data de Nascimento', type: 'date', format: (value) => value ? new Date(value as string).toLocaleDateString('pt-BR') : '' },
+  { field: 'cnhNumber', header: 'Número CNH' },
+  { field: 'cnhType', header: 'Tipo CNH', width: 10 },
+  { field: 'courseModalityId', header: 'Modalidade de Curso ID', type: 'number' },
+  { field: 'courseId', header: 'Curso ID', type: 'number' },
+  { field: 'value', header: 'Valor', type: 'currency', format: (value) => formatValue(value as number) },
+  { field: 'listPrice', header: 'Valor de Tabela', type: 'currency', format: (value) => formatValue(value as number) },
+  { field: 'priceOverridden', header: 'Valor Manual', type: 'boolean', format: (value) => value ? 'Sim' : 'Não' },
+  { field: 'paymentType', header: 'Tipo de Pagamento' },
+  { field: 'installments', header: 'Parcelas', type: 'number', width: 10 },
+  { field: 'paymentStatus', header: 'Status de Pagamento' },
+  { field: 'createdBy.name', header: 'Vendedor', width: 24 }
+];
+
+/**
+ * Lê o valor de uma coluna no registro, incluindo campos aninhados como "createdBy.name"
+ */
+export const getColumnValue = (record: Record<string, unknown>, field: string): unknown => {
+  let value: unknown = record;
+
+  for (const path of field.split('.')) {
+    if (value && typeof value === 'object') {
+      value = (value as Record<string, unknown>)[path];
+    } else {
+      return undefined;
+    }
+  }
+
+  return value;
+};
+
+/**
+ * Valor formatado como texto (CSV e PDF)
+ */
+export const formatColumnValue = (column: ColumnDefinition, value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  return column.format ? column.format(value) : String(value);
+};
+
+/**
+ * Valor tipado para a célula da planilha (datas como data, valores como número)
+ */
+const toCellValue = (column: ColumnDefinition, value: unknown): ExcelJS.CellValue => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  switch (column.type ?? 'text') {
+    case 'date': {
+      const date = value instanceof Date ? value : new Date(value as string);
+      return Number.isNaN(date.getTime()) ? null : date;
+    }
+    case 'number':
+    case 'currency':
+      return Number(value);
+    case 'boolean':
+      return value ? 'Sim' : 'Não';
+    default:
+      // Texto mantém a formatação da exportação (ex: CPF com pontuação) sem conversão para número
+      return formatColumnValue(column, value);
+  }
+};
+
+/**
+ * Formato numérico da célula conforme o tipo da coluna
+ */
+const getNumberFormat = (type: ColumnType): string | undefined => {
+  switch (type) {
+    case 'currency':
+      return CURRENCY_FORMAT;
+    case 'date':
+      return DATE_FORMAT;
+    case 'text':
+      return TEXT_FORMAT;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Nome de aba válido e único (sem caracteres proibidos e com até 31 caracteres)
+ */
+const toSheetName = (workbook: ExcelJS.Workbook, name: string): string => {
+  const base = name.replace(/[\\/*?:[\]]/g, '-').slice(0, MAX_SHEET_NAME_LENGTH).trim() || 'Grupo';
+  let sheetName = base;
+  let suffix = 2;
+
+  while (workbook.getWorksheet(sheetName)) {
+    const tag = ` (${suffix++})`;
+    sheetName = `${base.slice(0, MAX_SHEET_NAME_LENGTH - tag.length)}${tag}`;
+  }
+
+  return sheetName;
+};
+
+/**
+ * Adiciona uma aba com o cabeçalho da listagem de alunos usando as colunas de exportação
+ */
+const addStudentSheet = (workbook: ExcelJS.Workbook, name: string): ExcelJS.Worksheet => {
+  const worksheet = workbook.addWorksheet(toSheetName(workbook, name), {
+    views: [{ state: 'frozen', ySplit: 1 }]
+  });
+
+  worksheet.columns = studentExportColumns.map(column => ({
+    header: column.header,
+    key: column.field,
+    width: column.width ?? 18,
+    style: { numFmt: getNumberFormat(column.type ?? 'text') }
+  }));
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.autoFilter = {
+    from: { row: 1, column: 1 },
+    to: { row: 1, column: studentExportColumns.length }
+  };
+
+  return worksheet;
+};
+
+/**
+ * Adiciona a linha de um aluno com as células tipadas
+ */
+const addStudentRow = (worksheet: ExcelJS.Worksheet, student: Record<string, unknown>): ExcelJS.Row =>
+  worksheet.addRow(studentExportColumns.map(column =>
+    toCellValue(column, getColumnValue(student, column.field))
+  ));
+
+/**
+ * Adiciona a aba de resumo com os totais do relatório
+ */
+const addSummarySheet = (
+  workbook: ExcelJS.Workbook,
+  overall: StatisticsResult['overall'],
+  modalityNames: Record<string, string>,
+  grouped?: GroupedReportResult[]
+): ExcelJS.Worksheet => {
+  const worksheet = workbook.addWorksheet('Resumo');
+  worksheet.columns = [
+    { key: 'label', width: 36 },
+    { key: 'count', width: 14 },
+    { key: 'value', width: 18, style: { numFmt: CURRENCY_FORMAT } },
+    { key: 'avg', width: 18, style: { numFmt: CURRENCY_FORMAT } }
+  ];
+
+  const addTitle = (title: string) => {
+    const row = worksheet.addRow([title]);
+    row.font = { bold: true, size: 12 };
+  };
+
+  const addHeader = (...headers: string[]) => {
+    worksheet.addRow(headers).font = { bold: true };
+  };
+
+  addTitle('Totais');
+  worksheet.addRow(['Total de alunos', overall.totalStudents]);
+  worksheet.addRow(['Valor total', null, overall.totalValue]);
+  worksheet.addRow(['Valor médio', null, overall.avgValue]);
+  worksheet.addRow([]);
+
+  addTitle('Por status de pagamento');
+  addHeader('Status', 'Alunos');
+  for (const [status, count] of Object.entries(overall.paymentStatusCounts)) {
+    worksheet.addRow([status, count]);
+  }
+  worksheet.addRow([]);
+
+  addTitle('Por modalidade');
+  addHeader('Modalidade', 'Alunos');
+  for (const [modalityId, count] of Object.entries(overall.courseModalityIdCounts)) {
+    worksheet.addRow([modalityNames[modalityId] ?? `Modalidade ${modalityId}`, count]);
+  }
+
+  if (grouped && grouped.length > 0) {
+    worksheet.addRow([]);
+    addTitle('Por grupo');
+    addHeader('Grupo', 'Alunos', 'Valor total', 'Valor médio');
+    for (const group of grouped) {
+      worksheet.addRow([group.groupLabel, group.count, group.totalValue, group.avgValue]);
+    }
+  }
+
+  return worksheet;
+};
+
+/**
+ * Monta a planilha do relatório em memória: resumo, listagem de alunos e uma aba por grupo.
+ * Usada quando há agrupamento, pois as abas dos grupos dependem de todas as linhas.
+ */
+export const buildReportWorkbook = async (
+  students: Record<string, unknown>[],
+  overall: StatisticsResult['overall'],
+  modalityNames: Record<string, string>,
+  grouped?: GroupedReportResult[]
+): Promise<Buffer> => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Controle de Vendas';
+  workbook.created = new Date();
+
+  addSummarySheet(workbook, overall, modalityNames, grouped);
+
+  const studentSheet = addStudentSheet(workbook, 'Alunos');
+  students.forEach(student => addStudentRow(studentSheet, student));
+
+  for (const group of grouped ?? []) {
+    const groupSheet = addStudentSheet(workbook, group.groupLabel);
+    ((group.items ?? []) as unknown as Record<string, unknown>[]).forEach(student => addStudentRow(groupSheet, student));
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+};
+
+/**
+ * Escreve a planilha do relatório diretamente no destino, linha a linha:
+ * o resumo vem dos totais já calculados e os alunos são lidos em lotes
+ */
+export const streamReportWorkbook = async (
+  destination: Writable,
+  batches: AsyncIterable<Record<string, unknown>[]>,
+  overall: StatisticsResult['overall'],
+  modalityNames: Record<string, string>
+): Promise<number> => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: destination, useStyles: true });
+  workbook.creator = 'Controle de Vendas';
+  workbook.created = new Date();
+
+  addSummarySheet(workbook, overall, modalityNames).commit();
+
+  const studentSheet = addStudentSheet(workbook, 'Alunos');
+  let rows = 0;
+
+  for await (const batch of batches) {
+    for (const student of batch) {
+      addStudentRow(studentSheet, student).commit();
+      rows++;
+    }
+  }
+
+  studentSheet.commit();
+  await workbook.commit();
+  return rows;
+};
+
+/**
+ * Linha de cabeçalho do CSV
+ */
+const toCsvHeader = (): string => studentExportColumns.map(col => `"${col.header}"`).join(',');
+
+/**
+ * Linha do CSV de um aluno (valores entre aspas, com aspas duplas escapadas)
+ */
+const toCsvLine = (student: Record<string, unknown>): string =>
+  studentExportColumns
+    .map(col => `"${formatColumnValue(col, getColumnValue(student, col.field)).replace(/"/g, '""')}"`)
+    .join(',');
+
+/**
+ * Escreve no destino respeitando o controle de fluxo (aguarda o esvaziamento do buffer).
+ * A espera também termina se o destino for fechado ou falhar, como quando o cliente desconecta.
+ */
+const writeChunk = async (destination: Writable, chunk: string): Promise<void> => {
+  if (destination.destroyed || destination.write(chunk)) {
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      destination.off('drain', onDrain);
+      destination.off('close', onDrain);
+      destination.off('error', onError);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+
+    destination.on('drain', onDrain);
+    destination.on('close', onDrain);
+    destination.on('error', onError);
+  });
+};
+
+/**
+ * Escreve o CSV no destino lote a lote, sem montar o arquivo inteiro em memória
+ */
+export const streamReportCsv = async (
+  destination: Writable,
+  batches: AsyncIterable<Record<string, unknown>[]>
+): Promise<number> => {
+  let rows = 0;
+
+  await writeChunk(destination, `${toCsvHeader()}\n`);
+
+  for await (const batch of batches) {
+    if (destination.destroyed) {
+      break; // Cliente desconectou
+    }
+
+    await writeChunk(destination, batch.map(student => `${toCsvLine(student)}\n`).join(''));
+    rows += batch.length;
+  }
+
+  if (!destination.destroyed) {
+    destination.end();
+  }
+
+  return rows;
+};
+
+/**
+ * Função para formatar CPF (000.000.000-00)
+ */
+export const formatCPF = (cpf: string): string => {
+  if (!cpf || cpf.length !== 11) return cpf;
+  return `${cpf.slice(0, 3)}.${cpf.slice(3, 6)}.${cpf.slice(6, 9)}-${cpf.slice(9)}`;
+};
+
+/**
+ * Função para formatar valor (R$ 0.000,00)
+ */
+export const formatValue = (value: number): string => {
+  return `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
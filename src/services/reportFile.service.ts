@@ -0,0 +1,125 @@
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import { PassThrough } from 'stream';
+import type { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import type { ReportFilters } from '../models/schemas/report.schema';
+import { ExportFormat } from '../models/schemas/report.schema';
+import { AppError } from '../utils/errorHandler';
+import { buildReportWorkbook, streamReportWorkbook, streamReportCsv } from './reportExport.service';
+import { buildReportPdf } from './reportPdf.service';
+import { getOverallStatistics, getModalityNames } from './reportStatistics.service';
+import { findExportStudentBatches, collectBatches, groupResults } from './reportQuery.service';
+import { getExportMaxRows } from './systemSetting.service';
+
+const prisma = new PrismaClient();
+
+// Tipo de conteúdo e nome do arquivo de cada formato de exportação
+const EXPORT_FILE_TYPES: Record<ExportFormat, { contentType: string; fileName: string }> = {
+  [ExportFormat.CSV]: { contentType: 'text/csv', fileName: 'relatorio_alunos.csv' },
+  [ExportFormat.EXCEL]: {
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    fileName: 'relatorio_alunos.xlsx'
+  },
+  [ExportFormat.PDF]: { contentType: 'application/pdf', fileName: 'relatorio_alunos.pdf' }
+};
+
+/**
+ * Tipo de conteúdo e nome do arquivo do formato informado
+ */
+export const getExportFileType = (format: string): { contentType: string; fileName: string } => {
+  const fileType = EXPORT_FILE_TYPES[format as ExportFormat];
+
+  if (!fileType) {
+    throw new AppError(`Formato de exportação '${format}' não suportado`, 400, 'format', 'INVALID_EXPORT_FORMAT');
+  }
+
+  return fileType;
+};
+
+/**
+ * Conta os alunos da exportação e garante que não excedem o limite de linhas configurado
+ */
+export const checkExportRowLimit = async (where: Prisma.StudentWhereInput): Promise<number> => {
+  const [total, maxRows] = await Promise.all([
+    prisma.student.count({ where }),
+    getExportMaxRows()
+  ]);
+
+  if (total > maxRows) {
+    throw new AppError(
+      `A exportação possui ${total} alunos e excede o limite de ${maxRows} linhas. Refine os filtros e tente novamente.`,
+      400,
+      undefined,
+      'EXPORT_LIMIT_EXCEEDED',
+      { total, maxRows }
+    );
+  }
+
+  return total;
+};
+
+/**
+ * Gera o arquivo da exportação no destino (resposta HTTP ou arquivo em disco) e encerra o destino.
+ * CSV e Excel sem agrupamento são escritos linha a linha; PDF e Excel agrupado são montados em memória.
+ * Retorna a quantidade de alunos exportados.
+ */
+export const writeReportExport = async (
+  destination: Writable,
+  format: string,
+  where: Prisma.StudentWhereInput,
+  filters: ReportFilters
+): Promise<number> => {
+  const batches = findExportStudentBatches(where, filters);
+
+  switch (format) {
+    case ExportFormat.CSV:
+      return streamReportCsv(destination, batches);
+
+    case ExportFormat.EXCEL: {
+      const overall = await getOverallStatistics(where);
+      const modalityNames = await getModalityNames(Object.keys(overall.courseModalityIdCounts));
+
+      if (!filters.groupBy) {
+        return streamReportWorkbook(destination, batches, overall, modalityNames);
+      }
+
+      // Com agrupamento cada grupo ganha uma aba própria, o que exige todas as linhas
+      const students = await collectBatches(batches);
+      destination.end(await buildReportWorkbook(students, overall, modalityNames, groupResults(students, filters.groupBy)));
+      return students.length;
+    }
+
+    case ExportFormat.PDF: {
+      const overall = await getOverallStatistics(where);
+      const modalityNames = await getModalityNames(Object.keys(overall.courseModalityIdCounts));
+      const students = await collectBatches(batches);
+
+      destination.end(await buildReportPdf(students, overall, modalityNames, filters));
+      return students.length;
+    }
+
+    default:
+      throw new AppError(`Formato de exportação '${format}' não suportado`, 400, 'format', 'INVALID_EXPORT_FORMAT');
+  }
+};
+
+/**
+ * Gera o arquivo da exportação em memória (ex: anexo de email)
+ */
+export const buildReportExportBuffer = async (
+  format: string,
+  where: Prisma.StudentWhereInput,
+  filters: ReportFilters
+): Promise<Buffer> => {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+  await Promise.all([
+    writeReportExport(output, format, where, filters),
+    finished(output)
+  ]);
+
+  return Buffer.concat(chunks);
+};
@@ -0,0 +1,15 @@
+import { maskCPF } from './reportPdf.service';
+
+describe('maskCPF', () => {
+  it('mantém apenas os dígitos centrais do CPF', () => {
+    expect(maskCPF('12345678901')).toBe('***.456.789-**');
+  });
+
+  it('mascara por inteiro valores incompletos', () => {
+    expect(maskCPF('1234')).toBe('****');
+  });
+
+  it('mantém valores vazios', () => {
+    expect(maskCPF('')).toBe('');
+  });
+});
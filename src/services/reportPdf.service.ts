@@ -0,0 +1,265 @@
+import PDFDocument from 'pdfkit';
+import type { ColumnDefinition, StatisticsResult } from '../models/report.model';
+import type { ReportFilters } from '../models/schemas/report.schema';
+import { getColumnValue, formatColumnValue, formatValue } from './reportExport.service';
+
+// Identidade visual do relatório
+const BRAND_NAME = 'Controle de Vendas';
+const BRAND_COLOR = '#1F4E79';
+const MUTED_COLOR = '#6B7280';
+const STRIPE_COLOR = '#F3F6FA';
+
+// Layout da página (A4 paisagem, medidas em pontos)
+const PAGE_MARGIN = 36;
+const HEADER_HEIGHT = 48;
+const FOOTER_HEIGHT = 24;
+const ROW_HEIGHT = 18;
+const CELL_PADDING = 4;
+
+// Rótulos dos filtros exibidos no cabeçalho do relatório
+const FILTER_LABELS: Partial<Record<keyof ReportFilters, string>> = {
+  fullName: 'Nome',
+  cpf: 'CPF',
+  courseId: 'Curso (ID)',
+  courseModalityId: 'Modalidade (ID)',
+  startDate: 'Data inicial',
+  endDate: 'Data final',
+  paymentStatus: 'Status de pagamento',
+  paymentType: 'Tipo de pagamento',
+  minValue: 'Valor mínimo',
+  maxValue: 'Valor máximo',
+  userId: 'Vendedor (ID)',
+  minAge: 'Idade mínima',
+  maxAge: 'Idade máxima',
+  cnhType: 'Tipo CNH',
+  groupBy: 'Agrupamento',
+  sortBy: 'Ordenação'
+};
+
+/**
+ * Colunas da tabela de alunos no PDF (largura em pontos); o CPF é mascarado
+ */
+const pdfColumns: ColumnDefinition[] = [
+  { field: 'registrationDate', header: 'Registro', width: 62, format: (value) => new Date(value as string).toLocaleDateString('pt-BR') },
+  { field: 'fullName', header: 'Nome Completo', width: 170 },
+  { field: 'cpf', header: 'CPF', width: 88, format: (value) => maskCPF(value as string) },
+  { field: 'courseModality.name', header: 'Modalidade', width: 110 },
+  { field: 'value', header: 'Valor', width: 78, format: (value) => formatValue(value as number) },
+  { field: 'paymentType', header: 'Pagamento', width: 92 },
+  { field: 'installments', header: 'Parcelas', width: 50 },
+  { field: 'paymentStatus', header: 'Status', width: 60 },
+  { field: 'createdBy.name', header: 'Vendedor', width: 60 }
+];
+
+/**
+ * Mascara o CPF mantendo apenas os dígitos centrais (***.456.789-**).
+ * Valores incompletos (como o CPF parcial usado no filtro) são mascarados por inteiro.
+ */
+export const maskCPF = (cpf: string): string => {
+  if (!cpf) return cpf;
+  if (cpf.length !== 11) return '*'.repeat(cpf.length);
+  return `***.${cpf.slice(3, 6)}.${cpf.slice(6, 9)}-**`;
+};
+
+/**
+ * Descreve os filtros aplicados em texto ("Status de pagamento: Pago")
+ */
+const describeFilters = (filters: ReportFilters): string[] =>
+  (Object.keys(FILTER_LABELS) as (keyof ReportFilters)[])
+    .filter(key => filters[key] !== undefined && filters[key] !== '')
+    .map(key => {
+      const value = filters[key];
+      const text = value instanceof Date
+        ? value.toLocaleDateString('pt-BR', { timeZone: 'UTC' })
+        : key === 'minValue' || key === 'maxValue'
+          ? formatValue(value as number)
+          : key === 'cpf'
+            ? maskCPF(String(value))
+            : String(value);
+
+      return `${FILTER_LABELS[key]}: ${text}`;
+    });
+
+/**
+ * Cabeçalho com a identidade visual, repetido em todas as páginas
+ */
+const drawPageHeader = (doc: PDFKit.PDFDocument, generatedAt: Date): void => {
+  const width = doc.page.width;
+
+  doc.save()
+    .rect(0, 0, width, HEADER_HEIGHT)
+    .fill(BRAND_COLOR)
+    .restore();
+
+  doc.fillColor('#FFFFFF').font('Helvetica-Bold').fontSize(16)
+    .text(BRAND_NAME, PAGE_MARGIN, 16, { lineBreak: false });
+  doc.font('Helvetica').fontSize(9)
+    .text(`Relatório de alunos · gerado em ${generatedAt.toLocaleString('pt-BR')}`, PAGE_MARGIN, 20, {
+      width: width - PAGE_MARGIN * 2,
+      align: 'right',
+      lineBreak: false
+    });
+
+  doc.fillColor('#000000');
+  doc.y = HEADER_HEIGHT + 16;
+  doc.x = PAGE_MARGIN;
+};
+
+/**
+ * Título de seção
+ */
+const drawSectionTitle = (doc: PDFKit.PDFDocument, title: string): void => {
+  doc.moveDown(0.5);
+  doc.fillColor(BRAND_COLOR).font('Helvetica-Bold').fontSize(12).text(title, PAGE_MARGIN);
+  doc.fillColor('#000000').font('Helvetica').fontSize(9);
+  doc.moveDown(0.3);
+};
+
+/**
+ * Tabela simples de contagens (rótulo e quantidade) usada nos totais
+ */
+const drawCountTable = (doc: PDFKit.PDFDocument, x: number, y: number, title: string, counts: [string, number][]): number => {
+  doc.font('Helvetica-Bold').fontSize(10).text(title, x, y);
+  let rowY = y + 16;
+
+  doc.font('Helvetica').fontSize(9);
+  for (const [label, count] of counts) {
+    doc.text(label, x, rowY, { width: 160, lineBreak: false });
+    doc.text(String(count), x + 160, rowY, { width: 60, align: 'right', lineBreak: false });
+    rowY += 14;
+  }
+
+  return rowY;
+};
+
+/**
+ * Linha de cabeçalho da tabela de alunos
+ */
+const drawTableHeader = (doc: PDFKit.PDFDocument, y: number): number => {
+  const tableWidth = pdfColumns.reduce((sum, column) => sum + (column.width ?? 0), 0);
+
+  doc.save().rect(PAGE_MARGIN, y, tableWidth, ROW_HEIGHT).fill(BRAND_COLOR).restore();
+  doc.fillColor('#FFFFFF').font('Helvetica-Bold').fontSize(8);
+
+  let x = PAGE_MARGIN;
+  for (const column of pdfColumns) {
+    doc.text(column.header, x + CELL_PADDING, y + 5, { width: (column.width ?? 0) - CELL_PADDING * 2, lineBreak: false });
+    x += column.width ?? 0;
+  }
+
+  doc.fillColor('#000000').font('Helvetica');
+  return y + ROW_HEIGHT;
+};
+
+/**
+ * Tabela de alunos paginada: quebra de página repete o cabeçalho da tabela
+ */
+const drawStudentTable = (doc: PDFKit.PDFDocument, students: Record<string, unknown>[], generatedAt: Date): void => {
+  const tableWidth = pdfColumns.reduce((sum, column) => sum + (column.width ?? 0), 0);
+  const bottom = doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT;
+  let y = drawTableHeader(doc, doc.y);
+
+  students.forEach((student, index) => {
+    if (y + ROW_HEIGHT > bottom) {
+      doc.addPage();
+      drawPageHeader(doc, generatedAt);
+      y = drawTableHeader(doc, doc.y);
+    }
+
+    if (index % 2 === 1) {
+      doc.save().rect(PAGE_MARGIN, y, tableWidth, ROW_HEIGHT).fill(STRIPE_COLOR).restore();
+    }
+
+    doc.fillColor('#000000').fontSize(8);
+    let x = PAGE_MARGIN;
+    for (const column of pdfColumns) {
+      doc.text(formatColumnValue(column, getColumnValue(student, column.field)), x + CELL_PADDING, y + 5, {
+        width: (column.width ?? 0) - CELL_PADDING * 2,
+        height: ROW_HEIGHT - 5,
+        ellipsis: true,
+        lineBreak: false
+      });
+      x += column.width ?? 0;
+    }
+
+    y += ROW_HEIGHT;
+  });
+
+  if (students.length === 0) {
+    doc.fontSize(9).fillColor(MUTED_COLOR).text('Nenhum aluno encontrado para os filtros aplicados.', PAGE_MARGIN, y + 6);
+  }
+};
+
+/**
+ * Numeração das páginas no rodapé
+ */
+const drawPageNumbers = (doc: PDFKit.PDFDocument): void => {
+  const range = doc.bufferedPageRange();
+
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(8)
+      .text(
+        `Página ${index + 1} de ${range.count}`,
+        PAGE_MARGIN,
+        doc.page.height - PAGE_MARGIN - 10,
+        { width: doc.page.width - PAGE_MARGIN * 2, align: 'right', lineBreak: false }
+      );
+  }
+};
+
+/**
+ * Gera o PDF do relatório de alunos: filtros aplicados, totais por status de pagamento
+ * e por modalidade e tabela paginada de alunos
+ */
+export const buildReportPdf = (
+  students: Record<string, unknown>[],
+  overall: StatisticsResult['overall'],
+  modalityNames: Record<string, string>,
+  filters: ReportFilters
+): Promise<Buffer> => new Promise((resolve, reject) => {
+  const generatedAt = new Date();
+  const doc = new PDFDocument({
+    size: 'A4',
+    layout: 'landscape',
+    margin: PAGE_MARGIN,
+    bufferPages: true,
+    info: { Title: 'Relatório de alunos', Author: BRAND_NAME }
+  });
+
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  doc.on('end', () => resolve(Buffer.concat(chunks)));
+  doc.on('error', reject);
+
+  drawPageHeader(doc, generatedAt);
+
+  drawSectionTitle(doc, 'Filtros aplicados');
+  const appliedFilters = describeFilters(filters);
+  doc.text(appliedFilters.length > 0 ? appliedFilters.join('   ·   ') : 'Nenhum filtro aplicado', PAGE_MARGIN, doc.y, {
+    width: doc.page.width - PAGE_MARGIN * 2
+  });
+
+  drawSectionTitle(doc, 'Totais');
+  doc.text(
+    `Alunos: ${overall.totalStudents}   ·   Valor total: ${formatValue(overall.totalValue)}   ·   Valor médio: ${formatValue(overall.avgValue)}`,
+    PAGE_MARGIN
+  );
+
+  const tablesY = doc.y + 10;
+  const statusEnd = drawCountTable(doc, PAGE_MARGIN, tablesY, 'Por status de pagamento', Object.entries(overall.paymentStatusCounts));
+  const modalityEnd = drawCountTable(
+    doc,
+    PAGE_MARGIN + 260,
+    tablesY,
+    'Por modalidade',
+    Object.entries(overall.courseModalityIdCounts).map(([id, count]) => [modalityNames[id] ?? `Modalidade ${id}`, count])
+  );
+  doc.y = Math.max(statusEnd, modalityEnd);
+
+  drawSectionTitle(doc, 'Alunos');
+  drawStudentTable(doc, students, generatedAt);
+
+  drawPageNumbers(doc);
+  doc.end();
+});
@@ -0,0 +1,334 @@
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import type { ReportFilters } from '../models/schemas/report.schema';
+import type { GroupedReportResult, ReportStudent } from '../models/report.model';
+import { endOfDayExclusive } from '../utils/date';
+import { findInBatches } from './reportStatistics.service';
+
+const prisma = new PrismaClient();
+
+// Relações carregadas nos alunos exportados
+const exportStudentInclude = {
+  createdBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true
+    }
+  },
+  courseModality: {
+    select: {
+      id: true,
+      name: true
+    }
+  }
+} satisfies Prisma.StudentInclude;
+
+/**
+ * Formata o aluno para o relatório (datas de pagamento como YYYY-MM-DD e idade calculada)
+ */
+export const toReportStudent = <T extends { paymentDate: Date | null; paymentForecastDate: Date | null; birthDate: Date | null }>(student: T) => ({
+  ...student,
+  paymentDate: student.paymentDate ? student.paymentDate.toISOString().split('T')[0] : null,
+  paymentForecastDate: student.paymentForecastDate ? student.paymentForecastDate.toISOString().split('T')[0] : null,
+  age: calculateAge(student.birthDate)
+});
+
+/**
+ * Lê os alunos da exportação em lotes, na ordenação solicitada (com o ID como desempate para o cursor)
+ */
+export async function* findExportStudentBatches(
+  where: Prisma.StudentWhereInput,
+  filters: ReportFilters
+): AsyncGenerator<Record<string, unknown>[]> {
+  const batches = findInBatches(page => prisma.student.findMany({
+    where,
+    orderBy: [
+      buildOrderByClause(filters.sortBy, filters.sortOrder as 'asc' | 'desc' | undefined),
+      { id: 'asc' }
+    ],
+    include: exportStudentInclude,
+    ...page
+  }));
+  
+  for await (const batch of batches) {
+    yield batch.map(toReportStudent);
+  }
+}
+
+/**
+ * Reúne todos os lotes em memória (PDF e Excel agrupado), limitado pelo teto de linhas da exportação
+ */
+export const collectBatches = async (batches: AsyncIterable<Record<string, unknown>[]>): Promise<Record<string, unknown>[]> => {
+  const students: Record<string, unknown>[] = [];
+  
+  for await (const batch of batches) {
+    students.push(...batch);
+  }
+  
+  return students;
+};
+
+/**
+ * Constrói a cláusula WHERE do Prisma com base nos filtros
+ */
+export const buildWhereClause = (
+  filters: ReportFilters, 
+  isAdmin: boolean, 
+  userId: number
+): Prisma.StudentWhereInput => {
+  // Alunos removidos não entram em relatórios
+  const where: Prisma.StudentWhereInput = { deletedAt: null };
+  
+  // Se não for admin, só pode ver seus próprios alunos
+  if (!isAdmin) {
+    where.userId = userId;
+  } else if (filters.userId) {
+    // Se for admin e especificou userId, filtra por esse vendedor
+    where.userId = filters.userId;
+  }
+  
+  // Filtros básicos
+  if (filters.fullName) where.fullName = { contains: filters.fullName, mode: 'insensitive' };
+  if (filters.cpf) where.cpf = { contains: filters.cpf };
+  if (filters.courseId) where.courseId = Number(filters.courseId);
+  if (filters.courseModalityId) where.courseModalityId = Number(filters.courseModalityId);
+  if (filters.paymentStatus) where.paymentStatus = filters.paymentStatus;
+  if (filters.paymentType) where.paymentType = filters.paymentType;
+  if (filters.cnhType) where.cnhType = filters.cnhType;
+  
+  // Filtro de datas (a data final inclui o dia inteiro)
+  if (filters.startDate || filters.endDate) {
+    where.registrationDate = {
+      ...(filters.startDate && { gte: filters.startDate }),
+      ...(filters.endDate && { lt: endOfDayExclusive(filters.endDate) })
+    };
+  }
+  
+  // Filtro de faixa de valor
+  if (filters.minValue !== undefined || filters.maxValue !== undefined) {
+    where.value = {
+      ...(filters.minValue !== undefined && { gte: filters.minValue }),
+      ...(filters.maxValue !== undefined && { lte: filters.maxValue })
+    };
+  }
+  
+  // Filtro por idade (calcula a partir da data de nascimento)
+  if (filters.minAge !== undefined || filters.maxAge !== undefined) {
+    const now = new Date();
+    
+    if (filters.minAge !== undefined) {
+      const maxBirthDate = new Date();
+      maxBirthDate.setFullYear(now.getFullYear() - filters.minAge);
+      
+      // Prepara o filtro de data de nascimento
+      if (!where.birthDate) {
+        where.birthDate = {};
+      }
+      
+      // Adiciona condição de data máxima
+      if (where.birthDate && typeof where.birthDate === 'object') {
+        where.birthDate = {
+          ...where.birthDate as object,
+          lte: maxBirthDate
+        };
+      } else {
+        where.birthDate = { lte: maxBirthDate };
+      }
+    }
+    
+    if (filters.maxAge !== undefined) {
+      const minBirthDate = new Date();
+      minBirthDate.setFullYear(now.getFullYear() - filters.maxAge - 1);
+      minBirthDate.setDate(minBirthDate.getDate() + 1);
+      
+      // Prepara o filtro de data de nascimento
+      if (!where.birthDate) {
+        where.birthDate = {};
+      }
+      
+      // Adiciona condição de data mínima
+      if (where.birthDate && typeof where.birthDate === 'object') {
+        where.birthDate = {
+          ...where.birthDate as object,
+          gte: minBirthDate
+        };
+      } else {
+        where.birthDate = { gte: minBirthDate };
+      }
+    }
+  }
+  
+  return where;
+};
+
+/**
+ * Calcula a idade a partir da data de nascimento
+ */
+const calculateAge = (birthDate: Date | null): number | undefined => {
+  if (!birthDate) return undefined;
+  
+  const today = new Date();
+  let age = today.getFullYear() - birthDate.getFullYear();
+  const m = today.getMonth() - birthDate.getMonth();
+  
+  if (m < 0 || (m === 0 && today.getDate() < birthDate.getDate())) {
+    age--;
+  }
+  
+  return age;
+};
+
+/**
+ * Constrói a cláusula ORDER BY do Prisma com base nos filtros
+ */
+export const buildOrderByClause = (
+  sortBy?: string,
+  sortOrder: 'asc' | 'desc' = 'desc'
+): Prisma.StudentOrderByWithRelationInput => {
+  if (!sortBy) {
+    return { registrationDate: sortOrder };
+  }
+  
+  const orderBy: Prisma.StudentOrderByWithRelationInput = {};
+  
+  switch (sortBy) {
+    case 'value':
+      orderBy.value = sortOrder;
+      break;
+    case 'fullName':
+      orderBy.fullName = sortOrder;
+      break;
+    case 'paymentStatus':
+      orderBy.paymentStatus = sortOrder;
+      break;
+    case 'registrationDate':
+    default:
+      orderBy.registrationDate = sortOrder;
+      break;
+  }
+  
+  return orderBy;
+};
+
+/**
+ * Agrupa resultados do relatório com base no critério especificado
+ */
+export const groupResults = (students: Record<string, unknown>[], groupBy: string): GroupedReportResult[] => {
+  const grouped: Record<string, {
+    items: Record<string, unknown>[],
+    totalValue: number
+  }> = {};
+  
+  // Definições dos grupos
+  let groupLabels: Record<string, string> = {};
+  
+  // Agrupa os resultados com base no critério
+  for (const student of students) {
+    let groupKey: string;
+    
+    switch (groupBy) {
+      case 'paymentStatus':
+        groupKey = student.paymentStatus as string;
+        groupLabels = {
+          'Pago': 'Pagos',
+          'Pendente': 'Pendentes',
+          'Parcial': 'Pagamento Parcial',
+          'Cancelado': 'Cancelados'
+        };
+        break;
+        
+      case 'courseModalityId':
+        groupKey = (student.courseModalityId as number).toString();
+        // Labels serão preenchidos posteriormente com nomes das modalidades
+        break;
+        
+      case 'courseId':
+        groupKey = (student.courseId as number).toString();
+        // Labels serão preenchidos posteriormente com nomes dos cursos
+        break;
+        
+      case 'paymentType':
+        groupKey = student.paymentType as string;
+        groupLabels = {
+          'Dinheiro': 'Dinheiro',
+          'Cartão de Crédito': 'Cartão de Crédito',
+          'Cartão de Débito': 'Cartão de Débito',
+          'Boleto Bancário': 'Boleto',
+          'PIX': 'PIX',
+          'Transferência': 'Transferência'
+        };
+        break;
+        
+      case 'userId':
+        groupKey = (student.userId as number).toString();
+        break;
+        
+      case 'cnhType':
+        groupKey = student.cnhType as string || 'Sem CNH';
+        break;
+        
+      case 'month':
+        // Agrupa por mês da data de registro
+        const date = student.registrationDate as Date;
+        if (date) {
+          const month = date.getMonth() + 1;
+          const year = date.getFullYear();
+          groupKey = `${year}-${month.toString().padStart(2, '0')}`;
+          // Nome dos meses em português
+          const monthNames = [
+            'Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho',
+            'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro'
+          ];
+          groupLabels[groupKey] = `${monthNames[month - 1]} ${year}`;
+        } else {
+          groupKey = 'sem-data';
+          groupLabels[groupKey] = 'Sem data de registro';
+        }
+        break;
+        
+      case 'year':
+        // Agrupa por ano da data de registro
+        const regDate = student.registrationDate as Date;
+        if (regDate) {
+          groupKey = regDate.getFullYear().toString();
+          groupLabels[groupKey] = `Ano ${groupKey}`;
+        } else {
+          groupKey = 'sem-data';
+          groupLabels[groupKey] = 'Sem data de registro';
+        }
+        break;
+        
+      default:
+        groupKey = 'outros';
+        groupLabels[groupKey] = 'Outros';
+    }
+    
+    // Inicializa o grupo se necessário
+    if (!grouped[groupKey]) {
+      grouped[groupKey] = {
+        items: [],
+        totalValue: 0
+      };
+    }
+    
+    // Adiciona o item ao grupo
+    grouped[groupKey].items.push(student);
+    
+    // Soma o valor
+    grouped[groupKey].totalValue += typeof student.value === 'number' ? student.value : 0;
+  }
+  
+  // Converte o objeto agrupado em um array de resultados
+  return Object.entries(grouped).map(([key, group]) => {
+    const count = group.items.length;
+    return {
+      groupKey: key,
+      groupLabel: groupLabels[key] || `Grupo ${key}`,
+      count,
+      totalValue: group.totalValue,
+      avgValue: count > 0 ? group.totalValue / count : 0,
+      items: group.items as unknown as ReportStudent[]
+    };
+  });
+};
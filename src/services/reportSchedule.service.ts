@@ -0,0 +1,288 @@
+import { PrismaClient } from '@prisma/client';
+import type { ReportSchedule, OutboxMessage } from '@prisma/client';
+import { parseExpression } from 'cron-parser';
+import type { StatisticsResult } from '../models/report.model';
+import type { ReportFilters, ReportPeriod } from '../models/schemas/report.schema';
+import { reportFiltersSchema } from '../models/schemas/report.schema';
+import { AppError } from '../utils/errorHandler';
+import type { MailMessage } from './mail.service';
+import { enqueueMail, dispatchOutbox } from './outbox.service';
+import { buildWhereClause } from './reportQuery.service';
+import { getExportFileType, checkExportRowLimit, buildReportExportBuffer } from './reportFile.service';
+import {
+  getOverallStatistics,
+  getPeriodStatistics,
+  getSellerStatistics,
+  getModalityNames
+} from './reportStatistics.service';
+import { formatValue } from './reportExport.service';
+
+const prisma = new PrismaClient();
+
+// Fuso horário usado nas expressões cron e nos períodos relativos
+export const REPORT_SCHEDULE_TIMEZONE = process.env.REPORT_SCHEDULE_TIMEZONE || 'America/Sao_Paulo';
+
+// Intervalo entre as verificações de agendamentos vencidos e da caixa de saída
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+// Descrição dos períodos relativos usada no email
+const PERIOD_LABELS: Record<ReportPeriod, string> = {
+  last7Days: 'Últimos 7 dias',
+  lastWeek: 'Semana anterior',
+  currentMonth: 'Mês atual',
+  lastMonth: 'Mês anterior'
+};
+
+/**
+ * Próxima execução da expressão cron a partir da data informada
+ */
+export const getNextRunAt = (cron: string, from = new Date()): Date =>
+  parseExpression(cron, { currentDate: from, tz: REPORT_SCHEDULE_TIMEZONE }).next().toDate();
+
+/**
+ * Data no formato YYYY-MM-DD
+ */
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Data inicial e final do período relativo, calculadas no fuso horário dos agendamentos
+ */
+export const resolveReportPeriod = (period: ReportPeriod, now = new Date()): { startDate: string; endDate: string } => {
+  // Data de hoje no fuso dos agendamentos, representada à meia-noite UTC como os filtros de data
+  const today = new Date(new Intl.DateTimeFormat('en-CA', { timeZone: REPORT_SCHEDULE_TIMEZONE }).format(now));
+  const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+  switch (period) {
+    case 'last7Days':
+      return { startDate: toDateString(addDays(today, -7)), endDate: toDateString(addDays(today, -1)) };
+
+    case 'lastWeek': {
+      // Semana de segunda a domingo
+      const daysSinceMonday = (today.getUTCDay() + 6) % 7;
+      const monday = addDays(today, -daysSinceMonday - 7);
+      return { startDate: toDateString(monday), endDate: toDateString(addDays(monday, 6)) };
+    }
+
+    case 'currentMonth':
+      return {
+        startDate: toDateString(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1))),
+        endDate: toDateString(today)
+      };
+
+    case 'lastMonth':
+      return {
+        startDate: toDateString(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1))),
+        endDate: toDateString(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 0)))
+      };
+  }
+};
+
+/**
+ * Filtros do agendamento convertidos para os filtros do relatório, com o período relativo aplicado
+ */
+const toScheduleFilters = (schedule: ReportSchedule, now: Date): ReportFilters => {
+  const stored = schedule.filters as Record<string, string>;
+  const period = schedule.period as ReportPeriod | null;
+
+  return reportFiltersSchema.parse({
+    ...stored,
+    ...(period && resolveReportPeriod(period, now))
+  });
+};
+
+/**
+ * Escapa texto para uso no corpo HTML do email
+ */
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Tabela HTML simples do corpo do email
+ */
+const toHtmlTable = (headers: string[], rows: (string | number)[][]): string =>
+  '<table cellpadding="6" cellspacing="0" border="1" style="border-collapse:collapse;margin-bottom:16px">' +
+  `<tr>${headers.map(header => `<th align="left">${escapeHtml(header)}</th>`).join('')}</tr>` +
+  rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(String(cell))}</td>`).join('')}</tr>`).join('') +
+  '</table>';
+
+/**
+ * Monta o email do relatório agendado com o resumo das estatísticas (texto e HTML)
+ */
+const buildSummaryMail = (
+  schedule: ReportSchedule,
+  filters: ReportFilters,
+  statistics: StatisticsResult,
+  modalityNames: Record<string, string>,
+  now: Date
+): Pick<MailMessage, 'subject' | 'text' | 'html'> => {
+  const { overall, byPeriod, bySeller } = statistics;
+  const formatDate = (date: Date) => date.toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+
+  const periodLabel = [
+    schedule.period ? PERIOD_LABELS[schedule.period as ReportPeriod] : null,
+    filters.startDate || filters.endDate
+      ? `${filters.startDate ? formatDate(filters.startDate) : 'início'} a ${filters.endDate ? formatDate(filters.endDate) : 'hoje'}`
+      : 'Todo o período'
+  ].filter(Boolean).join(': ');
+
+  const totals: [string, string][] = [
+    ['Alunos', overall.totalStudents.toString()],
+    ['Valor total', formatValue(overall.totalValue)],
+    ['Valor médio', formatValue(overall.avgValue)]
+  ];
+  const statusRows = Object.entries(overall.paymentStatusCounts);
+  const modalityRows = Object.entries(overall.courseModalityIdCounts)
+    .map(([id, count]): [string, number] => [modalityNames[id] ?? `Modalidade ${id}`, count]);
+  const monthRows = byPeriod.map(stats => [stats.period, stats.count, formatValue(stats.totalValue)]);
+  const sellerRows = (bySeller ?? []).map(stats => [stats.seller.name, stats.count, formatValue(stats.totalValue)]);
+
+  const text = [
+    `Relatório agendado: ${schedule.name}`,
+    `Período: ${periodLabel}`,
+    '',
+    ...totals.map(([label, value]) => `${label}: ${value}`),
+    '',
+    'Por status de pagamento:',
+    ...statusRows.map(([status, count]) => `- ${status}: ${count}`),
+    '',
+    'Por modalidade:',
+    ...modalityRows.map(([name, count]) => `- ${name}: ${count}`),
+    '',
+    'Por mês:',
+    ...monthRows.map(([period, count, value]) => `- ${period}: ${count} alunos, ${value}`),
+    ...(bySeller ? ['', 'Por vendedor:', ...sellerRows.map(([name, count, value]) => `- ${name}: ${count} alunos, ${value}`)] : [])
+  ].join('\n');
+
+  const html = [
+    `<h2>${escapeHtml(schedule.name)}</h2>`,
+    `<p>Período: ${escapeHtml(periodLabel)}</p>`,
+    toHtmlTable(['Total', 'Valor'], totals),
+    '<h3>Por status de pagamento</h3>',
+    toHtmlTable(['Status', 'Alunos'], statusRows),
+    '<h3>Por modalidade</h3>',
+    toHtmlTable(['Modalidade', 'Alunos'], modalityRows),
+    '<h3>Por mês</h3>',
+    toHtmlTable(['Mês', 'Alunos', 'Valor total'], monthRows),
+    ...(bySeller ? ['<h3>Por vendedor</h3>', toHtmlTable(['Vendedor', 'Alunos', 'Valor total'], sellerRows)] : [])
+  ].join('\n');
+
+  return {
+    subject: `Relatório agendado: ${schedule.name} (${now.toLocaleDateString('pt-BR', { timeZone: REPORT_SCHEDULE_TIMEZONE })})`,
+    text,
+    html
+  };
+};
+
+/**
+ * Gera o relatório do agendamento e grava o email na caixa de saída.
+ * Os filtros são aplicados com o perfil atual do dono do agendamento.
+ */
+export const runReportSchedule = async (schedule: ReportSchedule, now = new Date()): Promise<OutboxMessage> => {
+  const owner = await prisma.user.findUnique({
+    where: { id: schedule.userId },
+    select: { id: true, role: true, deletedAt: true }
+  });
+
+  if (!owner || owner.deletedAt) {
+    throw new AppError('O dono do agendamento foi removido', 400, undefined, 'USER_REMOVED');
+  }
+
+  const isAdmin = owner.role === 'ADMIN';
+  const filters = toScheduleFilters(schedule, now);
+  const where = buildWhereClause(filters, isAdmin, owner.id);
+
+  const [overall, byPeriod, bySeller] = await Promise.all([
+    getOverallStatistics(where),
+    getPeriodStatistics(where),
+    isAdmin ? getSellerStatistics(where) : Promise.resolve(undefined)
+  ]);
+  const modalityNames = await getModalityNames(Object.keys(overall.courseModalityIdCounts));
+
+  const message: MailMessage = {
+    to: schedule.recipients,
+    ...buildSummaryMail(schedule, filters, { overall, byPeriod, ...(bySeller && { bySeller }) }, modalityNames, now)
+  };
+
+  if (schedule.format !== 'summary') {
+    const fileType = getExportFileType(schedule.format);
+    await checkExportRowLimit(where);
+
+    message.attachments = [{
+      filename: fileType.fileName,
+      content: await buildReportExportBuffer(schedule.format, where, filters),
+      contentType: fileType.contentType
+    }];
+  }
+
+  return enqueueMail(prisma, message, schedule.id);
+};
+
+/**
+ * Executa os agendamentos ativos vencidos. Cada agendamento é reservado avançando a próxima execução
+ * com uma atualização condicional, para que não seja executado duas vezes.
+ * Retorna a quantidade de agendamentos executados.
+ */
+export const processDueReportSchedules = async (now = new Date()): Promise<number> => {
+  const due = await prisma.reportSchedule.findMany({
+    where: { active: true, nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: 'asc' }
+  });
+
+  let executed = 0;
+
+  for (const schedule of due) {
+    const claimed = await prisma.reportSchedule.updateMany({
+      where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+      data: { nextRunAt: getNextRunAt(schedule.cron, now), lastRunAt: now }
+    });
+
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    try {
+      await runReportSchedule(schedule, now);
+      await prisma.reportSchedule.update({ where: { id: schedule.id }, data: { lastError: null } });
+      executed++;
+    } catch (error) {
+      console.error(`Erro ao executar o relatório agendado ${schedule.id}:`, error);
+
+      await prisma.reportSchedule.update({
+        where: { id: schedule.id },
+        data: { lastError: error instanceof AppError ? error.message : 'Erro interno ao gerar o relatório' }
+      });
+    }
+  }
+
+  return executed;
+};
+
+/**
+ * Inicia o agendador dentro do processo da API: executa os relatórios vencidos e despacha a caixa de saída
+ */
+export const startReportScheduler = (): NodeJS.Timeout => {
+  let running = false;
+
+  const tick = async () => {
+    // Um ciclo só começa quando o anterior termina
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await processDueReportSchedules();
+      await dispatchOutbox();
+    } catch (error) {
+      console.error('Erro no processamento dos relatórios agendados:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, SCHEDULER_INTERVAL_MS);
+  timer.unref();
+  void tick();
+
+  return timer;
+};
@@ -0,0 +1,153 @@
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import type { StatisticsResult } from '../models/report.model';
+
+const prisma = new PrismaClient();
+
+// Quantidade de alunos lida do banco por vez nas leituras em lote
+export const STUDENT_BATCH_SIZE = 500;
+
+// Parâmetros de paginação por cursor de um lote
+export interface BatchPage {
+  take: number;
+  skip?: number;
+  cursor?: { id: number };
+}
+
+/**
+ * Percorre uma consulta em lotes usando o ID do último registro como cursor,
+ * mantendo em memória apenas um lote por vez.
+ * A ordenação da consulta deve terminar pelo ID para que o cursor seja estável.
+ */
+export async function* findInBatches<T extends { id: number }>(
+  fetchBatch: (page: BatchPage) => Promise<T[]>,
+  batchSize = STUDENT_BATCH_SIZE
+): AsyncGenerator<T[]> {
+  let cursor: number | undefined;
+
+  while (true) {
+    const batch = await fetchBatch({
+      take: batchSize,
+      ...(cursor !== undefined && { skip: 1, cursor: { id: cursor } })
+    });
+
+    if (batch.length === 0) {
+      return;
+    }
+
+    yield batch;
+
+    if (batch.length < batchSize) {
+      return;
+    }
+
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+/**
+ * Totais gerais calculados no banco: quantidade, valor total e médio e contagens por status e modalidade
+ */
+export const getOverallStatistics = async (where: Prisma.StudentWhereInput): Promise<StatisticsResult['overall']> => {
+  const [aggregate, byStatus, byModality] = await Promise.all([
+    prisma.student.aggregate({ where, _count: { _all: true }, _sum: { value: true } }),
+    prisma.student.groupBy({ by: ['paymentStatus'], where, _count: { _all: true } }),
+    prisma.student.groupBy({ by: ['courseModalityId'], where, _count: { _all: true } })
+  ]);
+
+  const totalStudents = aggregate._count._all;
+  const totalValue = aggregate._sum.value ?? 0;
+
+  return {
+    totalStudents,
+    totalValue,
+    avgValue: totalStudents > 0 ? totalValue / totalStudents : 0,
+    paymentStatusCounts: Object.fromEntries(byStatus.map(group => [group.paymentStatus, group._count._all])),
+    courseModalityIdCounts: Object.fromEntries(byModality.map(group => [group.courseModalityId.toString(), group._count._all]))
+  };
+};
+
+/**
+ * Estatísticas mensais pela data de registro, lidas em lotes apenas com os campos necessários
+ */
+export const getPeriodStatistics = async (where: Prisma.StudentWhereInput): Promise<StatisticsResult['byPeriod']> => {
+  const periodStats: Record<string, { count: number; totalValue: number }> = {};
+
+  const batches = findInBatches(page => prisma.student.findMany({
+    where,
+    select: { id: true, registrationDate: true, value: true },
+    orderBy: { id: 'asc' },
+    ...page
+  }));
+
+  for await (const batch of batches) {
+    for (const student of batch) {
+      const date = student.registrationDate;
+      const period = `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+
+      if (!periodStats[period]) {
+        periodStats[period] = { count: 0, totalValue: 0 };
+      }
+
+      periodStats[period].count += 1;
+      periodStats[period].totalValue += student.value;
+    }
+  }
+
+  return Object.entries(periodStats).map(([period, stats]) => ({
+    period,
+    count: stats.count,
+    totalValue: stats.totalValue,
+    avgValue: stats.count > 0 ? stats.totalValue / stats.count : 0
+  })).sort((a, b) => b.period.localeCompare(a.period)); // Ordena por período decrescente
+};
+
+/**
+ * Estatísticas por vendedor calculadas no banco
+ */
+export const getSellerStatistics = async (where: Prisma.StudentWhereInput): Promise<NonNullable<StatisticsResult['bySeller']>> => {
+  const groups = await prisma.student.groupBy({
+    by: ['userId', 'paymentStatus'],
+    where,
+    _count: { _all: true },
+    _sum: { value: true }
+  });
+
+  const sellers = await prisma.user.findMany({
+    where: { id: { in: [...new Set(groups.map(group => group.userId))] } },
+    select: { id: true, name: true, email: true }
+  });
+  const sellerById = new Map(sellers.map(seller => [seller.id, seller]));
+
+  const sellerStats = new Map<number, NonNullable<StatisticsResult['bySeller']>[number]>();
+
+  for (const group of groups) {
+    const stats = sellerStats.get(group.userId) ?? {
+      seller: sellerById.get(group.userId) ?? { id: group.userId, name: '', email: '' },
+      count: 0,
+      totalValue: 0,
+      avgValue: 0,
+      paymentStatusCounts: {}
+    };
+
+    stats.count += group._count._all;
+    stats.totalValue += group._sum.value ?? 0;
+    stats.avgValue = stats.count > 0 ? stats.totalValue / stats.count : 0;
+    stats.paymentStatusCounts[group.paymentStatus] = group._count._all;
+    sellerStats.set(group.userId, stats);
+  }
+
+  return [...sellerStats.values()].sort((a, b) => b.count - a.count); // Ordena por contagem decrescente
+};
+
+/**
+ * Nomes das modalidades usadas nos totais por modalidade
+ */
+export const getModalityNames = async (modalityIds: string[]): Promise<Record<string, string>> => {
+  const modalities = await prisma.courseModality.findMany({
+    where: { id: { in: modalityIds.map(Number) } },
+    select: { id: true, name: true }
+  });
+
+  return Object.fromEntries(modalities.map(modality => [modality.id.toString(), modality.name]));
+};
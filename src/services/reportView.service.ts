@@ -0,0 +1,48 @@
+import { PrismaClient } from '@prisma/client';
+import type { Prisma, ReportView } from '@prisma/client';
+import { AppError } from '../utils/errorHandler';
+
+const prisma = new PrismaClient();
+
+// Dono da visão retornado junto com os dados
+export const reportViewInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true
+    }
+  }
+} satisfies Prisma.ReportViewInclude;
+
+/**
+ * Busca uma visão que o usuário pode usar: as próprias e as publicadas
+ * (administradores acessam todas)
+ */
+export const findAccessibleReportView = async (
+  viewId: number,
+  user: { userId: number; role: string }
+): Promise<Prisma.ReportViewGetPayload<{ include: typeof reportViewInclude }>> => {
+  const view = await prisma.reportView.findUnique({
+    where: { id: viewId },
+    include: reportViewInclude
+  });
+
+  if (!view || (!view.shared && view.userId !== user.userId && user.role !== 'ADMIN')) {
+    throw new AppError('Não foi possível encontrar uma visão com o ID especificado', 404, 'viewId', 'REPORT_VIEW_NOT_FOUND');
+  }
+
+  return view;
+};
+
+/**
+ * Filtros da visão com os parâmetros da requisição sobrepostos.
+ * Um parâmetro vazio (ex: paymentStatus=) remove o filtro salvo na visão.
+ */
+export const mergeReportViewFilters = (
+  view: ReportView,
+  overrides: Record<string, unknown>
+): Record<string, unknown> => ({
+  ...(view.filters as Record<string, string>),
+  ...overrides
+});
@@ -0,0 +1,210 @@
+import { PrismaClient, Role } from '@prisma/client';
+import type { Prisma, SellerGoal } from '@prisma/client';
+import type { SellerGoalData } from '../models/schemas/goal.schema';
+import type { SellerPerformance, SellerRanking } from '../models/goal.model';
+import { AppError } from '../utils/errorHandler';
+
+const prisma = new PrismaClient();
+
+// Perfis que podem ter metas de vendas
+const GOAL_ROLES: Role[] = [Role.SELLER, Role.AFFILIATE];
+
+// Status de pagamento das vendas
+const PAID_STATUS = 'Pago';
+const CANCELLED_STATUS = 'Cancelado';
+
+// Quantidade e valor das vendas de um usuário por status de pagamento
+type SalesByStatus = Record<string, { count: number; value: number }>;
+
+/**
+ * Intervalo de datas de registro do mês
+ */
+const getMonthRange = (year: number, month: number): Prisma.DateTimeFilter => ({
+  gte: new Date(Date.UTC(year, month - 1, 1)),
+  lt: new Date(Date.UTC(year, month, 1))
+});
+
+/**
+ * Acumula a quantidade e o valor de um grupo de vendas no usuário
+ */
+const addSales = (
+  sales: Map<number, SalesByStatus>,
+  userId: number,
+  status: string,
+  count: number,
+  value: number
+): void => {
+  const byStatus = sales.get(userId) ?? {};
+  const current = byStatus[status] ?? { count: 0, value: 0 };
+
+  byStatus[status] = { count: current.count + count, value: current.value + value };
+  sales.set(userId, byStatus);
+};
+
+/**
+ * Vendas do mês registradas pelos vendedores
+ */
+const getSellerSales = async (sellerIds: number[], year: number, month: number): Promise<Map<number, SalesByStatus>> => {
+  const sales = new Map<number, SalesByStatus>();
+
+  if (sellerIds.length === 0) {
+    return sales;
+  }
+
+  const groups = await prisma.student.groupBy({
+    by: ['userId', 'paymentStatus'],
+    where: { deletedAt: null, registrationDate: getMonthRange(year, month), userId: { in: sellerIds } },
+    _count: { _all: true },
+    _sum: { value: true }
+  });
+
+  for (const group of groups) {
+    addSales(sales, group.userId, group.paymentStatus, group._count._all, group._sum.value ?? 0);
+  }
+
+  return sales;
+};
+
+/**
+ * Vendas do mês feitas com os cupons dos afiliados
+ */
+const getAffiliateSales = async (affiliateIds: number[], year: number, month: number): Promise<Map<number, SalesByStatus>> => {
+  const sales = new Map<number, SalesByStatus>();
+
+  if (affiliateIds.length === 0) {
+    return sales;
+  }
+
+  const [groups, coupons] = await Promise.all([
+    prisma.student.groupBy({
+      by: ['couponId', 'paymentStatus'],
+      where: {
+        deletedAt: null,
+        registrationDate: getMonthRange(year, month),
+        coupon: { userId: { in: affiliateIds } }
+      },
+      _count: { _all: true },
+      _sum: { value: true }
+    }),
+    prisma.coupon.findMany({
+      where: { userId: { in: affiliateIds } },
+      select: { id: true, userId: true }
+    })
+  ]);
+
+  const ownerByCoupon = new Map(coupons.map(coupon => [coupon.id, coupon.userId]));
+
+  for (const group of groups) {
+    const affiliateId = group.couponId !== null ? ownerByCoupon.get(group.couponId) : undefined;
+
+    if (affiliateId) {
+      addSales(sales, affiliateId, group.paymentStatus, group._count._all, group._sum.value ?? 0);
+    }
+  }
+
+  return sales;
+};
+
+/**
+ * Percentual com duas casas decimais (nulo quando o total é zero)
+ */
+const toPercentage = (value: number, total: number): number | null =>
+  total > 0 ? Math.round((value / total) * 10000) / 100 : null;
+
+/**
+ * Desempenho do usuário no mês: vendas canceladas não contam para o faturamento nem para a meta
+ */
+const toPerformance = (
+  seller: SellerPerformance['seller'],
+  goal: SellerGoal | undefined,
+  sales: SalesByStatus = {}
+): Omit<SellerPerformance, 'position'> => {
+  const active = Object.entries(sales).filter(([status]) => status !== CANCELLED_STATUS);
+  const revenue = active.reduce((sum, [, group]) => sum + group.value, 0);
+  const students = active.reduce((sum, [, group]) => sum + group.count, 0);
+  const paid = sales[PAID_STATUS]?.count ?? 0;
+
+  return {
+    seller,
+    goal: goal ? { revenueGoal: goal.revenueGoal, studentsGoal: goal.studentsGoal } : null,
+    revenue,
+    students,
+    avgTicket: students > 0 ? revenue / students : 0,
+    revenueProgress: goal ? toPercentage(revenue, goal.revenueGoal) : null,
+    studentsProgress: goal ? toPercentage(students, goal.studentsGoal) : null,
+    conversionRate: toPercentage(paid, students),
+    paymentStatusCounts: Object.fromEntries(Object.entries(sales).map(([status, group]) => [status, group.count]))
+  };
+};
+
+/**
+ * Ranking mensal dos vendedores e afiliados ativos, ordenado por faturamento.
+ * Vendedores são avaliados pelas vendas que registraram; afiliados pelas vendas com os seus cupons.
+ */
+export const getSellerRanking = async (year: number, month: number): Promise<SellerRanking> => {
+  const [users, goals] = await Promise.all([
+    prisma.user.findMany({
+      where: { role: { in: GOAL_ROLES }, deletedAt: null },
+      select: { id: true, name: true, email: true, role: true }
+    }),
+    prisma.sellerGoal.findMany({ where: { year, month } })
+  ]);
+
+  const [sellerSales, affiliateSales] = await Promise.all([
+    getSellerSales(users.filter(user => user.role === Role.SELLER).map(user => user.id), year, month),
+    getAffiliateSales(users.filter(user => user.role === Role.AFFILIATE).map(user => user.id), year, month)
+  ]);
+
+  const goalByUser = new Map(goals.map(goal => [goal.userId, goal]));
+
+  const sellers = users
+    .map(user => toPerformance(
+      user,
+      goalByUser.get(user.id),
+      (user.role === Role.AFFILIATE ? affiliateSales : sellerSales).get(user.id)
+    ))
+    .sort((a, b) => b.revenue - a.revenue || b.students - a.students || a.seller.name.localeCompare(b.seller.name))
+    .map((performance, index) => ({ position: index + 1, ...performance }));
+
+  return { year, month, sellers };
+};
+
+/**
+ * Desempenho de um vendedor/afiliado no mês, com a posição no ranking
+ */
+export const getSellerProgress = async (userId: number, year: number, month: number): Promise<SellerPerformance> => {
+  const ranking = await getSellerRanking(year, month);
+  const performance = ranking.sellers.find(seller => seller.seller.id === userId);
+
+  if (!performance) {
+    throw new AppError('Metas estão disponíveis apenas para vendedores e afiliados', 400, undefined, 'INVALID_GOAL_USER');
+  }
+
+  return performance;
+};
+
+/**
+ * Cadastra ou altera a meta mensal de um vendedor/afiliado
+ */
+export const upsertSellerGoal = async (data: SellerGoalData): Promise<SellerGoal> => {
+  const user = await prisma.user.findUnique({
+    where: { id: data.userId },
+    select: { role: true, deletedAt: true }
+  });
+
+  if (!user || user.deletedAt) {
+    throw new AppError('Não foi possível encontrar um usuário com o ID especificado', 404, 'userId', 'USER_NOT_FOUND');
+  }
+
+  if (!GOAL_ROLES.includes(user.role)) {
+    throw new AppError('Metas só podem ser definidas para vendedores e afiliados', 400, 'userId', 'INVALID_GOAL_USER');
+  }
+
+  const { userId, year, month, revenueGoal, studentsGoal } = data;
+
+  return prisma.sellerGoal.upsert({
+    where: { userId_year_month: { userId, year, month } },
+    create: { userId, year, month, revenueGoal, studentsGoal },
+    update: { revenueGoal, studentsGoal }
+  });
+};
@@ -0,0 +1,99 @@
+import { SessionRevocationReason } from '@prisma/client';
+import { mockPrismaClients } from '../test/prisma';
+import { findActiveSession, rotateSession } from './session.service';
+
+jest.mock('../utils/jwt', () => ({
+  ...jest.requireActual('../utils/jwt'),
+  verifyRefreshToken: jest.fn(() => ({ userId: 1 }))
+}));
+
+const context = { userAgent: 'jest', ip: '127.0.0.1' };
+
+const buildSession = (overrides: Record<string, unknown> = {}) => ({
+  id: 10,
+  userId: 1,
+  userAgent: 'jest',
+  revokedAt: null,
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  lastUsedAt: new Date(),
+  user: { id: 1, deletedAt: null, role: 'VENDEDOR', mustChangePassword: false, twoFactorEnabledAt: null },
+  ...overrides
+});
+
+const prisma = {
+  userSession: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(async () => ({ count: 1 }))
+  },
+  refreshToken: {
+    findUnique: jest.fn(),
+    updateMany: jest.fn()
+  },
+  $transaction: jest.fn(async (callback: (tx: unknown) => unknown): Promise<unknown> => callback(prisma))
+};
+
+beforeAll(() => mockPrismaClients(prisma));
+
+beforeEach(() => jest.clearAllMocks());
+
+describe('findActiveSession', () => {
+  it('retorna a situação da conta sem gravar o uso de uma sessão usada recentemente', async () => {
+    prisma.userSession.findUnique.mockResolvedValue(buildSession());
+
+    await expect(findActiveSession(10, 1)).resolves.toEqual({
+      role: 'VENDEDOR',
+      mustChangePassword: false,
+      twoFactorEnabled: false
+    });
+    expect(prisma.userSession.update).not.toHaveBeenCalled();
+  });
+
+  it('atualiza a última utilização após o intervalo mínimo', async () => {
+    prisma.userSession.findUnique.mockResolvedValue(buildSession({ lastUsedAt: new Date(Date.now() - 10 * 60 * 1000) }));
+
+    await findActiveSession(10, 1);
+
+    expect(prisma.userSession.update).toHaveBeenCalledWith({
+      where: { id: 10 },
+      data: { lastUsedAt: expect.any(Date) }
+    });
+  });
+
+  it('ignora sessões encerradas ou de outro usuário', async () => {
+    prisma.userSession.findUnique.mockResolvedValue(buildSession({ revokedAt: new Date() }));
+    await expect(findActiveSession(10, 1)).resolves.toBeNull();
+
+    prisma.userSession.findUnique.mockResolvedValue(buildSession());
+    await expect(findActiveSession(10, 2)).resolves.toBeNull();
+  });
+});
+
+describe('rotateSession', () => {
+  it('encerra a sessão quando um refresh token já utilizado é apresentado novamente', async () => {
+    prisma.refreshToken.findUnique.mockResolvedValue({ id: 5, usedAt: new Date(), session: buildSession() });
+
+    await expect(rotateSession('token', context)).rejects.toMatchObject({ statusCode: 401, code: 'REFRESH_TOKEN_REUSED' });
+    expect(prisma.userSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 10, revokedAt: null },
+      data: { revokedAt: expect.any(Date), revokedReason: SessionRevocationReason.TOKEN_REUSE }
+    });
+  });
+
+  it('trata como reutilização o token trocado por outra requisição simultânea', async () => {
+    prisma.refreshToken.findUnique.mockResolvedValue({ id: 5, usedAt: null, session: buildSession() });
+    prisma.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(rotateSession('token', context)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+    expect(prisma.userSession.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ revokedReason: SessionRevocationReason.TOKEN_REUSE })
+    }));
+  });
+
+  it('recusa tokens que não pertencem a uma sessão', async () => {
+    prisma.refreshToken.findUnique.mockResolvedValue(null);
+
+    await expect(rotateSession('token', context)).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+    expect(prisma.userSession.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,261 @@
+import type { Request } from 'express';
+import { PrismaClient, AuditAction, AuditEntity, SessionRevocationReason } from '@prisma/client';
+import type { Prisma, User } from '@prisma/client';
+import { generateAuthTokens, getTokenExpiration, verifyRefreshToken } from '../utils/jwt';
+import type { AuthResponse } from '../utils/jwt';
+import type { Role, UserSessionResponse } from '../models/user.model';
+import type { AuditActor } from '../models/audit.model';
+import { AppError } from '../utils/errorHandler';
+import { hashToken } from '../utils/token';
+import { recordAudit } from './audit.service';
+
+const prisma = new PrismaClient();
+
+// Intervalo mínimo entre atualizações da última utilização da sessão (evita uma escrita por requisição)
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Dados da requisição gravados na sessão
+export interface SessionContext {
+  userAgent: string | null;
+  ip: string | null;
+}
+
+/**
+ * Navegador e IP da requisição
+ */
+export const getSessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get('user-agent')?.slice(0, 500) ?? null,
+  ip: req.ip ?? null
+});
+
+/**
+ * Gera os tokens da sessão e registra o novo refresh token
+ */
+const issueSessionTokens = async (
+  client: Prisma.TransactionClient,
+  user: User,
+  sessionId: number
+): Promise<AuthResponse> => {
+  const authResponse = generateAuthTokens({
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    ddd: user.ddd ?? undefined,
+    phone: user.phone ?? undefined,
+    role: user.role as Role
+  }, sessionId);
+
+  await client.refreshToken.create({
+    data: { sessionId, tokenHash: hashToken(authResponse.refreshToken) }
+  });
+
+  await client.userSession.update({
+    where: { id: sessionId },
+    data: { expiresAt: getTokenExpiration(authResponse.refreshToken) }
+  });
+
+  return authResponse;
+};
+
+/**
+ * Abre uma nova sessão de login para o usuário e emite os tokens
+ */
+export const createSession = async (user: User, context: SessionContext): Promise<AuthResponse> =>
+  prisma.$transaction(async (tx) => {
+    const session = await tx.userSession.create({
+      data: {
+        userId: user.id,
+        userAgent: context.userAgent,
+        ip: context.ip,
+        expiresAt: new Date()
+      }
+    });
+
+    return issueSessionTokens(tx, user, session.id);
+  });
+
+/**
+ * Encerra uma sessão; os refresh tokens dela deixam de ser aceitos
+ */
+export const revokeSession = async (
+  sessionId: number,
+  reason: SessionRevocationReason,
+  userId?: number
+): Promise<boolean> => {
+  const { count } = await prisma.userSession.updateMany({
+    where: { id: sessionId, revokedAt: null, ...(userId && { userId }) },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+
+  return count > 0;
+};
+
+/**
+ * Encerra todas as sessões ativas do usuário, exceto a informada
+ */
+export const revokeUserSessions = async (
+  client: Prisma.TransactionClient,
+  userId: number,
+  reason: SessionRevocationReason,
+  exceptSessionId?: number
+): Promise<number> => {
+  const { count } = await client.userSession.updateMany({
+    where: { userId, revokedAt: null, ...(exceptSessionId && { id: { not: exceptSessionId } }) },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+
+  return count;
+};
+
+/**
+ * Encerra as sessões ativas que atendem ao filtro, registrando cada encerramento na auditoria
+ */
+export const revokeSessionsWithAudit = async (
+  client: Prisma.TransactionClient,
+  actor: AuditActor | undefined,
+  where: Prisma.UserSessionWhereInput,
+  reason: SessionRevocationReason
+): Promise<number> => {
+  const sessions = await client.userSession.findMany({ where: { ...where, revokedAt: null } });
+  const revokedAt = new Date();
+
+  for (const session of sessions) {
+    const revoked = await client.userSession.update({
+      where: { id: session.id },
+      data: { revokedAt, revokedReason: reason }
+    });
+
+    await recordAudit(client, actor, {
+      entity: AuditEntity.USER_SESSION,
+      entityId: session.id,
+      action: AuditAction.UPDATE,
+      before: session,
+      after: revoked
+    });
+  }
+
+  return sessions.length;
+};
+
+/**
+ * Busca a sessão do token de acesso, se continuar ativa, com a situação da conta do usuário.
+ * A última utilização da sessão é atualizada no máximo uma vez a cada intervalo.
+ */
+export const findActiveSession = async (
+  sessionId: number,
+  userId: number
+): Promise<{ role: User['role']; mustChangePassword: boolean; twoFactorEnabled: boolean } | null> => {
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    select: {
+      userId: true,
+      revokedAt: true,
+      expiresAt: true,
+      lastUsedAt: true,
+      user: { select: { role: true, mustChangePassword: true, twoFactorEnabledAt: true } }
+    }
+  });
+
+  const now = new Date();
+
+  if (!session || session.userId !== userId || session.revokedAt || session.expiresAt <= now) {
+    return null;
+  }
+
+  if (now.getTime() - session.lastUsedAt.getTime() >= SESSION_TOUCH_INTERVAL_MS) {
+    await prisma.userSession.update({
+      where: { id: sessionId },
+      data: { lastUsedAt: now }
+    });
+  }
+
+  return {
+    role: session.user.role,
+    mustChangePassword: session.user.mustChangePassword,
+    twoFactorEnabled: !!session.user.twoFactorEnabledAt
+  };
+};
+
+/**
+ * Sessões ativas do usuário, da utilização mais recente para a mais antiga
+ */
+export const listActiveSessions = async (userId: number, currentSessionId?: number): Promise<UserSessionResponse[]> => {
+  const sessions = await prisma.userSession.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      userAgent: true,
+      ip: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true
+    },
+    orderBy: { lastUsedAt: 'desc' }
+  });
+
+  return sessions.map(session => ({ ...session, current: session.id === currentSessionId }));
+};
+
+/**
+ * Troca um refresh token por um novo par de tokens (rotação).
+ * Um token já trocado que é apresentado novamente indica vazamento: a sessão inteira é encerrada.
+ */
+export const rotateSession = async (refreshToken: string, context: SessionContext): Promise<AuthResponse> => {
+  const invalidToken = new AppError('O token de atualização é inválido ou expirou. Por favor, faça login novamente.', 401, 'refreshToken', 'INVALID_REFRESH_TOKEN');
+
+  if (!verifyRefreshToken(refreshToken)) {
+    throw invalidToken;
+  }
+
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { session: { include: { user: true } } }
+  });
+
+  // Tokens emitidos fora de uma sessão não são aceitos
+  if (!stored) {
+    throw invalidToken;
+  }
+
+  const { session } = stored;
+  const reuseDetected = new AppError('Este token de atualização já foi utilizado. Por segurança, a sessão foi encerrada; faça login novamente.', 401, 'refreshToken', 'REFRESH_TOKEN_REUSED');
+
+  if (stored.usedAt) {
+    await revokeSession(session.id, SessionRevocationReason.TOKEN_REUSE);
+    throw reuseDetected;
+  }
+
+  if (session.revokedAt || session.expiresAt <= new Date()) {
+    throw invalidToken;
+  }
+
+  if (session.user.deletedAt) {
+    throw new AppError('Não foi possível encontrar o usuário associado a este token.', 401, 'refreshToken', 'USER_NOT_FOUND');
+  }
+
+  const authResponse = await prisma.$transaction(async (tx) => {
+    // Marca o token como utilizado apenas se outra requisição ainda não o fez
+    const { count } = await tx.refreshToken.updateMany({
+      where: { id: stored.id, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    await tx.userSession.update({
+      where: { id: session.id },
+      data: { lastUsedAt: new Date(), ip: context.ip, userAgent: context.userAgent ?? session.userAgent }
+    });
+
+    return issueSessionTokens(tx, session.user, session.id);
+  });
+
+  if (!authResponse) {
+    await revokeSession(session.id, SessionRevocationReason.TOKEN_REUSE);
+    throw reuseDetected;
+  }
+
+  return authResponse;
+};
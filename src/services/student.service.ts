@@ -0,0 +1,80 @@
+import { PrismaClient, AuditAction, AuditEntity } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import type { AuditActor } from '../models/audit.model';
+import { AppError } from '../utils/errorHandler';
+import { createInstallmentSchedule } from './installment.service';
+import { syncSaleCommission } from './commission.service';
+import { redeemCoupon } from './couponRedemption.service';
+import { recordAudit } from './audit.service';
+
+const prisma = new PrismaClient();
+
+// Relações retornadas nas respostas de cadastro e edição de aluno
+export const studentDetailsInclude = {
+  course: true,
+  courseModality: true,
+  coupon: true,
+  installmentSchedule: {
+    orderBy: { number: 'asc' }
+  },
+  createdBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true
+    }
+  }
+} satisfies Prisma.StudentInclude;
+
+/**
+ * Garante que o curso e a modalidade da venda existem e não foram desativados
+ */
+export const ensureActiveCourse = async (courseId: number, courseModalityId: number): Promise<void> => {
+  const [course, courseModality] = await Promise.all([
+    prisma.course.findUnique({ where: { id: courseId }, select: { deletedAt: true } }),
+    prisma.courseModality.findUnique({ where: { id: courseModalityId }, select: { deletedAt: true } })
+  ]);
+
+  if (!course || course.deletedAt) {
+    throw new AppError('O curso informado não existe ou foi desativado', 400, 'courseId', 'COURSE_INACTIVE');
+  }
+
+  if (!courseModality || courseModality.deletedAt) {
+    throw new AppError('A modalidade informada não existe ou foi desativada', 400, 'courseModalityId', 'COURSE_MODALITY_INACTIVE');
+  }
+};
+
+/**
+ * Grava uma nova venda com uso de cupom, parcelas, comissão e auditoria.
+ * Deve ser chamada dentro de uma transação: se o cupom atingir o limite, nada é gravado.
+ */
+export const createStudentSale = async (
+  client: Prisma.TransactionClient,
+  data: Prisma.StudentUncheckedCreateInput,
+  informedStatus: string,
+  actor?: AuditActor
+) => {
+  const student = await client.student.create({ data });
+
+  // Reserva o uso do cupom; se o limite foi atingido por outra venda, o cadastro inteiro é desfeito
+  if (student.couponId) {
+    await redeemCoupon(client, student);
+  }
+
+  await createInstallmentSchedule(client, student, informedStatus);
+  await syncSaleCommission(client, student.id);
+
+  const createdStudent = await client.student.findUniqueOrThrow({
+    where: { id: student.id },
+    include: studentDetailsInclude
+  });
+
+  await recordAudit(client, actor, {
+    entity: AuditEntity.STUDENT,
+    entityId: createdStudent.id,
+    action: AuditAction.CREATE,
+    after: createdStudent
+  });
+
+  return createdStudent;
+};
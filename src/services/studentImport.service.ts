@@ -0,0 +1,344 @@
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import { parse } from 'csv-parse/sync';
+import type { ZodError } from 'zod';
+import type { AuditActor } from '../models/audit.model';
+import type { CouponWithConfigurations } from '../models/coupon.model';
+import type {
+  StudentImportReport,
+  StudentImportRowError,
+  StudentImportRowResult
+} from '../models/student.model';
+import { createStudentSchema } from '../models/schemas/student.schema';
+import { AppError } from '../utils/errorHandler';
+import { findCouponByCodeOrName, calculateCouponPricing, getCouponUnavailableReason } from './pricing.service';
+import { resolveStudentPrice } from './coursePrice.service';
+import { ensureActiveCourse, createStudentSale } from './student.service';
+
+const prisma = new PrismaClient();
+
+// Quantidade máxima de linhas por arquivo (todas são gravadas em uma única transação)
+export const MAX_IMPORT_ROWS = 500;
+
+// Tempo máximo da transação de gravação da importação
+const IMPORT_TRANSACTION_TIMEOUT_MS = 120000;
+
+// Colunas numéricas que o schema de cadastro só aceita como número
+const NUMERIC_COLUMNS = new Set(['courseId', 'courseModalityId']);
+
+// Linha validada e pronta para ser gravada
+interface PreparedImportRow {
+  result: StudentImportRowResult;
+  data: Prisma.StudentUncheckedCreateInput;
+  informedStatus: string;
+}
+
+/**
+ * Identifica o separador pelo cabeçalho: planilhas em português costumam exportar com ponto e vírgula,
+ * o que permite valores com vírgula decimal (1500,50)
+ */
+const detectDelimiter = (content: Buffer): string => {
+  const header = content.toString('utf8').split(/\r?\n/, 1)[0];
+  return header.includes(';') ? ';' : ',';
+};
+
+/**
+ * Lê o CSV (separado por vírgula ou ponto e vírgula) usando o cabeçalho como nome dos campos
+ */
+const parseCsv = (content: Buffer): { line: number; record: Record<string, string> }[] => {
+  try {
+    const records: { record: Record<string, string>; info: { lines: number } }[] = parse(content, {
+      columns: true,
+      bom: true,
+      trim: true,
+      skip_empty_lines: true,
+      delimiter: detectDelimiter(content),
+      info: true
+    });
+
+    return records.map(({ record, info }) => ({ line: info.lines, record }));
+  } catch (error) {
+    throw new AppError(
+      `Não foi possível ler o arquivo CSV: ${error instanceof Error ? error.message : 'formato inválido'}`,
+      400,
+      'file',
+      'INVALID_CSV'
+    );
+  }
+};
+
+/**
+ * Converte uma linha do CSV para o formato aceito pelo schema de cadastro:
+ * células vazias são descartadas e IDs viram números
+ */
+const toStudentPayload = (record: Record<string, string>): Record<string, unknown> => {
+  const payload: Record<string, unknown> = {};
+
+  for (const [column, value] of Object.entries(record)) {
+    if (value === '') {
+      continue;
+    }
+
+    payload[column] = NUMERIC_COLUMNS.has(column) ? Number(value) : value;
+  }
+
+  return payload;
+};
+
+/**
+ * Converte os erros do Zod em erros por campo da linha
+ */
+const toRowErrors = (error: ZodError): StudentImportRowError[] =>
+  error.errors.map(issue => ({
+    field: issue.path.length > 0 ? issue.path.map(String).join('.') : undefined,
+    message: issue.message
+  }));
+
+/**
+ * Converte um erro de regra de negócio em erro da linha; demais erros são repassados
+ */
+const toRowError = (error: unknown): StudentImportRowError => {
+  if (error instanceof AppError) {
+    return { field: error.field, message: error.message };
+  }
+
+  throw error;
+};
+
+/**
+ * Valida todas as linhas do arquivo com as mesmas regras do cadastro individual:
+ * schema de aluno (incluindo CPF), curso ativo, preço de tabela e cupom.
+ * CPFs já cadastrados ou repetidos no arquivo são ignorados.
+ */
+const validateRows = async (
+  rows: { line: number; record: Record<string, string> }[],
+  userId: number
+): Promise<{ results: StudentImportRowResult[]; prepared: PreparedImportRow[] }> => {
+  const results: StudentImportRowResult[] = [];
+  const prepared: PreparedImportRow[] = [];
+
+  const cpfs = rows.map(row => row.record.cpf).filter(Boolean);
+  const existing = await prisma.student.findMany({
+    where: { cpf: { in: cpfs } },
+    select: { cpf: true, deletedAt: true }
+  });
+  const existingByCpf = new Map(existing.map(student => [student.cpf, student]));
+  const seenCpfs = new Set<string>();
+
+  // Consultas repetidas entre linhas (curso/modalidade e cupom) são feitas uma única vez
+  const courseChecks = new Map<string, Promise<StudentImportRowError | null>>();
+  const coupons = new Map<string, Promise<CouponWithConfigurations | null>>();
+  const plannedCouponUses = new Map<number, number>();
+
+  for (const { line, record } of rows) {
+    const result: StudentImportRowResult = {
+      line,
+      cpf: record.cpf || undefined,
+      fullName: record.fullName || undefined,
+      status: 'invalid',
+      errors: []
+    };
+    results.push(result);
+
+    const parsed = createStudentSchema.safeParse(toStudentPayload(record));
+
+    if (!parsed.success) {
+      result.errors = toRowErrors(parsed.error);
+      continue;
+    }
+
+    const studentData = parsed.data;
+    const previous = existingByCpf.get(studentData.cpf);
+
+    if (previous || seenCpfs.has(studentData.cpf)) {
+      result.status = 'skipped';
+      result.errors = [{
+        field: 'cpf',
+        message: previous?.deletedAt
+          ? 'Já existe um aluno removido com este CPF'
+          : previous
+            ? 'Já existe um aluno cadastrado com este CPF'
+            : 'CPF repetido no arquivo'
+      }];
+      continue;
+    }
+
+    seenCpfs.add(studentData.cpf);
+
+    const courseKey = `${studentData.courseId}:${studentData.courseModalityId}`;
+    if (!courseChecks.has(courseKey)) {
+      courseChecks.set(
+        courseKey,
+        ensureActiveCourse(studentData.courseId, studentData.courseModalityId).then(() => null, toRowError)
+      );
+    }
+
+    const courseError = await courseChecks.get(courseKey);
+    if (courseError) {
+      result.errors = [courseError];
+      continue;
+    }
+
+    let price;
+    try {
+      price = await resolveStudentPrice(studentData.courseId, studentData.courseModalityId, studentData.value);
+    } catch (error) {
+      result.errors = [toRowError(error)];
+      continue;
+    }
+
+    let couponId: number | null = null;
+    let discountAmount: number | null = null;
+    let affiliateCommission: number | null = null;
+
+    if (studentData.couponCode) {
+      const couponCode = studentData.couponCode;
+      if (!coupons.has(couponCode)) {
+        coupons.set(couponCode, findCouponByCodeOrName(couponCode));
+      }
+
+      const coupon = await coupons.get(couponCode);
+
+      if (!coupon) {
+        result.errors = [{ field: 'couponCode', message: 'O cupom informado não existe' }];
+        continue;
+      }
+
+      // O limite de uso considera também as linhas anteriores do arquivo que usam o mesmo cupom
+      const plannedUses = plannedCouponUses.get(coupon.id) ?? 0;
+      const unavailable = getCouponUnavailableReason({ ...coupon, usageCount: coupon.usageCount + plannedUses });
+
+      if (unavailable) {
+        result.errors = [{ field: 'couponCode', message: unavailable.message }];
+        continue;
+      }
+
+      const pricing = calculateCouponPricing({
+        coupon,
+        courseId: studentData.courseId,
+        courseModalityId: studentData.courseModalityId,
+        baseValue: price.value
+      });
+
+      if (!pricing.applicable) {
+        result.errors = [{ field: 'couponCode', message: 'Este cupom não é válido para o curso/modalidade/valor selecionado' }];
+        continue;
+      }
+
+      couponId = coupon.id;
+      discountAmount = pricing.discountAmount;
+      affiliateCommission = pricing.commissionAmount;
+      plannedCouponUses.set(coupon.id, plannedUses + 1);
+    }
+
+    result.status = 'valid';
+    prepared.push({
+      result,
+      informedStatus: studentData.paymentStatus,
+      data: {
+        fullName: studentData.fullName,
+        ddd: studentData.ddd,
+        phone: studentData.phone,
+        email: studentData.email || null,
+        birthDate: studentData.birthDate ?? null,
+        cpf: studentData.cpf,
+        cnhNumber: studentData.cnhNumber || null,
+        cnhType: studentData.cnhType || null,
+        renach: studentData.renach || null,
+        courseId: studentData.courseId,
+        courseModalityId: studentData.courseModalityId,
+        value: price.value,
+        listPrice: price.listPrice,
+        priceOverridden: price.priceOverridden,
+        paymentType: studentData.paymentType,
+        installments: studentData.installments,
+        paymentStatus: studentData.paymentStatus,
+        paymentDate: studentData.paymentDate ?? null,
+        paymentForecastDate: studentData.paymentForecastDate ?? null,
+        userId,
+        couponId,
+        discountAmount,
+        affiliateCommission
+      }
+    });
+  }
+
+  return { results, prepared };
+};
+
+/**
+ * Importa alunos de um arquivo CSV.
+ * Em modo de simulação apenas retorna o relatório por linha; caso contrário grava
+ * as linhas válidas em uma única transação (qualquer falha desfaz a importação inteira).
+ */
+export const importStudentsFromCsv = async (
+  content: Buffer,
+  userId: number,
+  dryRun: boolean,
+  actor?: AuditActor
+): Promise<StudentImportReport> => {
+  const rows = parseCsv(content);
+
+  if (rows.length === 0) {
+    throw new AppError('O arquivo CSV não possui linhas de alunos', 400, 'file', 'EMPTY_CSV');
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new AppError(
+      `O arquivo possui ${rows.length} linhas; o máximo por importação é ${MAX_IMPORT_ROWS}`,
+      400,
+      'file',
+      'IMPORT_TOO_LARGE'
+    );
+  }
+
+  const { results, prepared } = await validateRows(rows, userId);
+
+  if (!dryRun && prepared.length > 0) {
+    await prisma.$transaction(async (tx) => {
+      for (const row of prepared) {
+        // Outro cadastro pode ter usado o CPF depois da validação
+        const duplicate = await tx.student.findUnique({
+          where: { cpf: row.data.cpf },
+          select: { id: true }
+        });
+
+        if (duplicate) {
+          row.result.status = 'skipped';
+          row.result.errors = [{ field: 'cpf', message: 'Já existe um aluno cadastrado com este CPF' }];
+          continue;
+        }
+
+        try {
+          const student = await createStudentSale(tx, row.data, row.informedStatus, actor);
+          row.result.status = 'created';
+          row.result.studentId = student.id;
+        } catch (error) {
+          if (error instanceof AppError) {
+            throw new AppError(
+              `Linha ${row.result.line}: ${error.message}. Nenhum aluno foi importado.`,
+              error.statusCode,
+              error.field,
+              error.code,
+              { line: row.result.line }
+            );
+          }
+          throw error;
+        }
+      }
+    }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+  }
+
+  const countByStatus = (status: StudentImportRowResult['status']) =>
+    results.filter(result => result.status === status).length;
+
+  return {
+    dryRun,
+    totalRows: results.length,
+    valid: countByStatus('valid'),
+    created: countByStatus('created'),
+    skipped: countByStatus('skipped'),
+    invalid: countByStatus('invalid'),
+    rows: results
+  };
+};
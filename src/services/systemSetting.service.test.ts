@@ -0,0 +1,38 @@
+import { Role } from '@prisma/client';
+import { mockPrismaClients } from '../test/prisma';
+import { clearTwoFactorPolicyCache, getTwoFactorRequiredRoles } from './systemSetting.service';
+
+const prisma = {
+  systemSetting: {
+    findUnique: jest.fn()
+  }
+};
+
+beforeAll(() => mockPrismaClients(prisma));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  clearTwoFactorPolicyCache();
+});
+
+describe('getTwoFactorRequiredRoles', () => {
+  it('ignora perfis desconhecidos na configuração gravada', async () => {
+    prisma.systemSetting.findUnique.mockResolvedValue({ value: `${Role.ADMIN}, INEXISTENTE` });
+
+    await expect(getTwoFactorRequiredRoles()).resolves.toEqual([Role.ADMIN]);
+  });
+
+  it('mantém a política em cache até ser descartada', async () => {
+    prisma.systemSetting.findUnique.mockResolvedValue({ value: Role.ADMIN });
+
+    await getTwoFactorRequiredRoles();
+    await getTwoFactorRequiredRoles();
+    expect(prisma.systemSetting.findUnique).toHaveBeenCalledTimes(1);
+
+    prisma.systemSetting.findUnique.mockResolvedValue({ value: '' });
+    clearTwoFactorPolicyCache();
+
+    await expect(getTwoFactorRequiredRoles()).resolves.toEqual([]);
+    expect(prisma.systemSetting.findUnique).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,93 @@
+import { PrismaClient, AuditAction, AuditEntity, Role } from '@prisma/client';
+import type { Prisma, SystemSetting } from '@prisma/client';
+import type { AuditActor } from '../models/audit.model';
+import { recordAudit } from './audit.service';
+
+const prisma = new PrismaClient();
+
+// Chaves das configurações do sistema
+export const SystemSettingKey = {
+  REPORT_EXPORT_MAX_ROWS: 'report.export.maxRows',
+  TWO_FACTOR_REQUIRED_ROLES: 'auth.twoFactor.requiredRoles'
+} as const;
+
+export type SystemSettingKey = typeof SystemSettingKey[keyof typeof SystemSettingKey];
+
+// Limite padrão de linhas por exportação enquanto nenhum administrador alterar a configuração
+export const DEFAULT_EXPORT_MAX_ROWS = Number(process.env.REPORT_EXPORT_MAX_ROWS) || 50000;
+
+// Perfis com verificação em duas etapas obrigatória enquanto nenhum administrador alterar a configuração
+const DEFAULT_TWO_FACTOR_REQUIRED_ROLES = process.env.TWO_FACTOR_REQUIRED_ROLES ?? '';
+
+// Tempo de cache da política de verificação em duas etapas, consultada a cada requisição autenticada
+// (outras instâncias da API passam a ver uma alteração no máximo após esse intervalo)
+const TWO_FACTOR_POLICY_CACHE_MS = 60 * 1000;
+
+let twoFactorPolicyCache: { roles: Role[]; expiresAt: number } | null = null;
+
+/**
+ * Busca uma configuração do sistema (nula se nunca foi definida)
+ */
+export const getSystemSetting = (key: SystemSettingKey): Promise<SystemSetting | null> =>
+  prisma.systemSetting.findUnique({ where: { key } });
+
+/**
+ * Limite de linhas de uma exportação de relatório
+ */
+export const getExportMaxRows = async (): Promise<number> => {
+  const setting = await getSystemSetting(SystemSettingKey.REPORT_EXPORT_MAX_ROWS);
+  const value = setting ? Number.parseInt(setting.value, 10) : Number.NaN;
+
+  return Number.isNaN(value) ? DEFAULT_EXPORT_MAX_ROWS : value;
+};
+
+/**
+ * Perfis obrigados a usar a verificação em duas etapas (gravados como lista separada por vírgulas)
+ */
+export const getTwoFactorRequiredRoles = async (): Promise<Role[]> => {
+  if (twoFactorPolicyCache && twoFactorPolicyCache.expiresAt > Date.now()) {
+    return twoFactorPolicyCache.roles;
+  }
+
+  const setting = await getSystemSetting(SystemSettingKey.TWO_FACTOR_REQUIRED_ROLES);
+  const values = (setting?.value ?? DEFAULT_TWO_FACTOR_REQUIRED_ROLES).split(',').map(role => role.trim());
+  const roles = Object.values(Role).filter(role => values.includes(role));
+
+  twoFactorPolicyCache = { roles, expiresAt: Date.now() + TWO_FACTOR_POLICY_CACHE_MS };
+  return roles;
+};
+
+/**
+ * Descarta a política de verificação em duas etapas em cache (chamar após gravar uma alteração)
+ */
+export const clearTwoFactorPolicyCache = (): void => {
+  twoFactorPolicyCache = null;
+};
+
+/**
+ * Grava uma configuração do sistema registrando a alteração na auditoria
+ */
+export const updateSystemSetting = async (
+  client: Prisma.TransactionClient,
+  key: SystemSettingKey,
+  value: string,
+  actor?: AuditActor
+): Promise<SystemSetting> => {
+  const before = await client.systemSetting.findUnique({ where: { key } });
+
+  const setting = await client.systemSetting.upsert({
+    where: { key },
+    create: { key, value, updatedById: actor?.userId },
+    update: { value, updatedById: actor?.userId }
+  });
+
+  await recordAudit(client, actor, {
+    entity: AuditEntity.SYSTEM_SETTING,
+    entityId: setting.id,
+    action: before ? AuditAction.UPDATE : AuditAction.CREATE,
+    before,
+    after: setting
+  });
+
+  return setting;
+};
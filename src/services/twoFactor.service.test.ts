@@ -0,0 +1,58 @@
+import { authenticator } from 'otplib';
+import type { User } from '@prisma/client';
+import { mockPrismaClients } from '../test/prisma';
+import { verifySecondFactor } from './twoFactor.service';
+
+// A conferência de senha não participa destes testes
+jest.mock('../utils/password', () => ({ comparePassword: jest.fn(), hashPassword: jest.fn() }));
+
+const secret = authenticator.generateSecret();
+
+const user = {
+  id: 1,
+  twoFactorSecret: secret,
+  twoFactorEnabledAt: new Date(),
+  twoFactorLastCounter: null
+} as unknown as User;
+
+const prisma = {
+  user: { updateMany: jest.fn() },
+  twoFactorRecoveryCode: { updateMany: jest.fn(async () => ({ count: 0 })) }
+};
+
+beforeAll(() => mockPrismaClients(prisma));
+
+beforeEach(() => jest.clearAllMocks());
+
+describe('verifySecondFactor', () => {
+  it('aceita o código do aplicativo apenas uma vez', async () => {
+    const code = authenticator.generate(secret);
+
+    prisma.user.updateMany.mockResolvedValueOnce({ count: 1 });
+    await expect(verifySecondFactor(user, code)).resolves.toBeUndefined();
+
+    // O intervalo já foi gravado como utilizado: a reutilização não altera nenhum registro
+    prisma.user.updateMany.mockResolvedValueOnce({ count: 0 });
+    await expect(verifySecondFactor(user, code)).rejects.toMatchObject({ code: 'INVALID_TWO_FACTOR_CODE' });
+
+    const [firstUse] = prisma.user.updateMany.mock.calls[0];
+    expect(firstUse.where.OR).toEqual([
+      { twoFactorLastCounter: null },
+      { twoFactorLastCounter: { lt: firstUse.data.twoFactorLastCounter } }
+    ]);
+  });
+
+  it('aceita um código de recuperação ainda não utilizado', async () => {
+    prisma.twoFactorRecoveryCode.updateMany.mockResolvedValueOnce({ count: 1 });
+
+    await expect(verifySecondFactor(user, 'ABCDE-12345')).resolves.toBeUndefined();
+    expect(prisma.user.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('recusa códigos de usuários sem a verificação ativa', async () => {
+    const code = authenticator.generate(secret);
+
+    await expect(verifySecondFactor({ ...user, twoFactorEnabledAt: null }, code))
+      .rejects.toMatchObject({ statusCode: 401, code: 'INVALID_TWO_FACTOR_CODE' });
+  });
+});
@@ -0,0 +1,271 @@
+import { randomBytes } from 'crypto';
+import { authenticator } from 'otplib';
+import { PrismaClient, AuditAction, AuditEntity } from '@prisma/client';
+import type { Prisma, User } from '@prisma/client';
+import type { AuditActor } from '../models/audit.model';
+import type { TwoFactorStatus } from '../models/user.model';
+import { comparePassword } from '../utils/password';
+import { hashToken } from '../utils/token';
+import { AppError } from '../utils/errorHandler';
+import { recordAudit } from './audit.service';
+import { getTwoFactorRequiredRoles } from './systemSetting.service';
+
+const prisma = new PrismaClient();
+
+// Nome exibido no aplicativo autenticador
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'Controle de Vendas';
+
+// Quantidade de códigos de recuperação gerados a cada ativação
+const RECOVERY_CODE_COUNT = 10;
+
+// Intervalo de cada código TOTP, em segundos
+const TOTP_STEP = 30;
+
+// Aceita o código do intervalo anterior e do seguinte para tolerar diferenças de relógio
+const totp = authenticator.clone({ step: TOTP_STEP, window: 1 });
+
+/**
+ * Normaliza um código de recuperação (sem espaços e hífens, em minúsculas)
+ */
+const normalizeRecoveryCode = (code: string): string => code.replace(/[\s-]/g, '').toLowerCase();
+
+/**
+ * Gera novos códigos de recuperação, substituindo os anteriores.
+ * Retorna os códigos em texto; apenas os hashes são gravados.
+ */
+const replaceRecoveryCodes = async (client: Prisma.TransactionClient, userId: number): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const value = randomBytes(5).toString('hex');
+    return `${value.slice(0, 5)}-${value.slice(5)}`;
+  });
+
+  await client.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+  await client.twoFactorRecoveryCode.createMany({
+    data: codes.map(code => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) }))
+  });
+
+  return codes;
+};
+
+/**
+ * Busca o usuário autenticado
+ */
+const findUser = async (userId: number): Promise<User> => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (!user || user.deletedAt) {
+    throw new AppError('Usuário não encontrado.', 404, undefined, 'USER_NOT_FOUND');
+  }
+
+  return user;
+};
+
+/**
+ * Confere a senha atual antes de alterar a verificação em duas etapas
+ */
+const ensurePassword = async (user: User, password: string): Promise<void> => {
+  if (!(await comparePassword(password, user.password))) {
+    throw new AppError('A senha informada está incorreta', 400, 'password', 'INVALID_PASSWORD');
+  }
+};
+
+/**
+ * Confere um código do aplicativo autenticador. Cada código só é aceito uma vez.
+ */
+const verifyTotpCode = async (user: User, code: string): Promise<boolean> => {
+  if (!user.twoFactorSecret || !/^\d{6}$/.test(code)) {
+    return false;
+  }
+
+  const delta = totp.checkDelta(code, user.twoFactorSecret);
+
+  if (delta === null) {
+    return false;
+  }
+
+  const counter = Math.floor(Date.now() / 1000 / TOTP_STEP) + delta;
+
+  // Grava o intervalo utilizado apenas se for posterior ao último aceito
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ twoFactorLastCounter: null }, { twoFactorLastCounter: { lt: counter } }]
+    },
+    data: { twoFactorLastCounter: counter }
+  });
+
+  return count > 0;
+};
+
+/**
+ * Consome um código de recuperação ainda não utilizado
+ */
+const useRecoveryCode = async (userId: number, code: string): Promise<boolean> => {
+  const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { userId, codeHash: hashToken(normalizeRecoveryCode(code)), usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  return count > 0;
+};
+
+/**
+ * Confere o segundo fator: código do aplicativo autenticador ou código de recuperação
+ */
+export const verifySecondFactor = async (user: User, code: string): Promise<void> => {
+  const normalized = code.trim();
+  const valid = user.twoFactorEnabledAt
+    && (await verifyTotpCode(user, normalized) || await useRecoveryCode(user.id, normalized));
+
+  if (!valid) {
+    throw new AppError('Código de verificação inválido', 401, 'code', 'INVALID_TWO_FACTOR_CODE');
+  }
+};
+
+/**
+ * Indica se o perfil do usuário exige a verificação em duas etapas
+ */
+export const isTwoFactorRequired = async (role: User['role']): Promise<boolean> =>
+  (await getTwoFactorRequiredRoles()).includes(role);
+
+/**
+ * Situação da verificação em duas etapas do usuário
+ */
+export const getTwoFactorStatus = async (userId: number): Promise<TwoFactorStatus> => {
+  const user = await findUser(userId);
+  const recoveryCodesRemaining = await prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } });
+
+  return {
+    enabled: !!user.twoFactorEnabledAt,
+    enabledAt: user.twoFactorEnabledAt,
+    required: await isTwoFactorRequired(user.role),
+    recoveryCodesRemaining: user.twoFactorEnabledAt ? recoveryCodesRemaining : 0
+  };
+};
+
+/**
+ * Inicia o cadastro da verificação em duas etapas: gera um novo segredo, que só passa
+ * a valer depois de confirmado com um código do aplicativo autenticador
+ */
+export const startTwoFactorSetup = async (
+  userId: number,
+  password: string
+): Promise<{ secret: string; otpauthUri: string }> => {
+  const user = await findUser(userId);
+  await ensurePassword(user, password);
+
+  if (user.twoFactorEnabledAt) {
+    throw new AppError('A verificação em duas etapas já está ativa. Desative-a antes de cadastrar um novo dispositivo.', 409, undefined, 'TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  const secret = totp.generateSecret();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorSecret: secret, twoFactorLastCounter: null }
+  });
+
+  return {
+    secret,
+    otpauthUri: totp.keyuri(user.email, TWO_FACTOR_ISSUER, secret)
+  };
+};
+
+/**
+ * Confirma o cadastro com um código do aplicativo e ativa a verificação em duas etapas.
+ * Retorna os códigos de recuperação, exibidos apenas uma vez.
+ */
+export const enableTwoFactor = async (actor: AuditActor, code: string): Promise<string[]> => {
+  const user = await findUser(actor.userId);
+
+  if (user.twoFactorEnabledAt) {
+    throw new AppError('A verificação em duas etapas já está ativa', 409, undefined, 'TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  if (!user.twoFactorSecret) {
+    throw new AppError('Inicie o cadastro da verificação em duas etapas antes de confirmá-la', 400, undefined, 'TWO_FACTOR_SETUP_REQUIRED');
+  }
+
+  if (!(await verifyTotpCode(user, code.trim()))) {
+    throw new AppError('Código de verificação inválido', 400, 'code', 'INVALID_TWO_FACTOR_CODE');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const updatedUser = await tx.user.update({
+      where: { id: user.id },
+      data: { twoFactorEnabledAt: new Date() }
+    });
+
+    const codes = await replaceRecoveryCodes(tx, user.id);
+
+    await recordAudit(tx, actor, {
+      entity: AuditEntity.USER,
+      entityId: user.id,
+      action: AuditAction.UPDATE,
+      before: user,
+      after: updatedUser
+    });
+
+    return codes;
+  });
+};
+
+/**
+ * Remove a verificação em duas etapas do usuário (segredo e códigos de recuperação)
+ */
+export const resetTwoFactor = async (
+  client: Prisma.TransactionClient,
+  user: User,
+  actor: AuditActor | undefined
+): Promise<void> => {
+  const updatedUser = await client.user.update({
+    where: { id: user.id },
+    data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastCounter: null }
+  });
+
+  await client.twoFactorRecoveryCode.deleteMany({ where: { userId: user.id } });
+
+  await recordAudit(client, actor, {
+    entity: AuditEntity.USER,
+    entityId: user.id,
+    action: AuditAction.UPDATE,
+    before: user,
+    after: updatedUser
+  });
+};
+
+/**
+ * Desativa a verificação em duas etapas do usuário autenticado (exige senha e código).
+ * Não é permitido quando o perfil do usuário a torna obrigatória.
+ */
+export const disableTwoFactor = async (actor: AuditActor, password: string, code: string): Promise<void> => {
+  const user = await findUser(actor.userId);
+  await ensurePassword(user, password);
+
+  if (!user.twoFactorEnabledAt) {
+    throw new AppError('A verificação em duas etapas não está ativa', 400, undefined, 'TWO_FACTOR_NOT_ENABLED');
+  }
+
+  if (await isTwoFactorRequired(user.role)) {
+    throw new AppError('A verificação em duas etapas é obrigatória para o seu perfil', 403, undefined, 'TWO_FACTOR_REQUIRED');
+  }
+
+  await verifySecondFactor(user, code);
+
+  await prisma.$transaction(tx => resetTwoFactor(tx, user, actor));
+};
+
+/**
+ * Gera novos códigos de recuperação (os anteriores deixam de valer)
+ */
+export const regenerateRecoveryCodes = async (userId: number, code: string): Promise<string[]> => {
+  const user = await findUser(userId);
+
+  if (!user.twoFactorEnabledAt) {
+    throw new AppError('A verificação em duas etapas não está ativa', 400, undefined, 'TWO_FACTOR_NOT_ENABLED');
+  }
+
+  await verifySecondFactor(user, code);
+
+  return prisma.$transaction(tx => replaceRecoveryCodes(tx, user.id));
+};
@@ -0,0 +1,10 @@
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Define os métodos usados pelo teste nos PrismaClient criados pelos módulos importados
+ */
+export const mockPrismaClients = (client: Record<string, unknown>): void => {
+  for (const { value } of jest.mocked(PrismaClient).mock.results) {
+    Object.assign(value, client);
+  }
+};
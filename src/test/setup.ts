@@ -0,0 +1,6 @@
+// Testes unitários não acessam o banco: o PrismaClient instanciado pelos módulos é substituído
+// por um objeto vazio, mantendo os enums reais do cliente gerado
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => ({}))
+}));
@@ -0,0 +1,8 @@
+/**
+ * Primeiro instante do dia seguinte, para incluir o dia inteiro em filtros "até a data"
+ */
+export const endOfDayExclusive = (date: Date): Date => {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + 1);
+  return result;
+};
@@ -1,4 +1,5 @@
 import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
 import type { Role } from '../models/user.model';
 import type { Secret, SignOptions } from 'jsonwebtoken';
 
@@ -7,6 +8,7 @@ export interface TokenPayload {
   userId: number;
   email: string;
   role: Role;
+  sessionId?: number; // Sessão de login que emitiu o token
 }
 
 // Tipos para resposta de autenticação
@@ -34,13 +36,36 @@ export const generateToken = (payload: TokenPayload): string => {
 };
 
 /**
- * Gera um refresh token
+ * Gera um refresh token (o identificador aleatório garante um token diferente a cada rotação)
  */
 export const generateRefreshToken = (payload: TokenPayload): string => {
   const secret = process.env.REFRESH_TOKEN_SECRET || 'refresh_fallback_secret';
   const expiresIn = process.env.REFRESH_TOKEN_EXPIRES_IN || '7d';
   
-  return jwt.sign(payload, secret as Secret, { expiresIn } as SignOptions);
+  return jwt.sign(payload, secret as Secret, { expiresIn, jwtid: randomUUID() } as SignOptions);
+};
+
+/**
+ * Gera o token de desafio do login com verificação em duas etapas (válido por poucos minutos)
+ */
+export const generateTwoFactorChallengeToken = (userId: number): string => {
+  const secret = process.env.TWO_FACTOR_CHALLENGE_SECRET || 'two_factor_fallback_secret';
+  const expiresIn = process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m';
+  
+  return jwt.sign({ userId }, secret as Secret, { expiresIn } as SignOptions);
+};
+
+/**
+ * Verifica o token de desafio do login e retorna o ID do usuário
+ */
+export const verifyTwoFactorChallengeToken = (token: string): number | null => {
+  try {
+    const secret = process.env.TWO_FACTOR_CHALLENGE_SECRET || 'two_factor_fallback_secret';
+    const decoded = jwt.verify(token, secret as Secret) as { userId: number };
+    return decoded.userId;
+  } catch (error) {
+    return null;
+  }
 };
 
 /**
@@ -69,6 +94,19 @@ export const verifyRefreshToken = (token: string): TokenPayload | null => {
   }
 };
 
+/**
+ * Data de expiração de um token emitido por este módulo
+ */
+export const getTokenExpiration = (token: string): Date => {
+  const decoded = jwt.decode(token) as { exp?: number } | null;
+
+  if (!decoded?.exp) {
+    throw new Error('Token sem data de expiração');
+  }
+
+  return new Date(decoded.exp * 1000);
+};
+
 /**
  * Gera tokens de autenticação e estrutura a resposta
  */
@@ -79,11 +117,12 @@ export const generateAuthTokens = (user: {
   ddd?: string;
   phone?: string;
   role: Role 
-}): AuthResponse => {
+}, sessionId?: number): AuthResponse => {
   const payload: TokenPayload = {
     userId: user.id,
     email: user.email,
-    role: user.role
+    role: user.role,
+    ...(sessionId && { sessionId })
   };
 
   const token = generateToken(payload);
@@ -0,0 +1,11 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Gera um token aleatório para links e credenciais de uso único
+ */
+export const generateOpaqueToken = (): string => randomBytes(32).toString('hex');
+
+/**
+ * Hash SHA-256 de um token armazenado no banco (o token em si nunca é gravado)
+ */
+export const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');